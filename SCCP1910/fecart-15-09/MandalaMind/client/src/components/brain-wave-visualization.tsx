@@ -1,87 +1,123 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Activity } from "lucide-react";
-import { BrainwaveData } from '@shared/schema';
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, Cell, XAxis, YAxis } from "recharts";
+import { Activity, Eye } from "lucide-react";
+import { BrainwaveData, EegPowerBands, BlinkData, SpectralBandPower, SpectralBand } from '@shared/schema';
+import { RAW_EEG_WINDOW_SECONDS, type RawEegTrace } from '@/hooks/use-websocket';
+
+// Smallest vertical range (raw ADC units) so a flat signal isn't blown up into noise
+const RAW_MIN_SCALE = 100;
+const AXIS_HEIGHT = 12;
 
 interface BrainWaveVisualizationProps {
   data: BrainwaveData | null;
+  eegPower?: EegPowerBands | null;
+  spectralPower?: SpectralBandPower | null;
+  lastBlink?: BlinkData | null;
+  rawEeg?: RawEegTrace | null;
 }
 
-export function BrainWaveVisualization({ data }: BrainWaveVisualizationProps) {
+const BAND_LABELS: { key: keyof Omit<EegPowerBands, 'timestamp'>; label: string; color: string }[] = [
+  { key: 'delta', label: 'δ', color: 'var(--chart-1)' },
+  { key: 'theta', label: 'θ', color: 'var(--chart-2)' },
+  { key: 'lowAlpha', label: 'α1', color: 'var(--chart-3)' },
+  { key: 'highAlpha', label: 'α2', color: 'var(--chart-3)' },
+  { key: 'lowBeta', label: 'β1', color: 'var(--chart-4)' },
+  { key: 'highBeta', label: 'β2', color: 'var(--chart-4)' },
+  { key: 'lowGamma', label: 'γ1', color: 'var(--chart-5)' },
+  { key: 'highGamma', label: 'γ2', color: 'var(--chart-5)' },
+];
+
+const SPECTRAL_LABELS: { key: SpectralBand; label: string }[] = [
+  { key: 'delta', label: 'δ' },
+  { key: 'theta', label: 'θ' },
+  { key: 'alpha', label: 'α' },
+  { key: 'beta', label: 'β' },
+  { key: 'gamma', label: 'γ' },
+];
+
+const bandChartConfig = {
+  level: { label: 'Band power' },
+} satisfies ChartConfig;
+
+export function BrainWaveVisualization({ data, eegPower, spectralPower, lastBlink, rawEeg }: BrainWaveVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
-  const dataPointsRef = useRef<number[]>([]);
+  const scaleRef = useRef(RAW_MIN_SCALE);
+  const drawWaveformRef = useRef<() => void>(() => {});
 
-  // Generate realistic EEG waveform visualization
-  useEffect(() => {
+  // Draw the raw EEG trace; redrawn whenever a new batch arrives
+  const drawWaveform = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const animate = () => {
-      const width = canvas.width;
-      const height = canvas.height;
-      
-      ctx.clearRect(0, 0, width, height);
-      
-      // Generate wave data based on attention and meditation levels
-      const baseFrequency = data ? (data.attention + data.meditation) / 100 : 0.5;
-      const amplitude = data ? (data.signalQuality / 100) * (height / 4) : height / 8;
-      
-      // Add new data point
-      const newPoint = Math.sin(Date.now() * 0.01 * baseFrequency) * amplitude + 
-                      Math.sin(Date.now() * 0.02) * (amplitude * 0.3) +
-                      (Math.random() - 0.5) * (amplitude * 0.2);
-      
-      dataPointsRef.current.push(newPoint);
-      
-      // Keep only the last 100 points
-      if (dataPointsRef.current.length > 100) {
-        dataPointsRef.current.shift();
-      }
-      
-      // Draw the waveform
-      ctx.strokeStyle = data ? '#8b5cf6' : '#6b7280'; // primary color if data available
-      ctx.lineWidth = 2;
+    const rect = canvas.getBoundingClientRect();
+    const width = rect.width;
+    const height = rect.height;
+    ctx.clearRect(0, 0, width, height);
+
+    if (!rawEeg || rawEeg.samples.length < 2) return;
+
+    const { samples, sampleRate, timestamp } = rawEeg;
+    const windowMs = RAW_EEG_WINDOW_SECONDS * 1000;
+    const windowStart = timestamp - windowMs;
+    const xForTime = (time: number) => ((time - windowStart) / windowMs) * width;
+
+    // Auto-scale to the peak amplitude: grow immediately, shrink slowly so the trace doesn't jump
+    const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+    const target = Math.max(RAW_MIN_SCALE, peak * 1.1);
+    scaleRef.current = target > scaleRef.current ? target : scaleRef.current * 0.95 + target * 0.05;
+    const scale = scaleRef.current;
+    const plotHeight = height - AXIS_HEIGHT;
+    const yForValue = (value: number) => plotHeight / 2 - (value / scale) * (plotHeight / 2);
+
+    // Time axis: one gridline per wall-clock second, scrolling left with the trace
+    ctx.strokeStyle = 'rgba(148, 163, 184, 0.2)';
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.8)';
+    ctx.font = '10px Inter, sans-serif';
+    ctx.lineWidth = 1;
+    for (let second = Math.ceil(windowStart / 1000) * 1000; second <= timestamp; second += 1000) {
+      const x = xForTime(second);
       ctx.beginPath();
-      
-      const stepX = width / (dataPointsRef.current.length - 1);
-      
-      dataPointsRef.current.forEach((point, index) => {
-        const x = index * stepX;
-        const y = height / 2 + point;
-        
-        if (index === 0) {
-          ctx.moveTo(x, y);
-        } else {
-          ctx.lineTo(x, y);
-        }
-      });
-      
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, plotHeight);
       ctx.stroke();
-      
-      // Add gradient overlay
-      const gradient = ctx.createLinearGradient(0, 0, 0, height);
-      gradient.addColorStop(0, 'rgba(139, 92, 246, 0.1)');
-      gradient.addColorStop(1, 'rgba(139, 92, 246, 0.05)');
-      
-      ctx.fillStyle = gradient;
-      ctx.fill();
-      
-      animationRef.current = requestAnimationFrame(animate);
-    };
-    
-    animate();
-    
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
+      ctx.fillText(`:${new Date(second).getSeconds().toString().padStart(2, '0')}`, x + 2, height - 2);
+    }
+
+    // Zero line and amplitude scale
+    ctx.beginPath();
+    ctx.moveTo(0, plotHeight / 2);
+    ctx.lineTo(width, plotHeight / 2);
+    ctx.stroke();
+    ctx.fillText(`±${Math.round(scale)}`, 4, 10);
+
+    // The trace itself; sample i is (n - 1 - i) sample periods before the newest one
+    ctx.strokeStyle = rawEeg.simulated ? '#6b7280' : '#8b5cf6';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    samples.forEach((value, index) => {
+      const time = timestamp - ((samples.length - 1 - index) * 1000) / sampleRate;
+      const x = xForTime(time);
+      const y = yForValue(value);
+      if (index === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
       }
-    };
-  }, [data]);
+    });
+    ctx.stroke();
+  }, [rawEeg]);
+
+  useEffect(() => {
+    drawWaveformRef.current = drawWaveform;
+    drawWaveform();
+  }, [drawWaveform]);
 
   // Resize canvas to match container
   useEffect(() => {
@@ -97,6 +133,7 @@ export function BrainWaveVisualization({ data }: BrainWaveVisualizationProps) {
       if (ctx) {
         ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
       }
+      drawWaveformRef.current();
     };
 
     resizeCanvas();
@@ -171,7 +208,14 @@ export function BrainWaveVisualization({ data }: BrainWaveVisualizationProps) {
 
         {/* Real-time EEG Wave Visualization */}
         <div className="mt-6">
-          <div className="text-sm text-muted-foreground mb-2">EEG Waveform</div>
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-muted-foreground">EEG Waveform</span>
+            {rawEeg?.simulated && (
+              <Badge variant="secondary" className="text-xs" data-testid="badge-waveform-simulated">
+                Simulated
+              </Badge>
+            )}
+          </div>
           <div className="h-24 bg-secondary/30 rounded-lg relative overflow-hidden">
             <canvas
               ref={canvasRef}
@@ -179,14 +223,98 @@ export function BrainWaveVisualization({ data }: BrainWaveVisualizationProps) {
               style={{ width: '100%', height: '100%' }}
               data-testid="canvas-eeg-waveform"
             />
-            {!data && (
+            {!data ? (
               <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
                 <span data-testid="text-no-signal">No signal</span>
               </div>
+            ) : !rawEeg && (
+              <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
+                <span data-testid="text-raw-output-off">Raw EEG output is off</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* EEG Band Power */}
+        <div className="mt-6">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-muted-foreground">Band Power</span>
+            {lastBlink && (
+              <span className="text-xs text-muted-foreground flex items-center" data-testid="text-last-blink">
+                <Eye className="w-3 h-3 mr-1" />
+                Blink {lastBlink.strength} at {new Date(lastBlink.timestamp).toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+          <div className="h-32 bg-secondary/30 rounded-lg relative overflow-hidden">
+            {eegPower ? (
+              <ChartContainer config={bandChartConfig} className="aspect-auto h-full w-full" data-testid="chart-band-power">
+                {/* Bands span several orders of magnitude, so bars show log10 of the power */}
+                <BarChart
+                  data={BAND_LABELS.map(band => ({
+                    band: band.label,
+                    power: eegPower[band.key],
+                    level: Math.log10(eegPower[band.key] + 1),
+                    color: band.color,
+                  }))}
+                  margin={{ top: 8, right: 8, bottom: 0, left: 8 }}
+                >
+                  <XAxis dataKey="band" tickLine={false} axisLine={false} />
+                  <YAxis hide domain={[0, 7]} />
+                  <ChartTooltip
+                    cursor={false}
+                    content={({ active, payload }) => active && payload?.length ? (
+                      <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                        {payload[0].payload.band}: {payload[0].payload.power.toLocaleString()}
+                      </div>
+                    ) : null}
+                  />
+                  <Bar dataKey="level" radius={4} isAnimationActive={false}>
+                    {BAND_LABELS.map(band => (
+                      <Cell key={band.key} fill={band.color} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-muted-foreground text-sm">
+                <span data-testid="text-no-band-power">Waiting for band power</span>
+              </div>
             )}
           </div>
         </div>
 
+        {/* Band powers computed on the server from the raw trace */}
+        {spectralPower && (
+          <div className="mt-3 text-xs text-muted-foreground" data-testid="text-spectral-power">
+            <div className="flex justify-between">
+              <span>FFT ({spectralPower.windowSeconds}s window)</span>
+              <span>
+                α/θ {spectralPower.ratios.alphaTheta.toFixed(2)} · β/α {spectralPower.ratios.betaAlpha.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex h-2 mt-1 rounded overflow-hidden">
+              {SPECTRAL_LABELS.map((band, index) => (
+                <div
+                  key={band.key}
+                  title={`${band.label} ${(spectralPower.relative[band.key] * 100).toFixed(0)}%`}
+                  style={{
+                    width: `${spectralPower.relative[band.key] * 100}%`,
+                    backgroundColor: `var(--chart-${index + 1})`
+                  }}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between mt-1">
+              {SPECTRAL_LABELS.map(band => (
+                <span key={band.key}>
+                  {band.label} {(spectralPower.relative[band.key] * 100).toFixed(0)}%
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Data timestamp */}
         {data && (
           <div className="mt-2 text-xs text-muted-foreground text-right">
@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Gauge, Loader2 } from "lucide-react";
+import { UseWebSocketReturn } from "@/hooks/use-websocket";
+import { useToast } from "@/hooks/use-toast";
+import type { BrainwaveBaseline, CalibrationStatus } from '@shared/schema';
+
+const DURATION_OPTIONS = [30, 60, 90];
+
+interface CalibrationCardProps {
+  sessionId: string | null;
+  websocket: UseWebSocketReturn;
+}
+
+export function CalibrationCard({ sessionId, websocket }: CalibrationCardProps) {
+  const { neuroskyConnected, calibrationEvent } = websocket;
+  const { toast } = useToast();
+  const [durationSeconds, setDurationSeconds] = useState(60);
+  const [calibration, setCalibration] = useState<CalibrationStatus | null>(null);
+  const [baseline, setBaseline] = useState<BrainwaveBaseline | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  // Pick up an in-progress calibration or stored baseline when the session changes
+  useEffect(() => {
+    setCalibration(null);
+    setBaseline(null);
+    if (!sessionId) return;
+
+    fetch(`/api/sessions/${sessionId}/calibration`)
+      .then(response => response.json())
+      .then(data => {
+        setCalibration(data.calibration ?? null);
+        setBaseline(data.baseline ?? null);
+      })
+      .catch(error => console.error('Error loading calibration:', error));
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!calibrationEvent || calibrationEvent.data?.sessionId !== sessionId) return;
+
+    switch (calibrationEvent.type) {
+      case 'calibration_started':
+        setCalibration(calibrationEvent.data);
+        break;
+      case 'calibration_complete':
+        setCalibration(null);
+        setBaseline(calibrationEvent.data.baseline);
+        toast({
+          title: "Calibration Complete",
+          description: "Your mandalas will now reflect changes relative to your personal baseline.",
+        });
+        break;
+      case 'calibration_failed':
+        setCalibration(null);
+        toast({
+          title: "Calibration Failed",
+          description: calibrationEvent.error,
+          variant: "destructive",
+        });
+        break;
+      case 'calibration_cancelled':
+        setCalibration(null);
+        break;
+    }
+  }, [calibrationEvent, sessionId, toast]);
+
+  // Tick the progress bar while calibrating
+  useEffect(() => {
+    if (!calibration) return;
+
+    const update = () => setElapsedSeconds(Math.min(calibration.durationSeconds, (Date.now() - calibration.startedAt) / 1000));
+    update();
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [calibration]);
+
+  const handleStart = async () => {
+    if (!sessionId) return;
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/calibration`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ durationSeconds })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+      setCalibration(data.calibration);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to start calibration',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!sessionId) return;
+
+    try {
+      await fetch(`/api/sessions/${sessionId}/calibration`, { method: 'DELETE' });
+      setCalibration(null);
+    } catch (error) {
+      console.error('Error cancelling calibration:', error);
+    }
+  };
+
+  const formatBaseline = (metric: { mean: number; variance: number }) =>
+    `${Math.round(metric.mean)} ± ${Math.round(Math.sqrt(metric.variance))}`;
+
+  return (
+    <Card className="glass border-border/50">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Gauge className="text-primary mr-3 h-5 w-5" />
+            Personal Baseline
+          </h3>
+          <Badge variant={baseline ? "default" : "secondary"} data-testid="badge-calibration-status">
+            {calibration ? 'Calibrating' : baseline ? 'Calibrated' : 'Optional'}
+          </Badge>
+        </div>
+
+        {calibration ? (
+          <div className="space-y-3" data-testid="div-calibration-progress">
+            <p className="text-sm text-muted-foreground">
+              Sit still and breathe normally while we learn your resting attention and meditation levels.
+            </p>
+            <Progress value={(elapsedSeconds / calibration.durationSeconds) * 100} className="h-2" />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center">
+                <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                {Math.ceil(calibration.durationSeconds - elapsedSeconds)}s remaining
+              </span>
+              <Button
+                onClick={handleCancel}
+                variant="ghost"
+                size="sm"
+                data-testid="button-cancel-calibration"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {baseline ? (
+              <div className="grid grid-cols-2 gap-3 text-center" data-testid="div-calibration-baseline">
+                <div className="bg-primary/10 rounded-lg p-2">
+                  <div className="text-sm font-semibold text-primary">{formatBaseline(baseline.attention)}</div>
+                  <div className="text-xs text-muted-foreground">Attention</div>
+                </div>
+                <div className="bg-secondary/30 rounded-lg p-2">
+                  <div className="text-sm font-semibold">{formatBaseline(baseline.meditation)}</div>
+                  <div className="text-xs text-muted-foreground">Meditation</div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Everyone's brain waves are different. Calibrate first so your mandala reflects how you feel compared to your own resting state.
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              {DURATION_OPTIONS.map(option => (
+                <Button
+                  key={option}
+                  onClick={() => setDurationSeconds(option)}
+                  variant={durationSeconds === option ? "secondary" : "outline"}
+                  size="sm"
+                  data-testid={`button-calibration-duration-${option}`}
+                >
+                  {option}s
+                </Button>
+              ))}
+              <Button
+                onClick={handleStart}
+                disabled={!sessionId || !neuroskyConnected}
+                size="sm"
+                className="ml-auto"
+                data-testid="button-start-calibration"
+              >
+                {baseline ? 'Recalibrate' : 'Calibrate'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,10 +2,15 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Brain, Mic, Cloud, Plug, Cpu, AlertCircle, CheckCircle, Loader2, Zap, Info, ExternalLink } from "lucide-react";
 import { UseWebSocketReturn } from "@/hooks/use-websocket";
+import { FittingWizard } from "@/components/fitting-wizard";
 import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { DemoScenarioSummary } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -22,7 +27,9 @@ export function DeviceStatus({
   onConnectNeuroSky, 
   onDisconnectNeuroSky 
 }: DeviceStatusProps) {
-  const { isConnected, neuroskyConnected, eegData } = websocket;
+  const { isConnected, neuroskyConnected, eegData, device, stall } = websocket;
+  // Until the server confirms the subscription, the legacy endpoints address the default device
+  const deviceApi = device ? `/api/devices/${encodeURIComponent(device.id)}` : '/api/neurosky';
   const { toast } = useToast();
   const [isDemoMode, setIsDemoMode] = useState(false);
   const [isTogglingDemo, setIsTogglingDemo] = useState(false);
@@ -30,6 +37,12 @@ export function DeviceStatus({
   const [connectionError, setConnectionError] = useState<string>('');
   const [connectionHelp, setConnectionHelp] = useState<any>(null);
   const [showInstructions, setShowInstructions] = useState(false);
+  const [demoScenario, setDemoScenario] = useState('classic');
+  const [demoSeed, setDemoSeed] = useState('');
+
+  const { data: scenarioList } = useQuery<{ scenarios: DemoScenarioSummary[] }>({
+    queryKey: [`${deviceApi}/demo/scenarios`]
+  });
 
   // Signal quality assessment
   const getSignalQuality = () => {
@@ -46,7 +59,7 @@ export function DeviceStatus({
   // Check ThinkGear Connector availability
   const checkThinkGearConnector = async () => {
     try {
-      const response = await fetch('/api/neurosky/check');
+      const response = await fetch(`${deviceApi}/check`);
       const data = await response.json();
       
       if (!data.available) {
@@ -76,7 +89,7 @@ export function DeviceStatus({
     }
     
     try {
-      const response = await fetch('/api/neurosky/connect', {
+      const response = await fetch(`${deviceApi}/connect`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -106,7 +119,7 @@ export function DeviceStatus({
       setConnectionError('');
       setConnectionHelp(null);
       
-      const response = await fetch('/api/neurosky/disconnect', {
+      const response = await fetch(`${deviceApi}/disconnect`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -135,13 +148,16 @@ export function DeviceStatus({
     }
   }, [neuroskyConnected, isConnecting]);
 
-  const handleDemoModeToggle = async (enabled: boolean) => {
+  const handleDemoModeToggle = async (enabled: boolean, scenario: string = demoScenario) => {
     setIsTogglingDemo(true);
     try {
-      const endpoint = enabled ? '/api/neurosky/demo/enable' : '/api/neurosky/demo/disable';
+      const endpoint = `${deviceApi}/demo/${enabled ? 'enable' : 'disable'}`;
+      // An empty seed uses the one stored in the scenario file
+      const seed = demoSeed.trim() === '' ? undefined : parseInt(demoSeed, 10);
       const response = await fetch(endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json' },
+        body: enabled ? JSON.stringify({ scenario, seed: Number.isNaN(seed) ? undefined : seed }) : undefined
       });
       
       const data = await response.json();
@@ -226,31 +242,70 @@ export function DeviceStatus({
             </div>
             <Switch
               checked={isDemoMode}
-              onCheckedChange={handleDemoModeToggle}
+              onCheckedChange={(checked) => handleDemoModeToggle(checked)}
               disabled={isTogglingDemo}
               data-testid="switch-demo-mode"
             />
           </div>
 
+          {/* Demo Scenario */}
+          {scenarioList && scenarioList.scenarios.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Select
+                value={demoScenario}
+                onValueChange={(scenario) => {
+                  setDemoScenario(scenario);
+                  // Restart the running demo with the new story
+                  if (isDemoMode) {
+                    handleDemoModeToggle(true, scenario);
+                  }
+                }}
+                disabled={isTogglingDemo}
+              >
+                <SelectTrigger className="flex-1" data-testid="select-demo-scenario">
+                  <SelectValue placeholder="Demo scenario" />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenarioList.scenarios.map((scenario) => (
+                    <SelectItem key={scenario.name} value={scenario.name}>
+                      {scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                value={demoSeed}
+                onChange={(event) => setDemoSeed(event.target.value)}
+                placeholder="Seed"
+                className="w-24"
+                disabled={isTogglingDemo}
+                data-testid="input-demo-seed"
+              />
+            </div>
+          )}
+
           {/* NeuroSky Connection */}
           <div className="p-3 bg-secondary/30 rounded-lg space-y-2">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
                 <Brain className="text-primary h-5 w-5" />
                 <span data-testid="text-neurosky-label">
-                  {isDemoMode ? 'Simulated Brain Waves' : 'NeuroSky Headset'}
+                  {isDemoMode ? 'Simulated Brain Waves' : device?.name ?? 'NeuroSky Headset'}
                 </span>
               </div>
               <Badge 
-                variant={neuroskyConnected ? "default" : isConnecting ? "secondary" : "destructive"}
+                variant={stall ? "secondary" : neuroskyConnected ? "default" : isConnecting ? "secondary" : "destructive"}
                 data-testid="badge-neurosky-status"
               >
                 <div className={`w-2 h-2 rounded-full mr-2 ${
+                  stall ? 'bg-yellow-500' :
                   neuroskyConnected ? 'bg-green-500' : 
                   isConnecting ? 'bg-yellow-500' :
                   'bg-red-500'
                 }`} />
-                {neuroskyConnected ? (isDemoMode ? 'Simulating' : 'Connected') : 
+                {stall ? (stall.recovering ? 'Reconnecting...' : 'Stalled') :
+                 neuroskyConnected ? (isDemoMode ? 'Simulating' : 'Connected') : 
                  isConnecting ? 'Connecting...' : 'Disconnected'}
               </Badge>
             </div>
@@ -267,8 +322,27 @@ export function DeviceStatus({
                 </div>
               </div>
             )}
+
+            {/* Headset Fitting */}
+            {neuroskyConnected && (
+              <FittingWizard websocket={websocket} deviceApi={deviceApi} />
+            )}
           </div>
 
+          {/* Stalled Stream */}
+          {stall && (
+            <Alert className="border-yellow-500/50 bg-yellow-500/10" data-testid="alert-stream-stalled">
+              <AlertCircle className="h-4 w-4 text-yellow-500" />
+              <AlertTitle>Headset Stopped Sending</AlertTitle>
+              <AlertDescription>
+                {stall.reason === 'no_data'
+                  ? `No data for ${Math.round(stall.lastDataAgeMs / 1000)} seconds. The headset's Bluetooth link may have dropped.`
+                  : 'Data is arriving without attention or meditation readings. Check the headset fit.'}
+                {stall.recovering ? ' Reconnecting automatically...' : ' The values shown are from before the stall.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Connection Error */}
           {connectionError && (
             <Alert className="border-destructive/50 bg-destructive/10">
@@ -375,6 +449,11 @@ export function DeviceStatus({
                     </ol>
                   </div>
                   <p className="text-sm text-green-600">{connectionHelp.demoInfo.note}</p>
+                  {connectionHelp.demoInfo.seed !== undefined && (
+                    <p className="text-xs text-green-600" data-testid="text-demo-seed">
+                      Scenario {connectionHelp.demoInfo.scenario}, seed {connectionHelp.demoInfo.seed}
+                    </p>
+                  )}
                 </div>
               </AlertDescription>
             </Alert>
@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, AlertCircle, Circle, Loader2, Crosshair } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { UseWebSocketReturn } from "@/hooks/use-websocket";
+import { useToast } from "@/hooks/use-toast";
+import type { FittingAttemptsSummary, FittingIssue, FittingOutcome, FittingStep } from '@shared/schema';
+
+const STABLE_OPTIONS = [5, 10, 20];
+
+const STEPS: { step: FittingStep; label: string }[] = [
+  { step: 'contact', label: 'Sensor contact' },
+  { step: 'ear_clip', label: 'Ear clip' },
+  { step: 'stillness', label: 'Holding still' },
+  { step: 'blink', label: 'Blink check' },
+  { step: 'stable', label: 'Stable signal' },
+];
+
+const ISSUE_HINTS: Record<FittingIssue, string> = {
+  no_contact: "The forehead sensor isn't touching skin. Move hair aside and press the sensor flat above the left eyebrow.",
+  ear_clip_loose: 'The signal is noisy. Clip the ear clip firmly onto the earlobe and take off any earrings.',
+  movement: 'Too much movement. Ask the visitor to sit still, relax their jaw and let the cable hang freely.',
+  no_blink: 'Ask the visitor to blink firmly once so we know the sensor picks up eye movement.',
+};
+
+const OUTCOME_MESSAGES: Record<FittingOutcome, string> = {
+  fitted: 'Headset fitted. The signal is stable.',
+  cancelled: 'Fitting cancelled.',
+  timed_out: 'Fitting timed out. Reseat the headset and try again.',
+  disconnected: 'The headset disconnected during fitting.',
+};
+
+interface FittingWizardProps {
+  websocket: UseWebSocketReturn;
+  // Base path of the device's API (/api/devices/:id or /api/neurosky)
+  deviceApi: string;
+}
+
+// Walks staff through seating the headset, one check at a time, until the signal holds steady
+export function FittingWizard({ websocket, deviceApi }: FittingWizardProps) {
+  const { fitting, neuroskyConnected } = websocket;
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [stableSeconds, setStableSeconds] = useState(10);
+
+  const { data: attempts } = useQuery<{ summary: FittingAttemptsSummary }>({
+    queryKey: [`${deviceApi}/fitting/attempts`]
+  });
+
+  const isFitting = !!fitting && !fitting.outcome;
+
+  // Each finished attempt is logged on the server; refresh the setup time figures
+  useEffect(() => {
+    if (fitting?.outcome) {
+      queryClient.invalidateQueries({ queryKey: [`${deviceApi}/fitting/attempts`] });
+    }
+  }, [fitting?.outcome, deviceApi, queryClient]);
+
+  const handleStart = async () => {
+    try {
+      const response = await fetch(`${deviceApi}/fitting`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ stableSeconds })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to start fitting',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await fetch(`${deviceApi}/fitting`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error cancelling fitting:', error);
+    }
+  };
+
+  if (!isFitting) {
+    const summary = attempts?.summary;
+    return (
+      <div className="space-y-2" data-testid="div-fitting-idle">
+        {fitting?.outcome && (
+          <p className={`text-xs ${fitting.outcome === 'fitted' ? 'text-green-400' : 'text-muted-foreground'}`}>
+            {OUTCOME_MESSAGES[fitting.outcome]}
+          </p>
+        )}
+        <div className="flex items-center gap-2">
+          {STABLE_OPTIONS.map(option => (
+            <Button
+              key={option}
+              onClick={() => setStableSeconds(option)}
+              variant={stableSeconds === option ? "secondary" : "outline"}
+              size="sm"
+              data-testid={`button-fitting-stable-${option}`}
+            >
+              {option}s
+            </Button>
+          ))}
+          <Button
+            onClick={handleStart}
+            disabled={!neuroskyConnected}
+            size="sm"
+            className="ml-auto"
+            data-testid="button-start-fitting"
+          >
+            <Crosshair className="w-3 h-3 mr-2" />
+            Fit Headset
+          </Button>
+        </div>
+        {summary && summary.fitted > 0 && (
+          <p className="text-xs text-muted-foreground" data-testid="text-fitting-median">
+            Typical fit: {summary.medianFittedSeconds}s ({summary.fitted} of {summary.count} attempts succeeded)
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const currentIndex = STEPS.findIndex(entry => entry.step === fitting.step);
+
+  return (
+    <div className="space-y-3" data-testid="div-fitting-progress">
+      <ul className="space-y-1 text-xs">
+        {STEPS.map((entry, index) => (
+          <li key={entry.step} className="flex items-center">
+            {index < currentIndex ? (
+              <CheckCircle className="w-3 h-3 mr-2 text-green-500" />
+            ) : index === currentIndex ? (
+              fitting.issue
+                ? <AlertCircle className="w-3 h-3 mr-2 text-yellow-500" />
+                : <Loader2 className="w-3 h-3 mr-2 text-primary animate-spin" />
+            ) : (
+              <Circle className="w-3 h-3 mr-2 text-muted-foreground" />
+            )}
+            <span className={index === currentIndex ? 'font-medium' : 'text-muted-foreground'}>{entry.label}</span>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-sm text-muted-foreground" data-testid="text-fitting-hint">
+        {fitting.issue ? ISSUE_HINTS[fitting.issue] : 'Looking good. Hold still while the signal settles.'}
+      </p>
+
+      <Progress value={(fitting.stableSeconds / fitting.requiredStableSeconds) * 100} className="h-2" />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          Stable {fitting.stableSeconds}s of {fitting.requiredStableSeconds}s
+          {fitting.poorSignalLevel !== null && ` · poor signal ${fitting.poorSignalLevel}`}
+        </span>
+        <Button
+          onClick={handleCancel}
+          variant="ghost"
+          size="sm"
+          data-testid="button-cancel-fitting"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { Eye } from "lucide-react";
+import type { BlinkGesture, BlinkGestureName, GestureAction } from '@shared/schema';
+
+// How long the confirmation stays on screen
+const FEEDBACK_DURATION_MS = 2500;
+
+const GESTURE_LABELS: Record<BlinkGestureName, string> = {
+  double_blink: 'Double blink',
+  triple_blink: 'Triple blink',
+};
+
+const ACTION_LABELS: Record<GestureAction, string> = {
+  toggle_recording: 'Start / stop recording',
+  generate_mandala: 'Generate mandala',
+  reset_session: 'Start fresh',
+  none: 'No action',
+};
+
+interface GestureFeedbackProps {
+  gesture: BlinkGesture | null;
+}
+
+// Tells a visitor wearing the headset that their blinks were understood
+export function GestureFeedback({ gesture }: GestureFeedbackProps) {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    if (!gesture) return;
+    setVisible(true);
+    const timer = setTimeout(() => setVisible(false), FEEDBACK_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [gesture]);
+
+  if (!gesture || !visible) return null;
+
+  return (
+    <div
+      className="fixed top-6 left-1/2 -translate-x-1/2 z-50 glass border border-primary/50 rounded-full px-5 py-3 flex items-center gap-3 shadow-lg animate-in fade-in slide-in-from-top-4"
+      role="status"
+      data-testid="div-gesture-feedback"
+    >
+      <Eye className="h-5 w-5 text-primary" />
+      <span className="text-sm font-medium text-foreground">{GESTURE_LABELS[gesture.gesture]}</span>
+      <span className="text-sm text-muted-foreground">→ {ACTION_LABELS[gesture.action]}</span>
+    </div>
+  );
+}
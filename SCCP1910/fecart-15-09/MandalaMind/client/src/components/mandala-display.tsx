@@ -11,6 +11,7 @@ interface GeneratedMandala {
   prompt: string;
   revisedPrompt?: string;
   generationTime?: number;
+  dataConfidence?: number | null;
 }
 
 interface MandalaDisplayProps {
@@ -18,9 +19,11 @@ interface MandalaDisplayProps {
   isGenerating: boolean;
   generationStatus: 'idle' | 'generating' | 'completed' | 'error';
   error?: string;
+  // Called once the image has actually loaded in front of the visitor
+  onRevealed?: (mandalaId?: string) => void;
 }
 
-export function MandalaDisplay({ mandala, isGenerating, generationStatus, error }: MandalaDisplayProps) {
+export function MandalaDisplay({ mandala, isGenerating, generationStatus, error, onRevealed }: MandalaDisplayProps) {
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
 
   // Generate QR code when mandala is available
@@ -115,6 +118,7 @@ export function MandalaDisplay({ mandala, isGenerating, generationStatus, error
               src={mandala.imageUrl}
               alt="Generated mandala based on brain waves and voice input" 
               className="w-full h-full object-cover rounded-lg"
+              onLoad={() => onRevealed?.(mandala.id)}
               data-testid="img-generated-mandala"
             />
           ) : error ? (
@@ -150,9 +154,19 @@ export function MandalaDisplay({ mandala, isGenerating, generationStatus, error
             </span>
           </div>
           {mandala && (
-            <span className="text-xs text-muted-foreground" data-testid="text-generation-time">
-              {mandala.generationTime ? `${mandala.generationTime}s` : ''}
-            </span>
+            <div className="flex items-center space-x-2">
+              {typeof mandala.dataConfidence === 'number' && (
+                <Badge
+                  variant={mandala.dataConfidence < 0.5 ? "destructive" : "secondary"}
+                  data-testid="badge-data-confidence"
+                >
+                  {Math.round(mandala.dataConfidence * 100)}% reliable data
+                </Badge>
+              )}
+              <span className="text-xs text-muted-foreground" data-testid="text-generation-time">
+                {mandala.generationTime ? `${mandala.generationTime}s` : ''}
+              </span>
+            </div>
           )}
         </div>
 
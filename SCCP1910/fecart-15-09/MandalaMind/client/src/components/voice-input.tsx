@@ -1,17 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Mic, MicOff, Square, Edit3 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Mic, MicOff, Square, Edit3, AlertTriangle } from "lucide-react";
 import { useSpeechRecognition } from "@/hooks/use-speech-recognition";
+import type { MarkerType } from "@shared/schema";
+
+export interface RecordingWindow {
+  startedAt: number;
+  endedAt: number;
+}
 
 interface VoiceInputProps {
   onTranscriptChange: (transcript: string) => void;
-  onGenerateMandala: (transcript: string) => void;
+  // recordingWindow spans the first start to the last stop of voice recording (client clock)
+  onGenerateMandala: (transcript: string, recordingWindow?: RecordingWindow) => void;
   isGenerating: boolean;
   resetTrigger?: number; // Increment to trigger reset
+  recordingToggleTrigger?: number; // Increment to start/stop recording (blink gestures)
+  generateTrigger?: number; // Increment to generate from the current transcript
+  dataConfidence?: number | null; // Share of reliable EEG samples in the capture window
+  requireReliableData?: boolean;
+  onRequireReliableDataChange?: (required: boolean) => void;
+  // Called when speech capture starts and stops, to mark the session timeline
+  onMarker?: (type: MarkerType) => void;
 }
 
-export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating, resetTrigger }: VoiceInputProps) {
+export function VoiceInput({
+  onTranscriptChange,
+  onGenerateMandala,
+  isGenerating,
+  resetTrigger,
+  recordingToggleTrigger,
+  generateTrigger,
+  dataConfidence = null,
+  requireReliableData = false,
+  onRequireReliableDataChange,
+  onMarker
+}: VoiceInputProps) {
   const {
     isListening,
     transcript,
@@ -25,6 +51,8 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
   const [hasStartedRecording, setHasStartedRecording] = useState(false);
   const [manualText, setManualText] = useState('');
   const [isManualMode, setIsManualMode] = useState(false);
+  const recordingStartedAt = useRef<number | null>(null);
+  const recordingEndedAt = useRef<number | null>(null);
 
   // Effective transcript combines speech recognition and manual text
   const effectiveTranscript = isManualMode ? manualText : transcript;
@@ -34,6 +62,18 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
     onTranscriptChange(effectiveTranscript);
   }, [effectiveTranscript, onTranscriptChange]);
 
+  // Track when speech capture starts and stops, including when the browser ends it on its own
+  useEffect(() => {
+    if (isListening) {
+      recordingStartedAt.current = recordingStartedAt.current ?? Date.now();
+      recordingEndedAt.current = null;
+      onMarker?.('recording_started');
+    } else if (recordingStartedAt.current !== null && recordingEndedAt.current === null) {
+      recordingEndedAt.current = Date.now();
+      onMarker?.('recording_stopped');
+    }
+  }, [isListening]);
+
   // Handle external reset trigger
   useEffect(() => {
     if (resetTrigger && resetTrigger > 0) {
@@ -46,6 +86,8 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
       setManualText('');
       setHasStartedRecording(false);
       setIsManualMode(false);
+      recordingStartedAt.current = null;
+      recordingEndedAt.current = null;
     }
   }, [resetTrigger, isListening, stopListening, resetTranscript]);
 
@@ -56,6 +98,7 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
       if (!hasStartedRecording) {
         setHasStartedRecording(true);
         resetTranscript();
+        recordingStartedAt.current = null;
       }
       startListening();
     }
@@ -63,17 +106,39 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
 
   const handleGenerateMandala = () => {
     if (effectiveTranscript.trim()) {
-      onGenerateMandala(effectiveTranscript.trim());
+      const startedAt = recordingStartedAt.current;
+      const recordingWindow = startedAt !== null
+        ? { startedAt, endedAt: recordingEndedAt.current ?? Date.now() }
+        : undefined;
+      onGenerateMandala(effectiveTranscript.trim(), recordingWindow);
       onTranscriptChange(effectiveTranscript.trim());
     }
   };
 
+  // Hands-free control: each increment acts as if the matching button was pressed
+  useEffect(() => {
+    if (recordingToggleTrigger && recordingToggleTrigger > 0) {
+      handleToggleRecording();
+    }
+  }, [recordingToggleTrigger]);
+
+  useEffect(() => {
+    if (generateTrigger && generateTrigger > 0 && !isGenerating) {
+      if (isListening) {
+        stopListening();
+      }
+      handleGenerateMandala();
+    }
+  }, [generateTrigger]);
+
   const handleClearTranscript = () => {
     resetTranscript();
     setManualText('');
     onTranscriptChange('');
     setHasStartedRecording(false);
     setIsManualMode(false);
+    recordingStartedAt.current = null;
+    recordingEndedAt.current = null;
   };
 
   const handleManualTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -194,6 +259,31 @@ export function VoiceInput({ onTranscriptChange, onGenerateMandala, isGenerating
             )}
           </div>
 
+          {/* Signal Reliability */}
+          {dataConfidence !== null && dataConfidence < 0.5 && (
+            <div
+              className="flex items-start space-x-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-3"
+              data-testid="div-unreliable-signal-warning"
+            >
+              <AlertTriangle className="w-4 h-4 text-yellow-500 mt-0.5 shrink-0" />
+              <p className="text-xs text-muted-foreground">
+                Only {Math.round(dataConfidence * 100)}% of the last 30 seconds of brain wave data was reliable.
+                Check the headset fit before generating.
+              </p>
+            </div>
+          )}
+
+          {onRequireReliableDataChange && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">Refuse generation when the signal is unreliable</span>
+              <Switch
+                checked={requireReliableData}
+                onCheckedChange={onRequireReliableDataChange}
+                data-testid="switch-require-reliable-data"
+              />
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3">
             <Button
@@ -1,11 +1,26 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { BrainwaveData } from '@shared/schema';
+import { BrainwaveData, EegPowerBands, BlinkData, RawEegBatch, SpectralBandPower, SampleQuality, DeviceInfo, StreamStall, Session, BlinkGesture, FittingStatus } from '@shared/schema';
+
+// Seconds of raw EEG kept for the scrolling waveform
+export const RAW_EEG_WINDOW_SECONDS = 5;
+
+// Matches the server's capture window for generation
+export const CONFIDENCE_WINDOW_SECONDS = 30;
+
+export interface RawEegTrace {
+  samples: number[];
+  sampleRate: number;
+  // Arrival time of the newest sample
+  timestamp: number;
+  simulated: boolean;
+}
 
 export interface WebSocketMessage {
   type: string;
   data?: any;
   error?: string;
   message?: string;
+  quality?: SampleQuality;
 }
 
 export interface UseWebSocketReturn {
@@ -13,22 +28,56 @@ export interface UseWebSocketReturn {
   sendMessage: (message: any) => void;
   lastMessage: WebSocketMessage | null;
   eegData: BrainwaveData | null;
+  eegPower: EegPowerBands | null;
+  spectralPower: SpectralBandPower | null;
+  lastBlink: BlinkData | null;
+  // Latest double/triple blink the server recognized on this headset
+  lastGesture: BlinkGesture | null;
+  rawEeg: RawEegTrace | null;
+  // Share of reliable samples over the last CONFIDENCE_WINDOW_SECONDS (0-1)
+  dataConfidence: number | null;
+  lastQuality: SampleQuality | null;
+  // Latest calibration_* message; data.sessionId says which session it belongs to
+  calibrationEvent: WebSocketMessage | null;
+  // Headset this client follows; null until the server confirms the subscription
+  device: DeviceInfo | null;
+  // Latest lifecycle change of the session bound to that headset
+  sessionStatus: Session | null;
+  // Set while the headset is connected but has stopped sending; the last values are stale
+  stall: StreamStall | null;
+  // Running fitting wizard, or the last finished attempt (with outcome set)
+  fitting: FittingStatus | null;
   neuroskyConnected: boolean;
   connectNeuroSky: () => void;
   disconnectNeuroSky: () => void;
 }
 
-export function useWebSocket(): UseWebSocketReturn {
+// stationId picks the station's headset; without it the server's default device is used
+export function useWebSocket(stationId?: string | null): UseWebSocketReturn {
   const ws = useRef<WebSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [lastMessage, setLastMessage] = useState<WebSocketMessage | null>(null);
   const [eegData, setEegData] = useState<BrainwaveData | null>(null);
+  const [eegPower, setEegPower] = useState<EegPowerBands | null>(null);
+  const [spectralPower, setSpectralPower] = useState<SpectralBandPower | null>(null);
+  const [lastBlink, setLastBlink] = useState<BlinkData | null>(null);
+  const [lastGesture, setLastGesture] = useState<BlinkGesture | null>(null);
+  const [rawEeg, setRawEeg] = useState<RawEegTrace | null>(null);
+  const [dataConfidence, setDataConfidence] = useState<number | null>(null);
+  const [lastQuality, setLastQuality] = useState<SampleQuality | null>(null);
+  const [calibrationEvent, setCalibrationEvent] = useState<WebSocketMessage | null>(null);
+  const [device, setDevice] = useState<DeviceInfo | null>(null);
+  const [stall, setStall] = useState<StreamStall | null>(null);
+  const [sessionStatus, setSessionStatus] = useState<Session | null>(null);
+  const [fitting, setFitting] = useState<FittingStatus | null>(null);
+  const recentQuality = useRef<{ timestamp: number; reliable: boolean }[]>([]);
   const [neuroskyConnected, setNeuroskyConnected] = useState(false);
 
   const connect = useCallback(() => {
     try {
       const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws`;
+      const query = stationId ? `?station=${encodeURIComponent(stationId)}` : '';
+      const wsUrl = `${protocol}//${window.location.host}/ws${query}`;
       
       ws.current = new WebSocket(wsUrl);
 
@@ -47,12 +96,91 @@ export function useWebSocket(): UseWebSocketReturn {
               if (message.data) {
                 setEegData(message.data);
               }
+              if (message.quality) {
+                const now = Date.now();
+                const cutoff = now - CONFIDENCE_WINDOW_SECONDS * 1000;
+                recentQuality.current = recentQuality.current
+                  .filter(entry => entry.timestamp >= cutoff)
+                  .concat({ timestamp: now, reliable: message.quality.reliable });
+                const reliable = recentQuality.current.filter(entry => entry.reliable).length;
+                setDataConfidence(reliable / recentQuality.current.length);
+                setLastQuality(message.quality);
+              }
+              break;
+            case 'eeg_power':
+              if (message.data) {
+                setEegPower(message.data);
+              }
+              break;
+            case 'spectral_power':
+              if (message.data) {
+                setSpectralPower(message.data);
+              }
+              break;
+            case 'blink':
+              if (message.data) {
+                setLastBlink(message.data);
+              }
+              break;
+            case 'gesture':
+              if (message.data) {
+                setLastGesture(message.data);
+              }
+              break;
+            case 'raw_eeg':
+              if (message.data) {
+                const batch: RawEegBatch = message.data;
+                setRawEeg(prev => {
+                  const previous = prev && prev.sampleRate === batch.sampleRate ? prev.samples : [];
+                  const maxSamples = Math.round(batch.sampleRate * RAW_EEG_WINDOW_SECONDS);
+                  return {
+                    samples: previous.concat(batch.samples).slice(-maxSamples),
+                    sampleRate: batch.sampleRate,
+                    timestamp: batch.timestamp,
+                    simulated: batch.simulated === true
+                  };
+                });
+              }
+              break;
+            case 'calibration_started':
+            case 'calibration_complete':
+            case 'calibration_failed':
+            case 'calibration_cancelled':
+              setCalibrationEvent(message);
+              break;
+            case 'neurosky_stalled':
+              setStall(message.data ?? null);
+              break;
+            case 'neurosky_recovered':
+              setStall(null);
               break;
             case 'neurosky_connected':
               setNeuroskyConnected(true);
+              setStall(null);
               break;
             case 'neurosky_disconnected':
               setNeuroskyConnected(false);
+              setStall(prev => prev?.recovering ? prev : null);
+              setRawEeg(null);
+              setSpectralPower(null);
+              recentQuality.current = [];
+              setDataConfidence(null);
+              setLastQuality(null);
+              break;
+            case 'subscribed':
+            case 'session_bound':
+              if (message.data) {
+                setDevice(message.data);
+              }
+              break;
+            case 'fitting_progress':
+            case 'fitting_finished':
+              setFitting(message.data ?? null);
+              break;
+            case 'session_status':
+              if (message.data) {
+                setSessionStatus(message.data);
+              }
               break;
             case 'connection_status':
               setNeuroskyConnected(message.data?.connected || false);
@@ -69,10 +197,16 @@ export function useWebSocket(): UseWebSocketReturn {
         }
       };
 
-      ws.current.onclose = () => {
+      ws.current.onclose = (event) => {
         console.log('WebSocket disconnected');
         setIsConnected(false);
         setNeuroskyConnected(false);
+
+        // The server refused the station; retrying won't change that
+        if (event.code === 1008) {
+          console.error('WebSocket rejected:', event.reason);
+          return;
+        }
         
         // Attempt to reconnect after 3 seconds
         setTimeout(() => {
@@ -89,7 +223,7 @@ export function useWebSocket(): UseWebSocketReturn {
     } catch (error) {
       console.error('Failed to connect WebSocket:', error);
     }
-  }, []);
+  }, [stationId]);
 
   const sendMessage = useCallback((message: any) => {
     if (ws.current && ws.current.readyState === WebSocket.OPEN) {
@@ -122,6 +256,18 @@ export function useWebSocket(): UseWebSocketReturn {
     sendMessage,
     lastMessage,
     eegData,
+    eegPower,
+    spectralPower,
+    lastBlink,
+    lastGesture,
+    rawEeg,
+    dataConfidence,
+    lastQuality,
+    calibrationEvent,
+    device,
+    sessionStatus,
+    stall,
+    fitting,
     neuroskyConnected,
     connectNeuroSky,
     disconnectNeuroSky
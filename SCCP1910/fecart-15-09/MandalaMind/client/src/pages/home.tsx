@@ -1,16 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { DeviceStatus } from '@/components/device-status';
+import { CalibrationCard } from '@/components/calibration-card';
 import { BrainWaveVisualization } from '@/components/brain-wave-visualization';
-import { VoiceInput } from '@/components/voice-input';
+import { VoiceInput, type RecordingWindow } from '@/components/voice-input';
 import { MandalaDisplay } from '@/components/mandala-display';
+import { GestureFeedback } from '@/components/gesture-feedback';
 import { useWebSocket } from '@/hooks/use-websocket';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { RotateCcw } from 'lucide-react';
-import type { Mandala, Session, BrainwaveData } from '@shared/schema';
+import type { Mandala, Session, SessionSummary, MarkerType, GenerateMandalaRequest } from '@shared/schema';
 
 interface GenerateMandalaResponse {
   mandala: Mandala;
@@ -19,40 +21,85 @@ interface GenerateMandalaResponse {
   revisedPrompt?: string;
 }
 
+// Each station's kiosk opens the app with ?station=<id> to follow its own headset
+const stationId = new URLSearchParams(window.location.search).get('station');
+
 export default function Home() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const websocket = useWebSocket();
+  const websocket = useWebSocket(stationId);
   const [currentSession, setCurrentSession] = useState<Session | null>(null);
   const [currentTranscript, setCurrentTranscript] = useState('');
   const [generatedMandala, setGeneratedMandala] = useState<any>(null);
   const [generationStatus, setGenerationStatus] = useState<'idle' | 'generating' | 'completed' | 'error'>('idle');
   const [generationError, setGenerationError] = useState<string>('');
   const [resetTrigger, setResetTrigger] = useState(0);
+  const [recordingToggleTrigger, setRecordingToggleTrigger] = useState(0);
+  const [generateTrigger, setGenerateTrigger] = useState(0);
+  const [requireReliableData, setRequireReliableData] = useState(false);
+
+  // Each visitor gets a new session that captures EEG from the start
+  const openSession = useCallback(async (): Promise<Session> => {
+    const response = await apiRequest('POST', '/api/sessions', {
+      attentionLevel: 0,
+      meditationLevel: 0,
+      signalQuality: 0
+    });
+    const session: Session = await response.json();
+    const started = await apiRequest('POST', `/api/sessions/${session.id}/start`);
+    return (await started.json()).session;
+  }, []);
 
   // Create session on component mount
   useEffect(() => {
-    const createSession = async () => {
-      try {
-        const response = await apiRequest('POST', '/api/sessions', {
-          attentionLevel: 0,
-          meditationLevel: 0,
-          signalQuality: 0
-        });
-        const session = await response.json();
-        setCurrentSession(session);
-      } catch (error) {
+    openSession()
+      .then(setCurrentSession)
+      .catch((error) => {
         console.error('Failed to create session:', error);
         toast({
           title: "Session Error",
           description: "Failed to create session. Please refresh the page.",
           variant: "destructive",
         });
-      }
-    };
+      });
+  }, [openSession, toast]);
 
-    createSession();
-  }, [toast]);
+  // Close the session when the page goes away; anything missed here expires on the server
+  const sessionId = currentSession?.id;
+  useEffect(() => {
+    if (!sessionId) return;
+    const closeSession = () => navigator.sendBeacon(`/api/sessions/${sessionId}/close`);
+    window.addEventListener('pagehide', closeSession);
+    return () => window.removeEventListener('pagehide', closeSession);
+  }, [sessionId]);
+
+  // Marks the session timeline so the EEG trace can be lined up with what the visitor was doing
+  const recordMarker = useCallback((type: MarkerType, data?: Record<string, unknown>) => {
+    if (!sessionId) return;
+    apiRequest('POST', `/api/sessions/${sessionId}/markers`, { type, data })
+      .catch((error) => console.error('Failed to record marker:', error));
+  }, [sessionId]);
+
+  // Bind the station's headset to the current session so its samples are stored for this visitor
+  // (once per pair, so two tabs on the same station don't keep taking the headset from each other)
+  const deviceId = websocket.device?.id;
+  const boundPair = useRef<string | null>(null);
+  useEffect(() => {
+    if (!deviceId || !currentSession) return;
+    const pair = `${deviceId}:${currentSession.id}`;
+    if (boundPair.current === pair) return;
+    boundPair.current = pair;
+
+    apiRequest('POST', `/api/devices/${deviceId}/session`, { sessionId: currentSession.id })
+      .catch((error) => {
+        console.error('Failed to bind session to device:', error);
+        toast({
+          title: "Headset Error",
+          description: "This station's headset could not be linked to your session.",
+          variant: "destructive",
+        });
+      });
+  }, [deviceId, currentSession, toast]);
 
   // Fetch recent mandalas
   const { data: recentMandalas } = useQuery<Mandala[]>({
@@ -62,11 +109,7 @@ export default function Home() {
 
   // Generate mandala mutation
   const generateMandalaMutation = useMutation({
-    mutationFn: async (data: {
-      voiceTranscript: string;
-      brainwaveData: BrainwaveData;
-      sessionId: string;
-    }) => {
+    mutationFn: async (data: GenerateMandalaRequest) => {
       const response = await apiRequest('POST', '/api/mandalas/generate', data);
       return response.json() as Promise<GenerateMandalaResponse>;
     },
@@ -80,6 +123,7 @@ export default function Home() {
         imageUrl: data.mandala.imageUrl,
         prompt: data.generatedPrompt,
         revisedPrompt: data.revisedPrompt,
+        dataConfidence: data.mandala.dataConfidence,
         generationTime: 3.2 // This would come from the API in a real implementation
       });
       setGenerationStatus('completed');
@@ -96,15 +140,18 @@ export default function Home() {
       setGenerationStatus('error');
       setGenerationError(error instanceof Error ? error.message : 'Failed to generate mandala');
       
+      const isUnreliable = error instanceof Error && error.message.startsWith('422:');
       toast({
-        title: "Generation Failed",
-        description: "Sorry, we couldn't generate your mandala. Please try again.",
+        title: isUnreliable ? "Signal Too Unreliable" : "Generation Failed",
+        description: isUnreliable
+          ? "Most of your recent brain wave data was noisy. Adjust the headset and try again."
+          : "Sorry, we couldn't generate your mandala. Please try again.",
         variant: "destructive",
       });
     }
   });
 
-  const handleGenerateMandala = (transcript: string) => {
+  const handleGenerateMandala = (transcript: string, recordingWindow?: RecordingWindow) => {
     if (!currentSession) {
       toast({
         title: "Session Required",
@@ -123,10 +170,17 @@ export default function Home() {
       return;
     }
 
+    // The server summarizes the EEG it stored while the visitor was speaking
+    const now = Date.now();
     generateMandalaMutation.mutate({
       voiceTranscript: transcript,
+      captureWindow: recordingWindow && {
+        startedMsAgo: now - recordingWindow.startedAt,
+        endedMsAgo: now - recordingWindow.endedAt
+      },
       brainwaveData: websocket.eegData,
-      sessionId: currentSession.id
+      sessionId: currentSession.id,
+      requireReliableData
     });
   };
 
@@ -146,7 +200,8 @@ export default function Home() {
     });
   };
 
-  const handleReset = async () => {
+  // 'expired' when the server closed the session after it sat idle
+  const handleReset = async (reason: 'manual' | 'expired' = 'manual') => {
     try {
       // Clear all local state
       setCurrentTranscript('');
@@ -160,16 +215,16 @@ export default function Home() {
       // Clear all query cache
       queryClient.clear();
 
-      // Create a new session
-      const response = await apiRequest('POST', '/api/sessions', {
-        attentionLevel: 0,
-        meditationLevel: 0,
-        signalQuality: 0
-      });
-      const newSession = await response.json();
-      setCurrentSession(newSession);
+      // Close the old session so it stops collecting data, then start a new one
+      if (currentSession && reason === 'manual') {
+        await apiRequest('POST', `/api/sessions/${currentSession.id}/close`);
+      }
+      setCurrentSession(await openSession());
 
-      toast({
+      toast(reason === 'expired' ? {
+        title: "Session Expired",
+        description: "The previous session was idle for too long. A new session has been started.",
+      } : {
         title: "Reset Complete",
         description: "All data cleared and new session created. Ready for a fresh start!",
       });
@@ -183,8 +238,37 @@ export default function Home() {
     }
   };
 
+  // The server closes sessions left idle; a kiosk left open starts over with a fresh one
+  const sessionStatus = websocket.sessionStatus;
+  useEffect(() => {
+    if (!sessionStatus || sessionStatus.id !== currentSession?.id) return;
+    const summary = sessionStatus.summary as SessionSummary | null;
+    if (sessionStatus.status === 'closed' && summary?.reason === 'expired') {
+      handleReset('expired');
+    }
+  }, [sessionStatus]);
+
+  // Blink gestures let a visitor wearing the headset drive the kiosk without the mouse
+  const lastGesture = websocket.lastGesture;
+  useEffect(() => {
+    if (!lastGesture) return;
+    switch (lastGesture.action) {
+      case 'toggle_recording':
+        setRecordingToggleTrigger(prev => prev + 1);
+        break;
+      case 'generate_mandala':
+        setGenerateTrigger(prev => prev + 1);
+        break;
+      case 'reset_session':
+        handleReset();
+        break;
+    }
+  }, [lastGesture]);
+
   return (
     <div className="min-h-screen bg-background">
+      <GestureFeedback gesture={lastGesture} />
+
       {/* Particle Background */}
       <div className="particles fixed inset-0 z-0">
         {Array.from({ length: 9 }, (_, i) => (
@@ -262,13 +346,30 @@ export default function Home() {
                 onDisconnectNeuroSky={handleDisconnectNeuroSky}
               />
 
-              <BrainWaveVisualization data={websocket.eegData} />
+              <CalibrationCard
+                sessionId={currentSession?.id ?? null}
+                websocket={websocket}
+              />
+
+              <BrainWaveVisualization
+                data={websocket.eegData}
+                eegPower={websocket.eegPower}
+                spectralPower={websocket.spectralPower}
+                lastBlink={websocket.lastBlink}
+                rawEeg={websocket.rawEeg}
+              />
 
               <VoiceInput
                 onTranscriptChange={setCurrentTranscript}
                 onGenerateMandala={handleGenerateMandala}
                 isGenerating={generateMandalaMutation.isPending}
                 resetTrigger={resetTrigger}
+                recordingToggleTrigger={recordingToggleTrigger}
+                generateTrigger={generateTrigger}
+                dataConfidence={websocket.dataConfidence}
+                requireReliableData={requireReliableData}
+                onRequireReliableDataChange={setRequireReliableData}
+                onMarker={recordMarker}
               />
 
               {/* Reset Button */}
@@ -281,7 +382,7 @@ export default function Home() {
                         <p className="text-xs text-muted-foreground">Clear all data and begin a new session</p>
                       </div>
                       <Button
-                        onClick={handleReset}
+                        onClick={() => handleReset()}
                         variant="outline"
                         size="sm"
                         className="ml-4 hover:bg-destructive/10 hover:border-destructive hover:text-destructive"
@@ -301,6 +402,7 @@ export default function Home() {
             <div className="space-y-4 lg:space-y-6">
               <MandalaDisplay
                 mandala={generatedMandala}
+                onRevealed={(mandalaId) => recordMarker('mandala_revealed', mandalaId ? { mandalaId } : undefined)}
                 isGenerating={generateMandalaMutation.isPending}
                 generationStatus={generationStatus}
                 error={generationError}
@@ -0,0 +1,8 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for the embedded SQLite backend (STORAGE_BACKEND=sqlite); they are applied when the file is opened
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "sqlite",
+});
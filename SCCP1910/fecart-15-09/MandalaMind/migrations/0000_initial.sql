@@ -0,0 +1,98 @@
+CREATE TABLE "blink_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"strength" integer NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "eeg_data" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"attention" integer NOT NULL,
+	"meditation" integer NOT NULL,
+	"signal_quality" integer NOT NULL,
+	"raw_data" jsonb,
+	"is_reliable" boolean DEFAULT true,
+	"artifacts" jsonb,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "eeg_power" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"delta" integer NOT NULL,
+	"theta" integer NOT NULL,
+	"low_alpha" integer NOT NULL,
+	"high_alpha" integer NOT NULL,
+	"low_beta" integer NOT NULL,
+	"high_beta" integer NOT NULL,
+	"low_gamma" integer NOT NULL,
+	"high_gamma" integer NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "fitting_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" varchar NOT NULL,
+	"session_id" varchar,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"outcome" text NOT NULL,
+	"required_stable_seconds" integer NOT NULL,
+	"issue_seconds" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "mandalas" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"image_url" text NOT NULL,
+	"prompt" text NOT NULL,
+	"brainwave_data" jsonb NOT NULL,
+	"voice_transcript" text,
+	"data_confidence" real,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "session_markers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"type" text NOT NULL,
+	"label" text,
+	"source" text NOT NULL,
+	"data" jsonb,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"attention_level" integer DEFAULT 0,
+	"meditation_level" integer DEFAULT 0,
+	"signal_quality" integer DEFAULT 0,
+	"voice_transcript" text,
+	"ai_prompt" text,
+	"mandala_url" text,
+	"is_active" boolean DEFAULT true,
+	"baseline" jsonb,
+	"status" text DEFAULT 'idle' NOT NULL,
+	"last_activity_at" timestamp DEFAULT now() NOT NULL,
+	"closed_at" timestamp,
+	"summary" jsonb
+);
+--> statement-breakpoint
+ALTER TABLE "blink_events" ADD CONSTRAINT "blink_events_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "eeg_data" ADD CONSTRAINT "eeg_data_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "eeg_power" ADD CONSTRAINT "eeg_power_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fitting_attempts" ADD CONSTRAINT "fitting_attempts_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "mandalas" ADD CONSTRAINT "mandalas_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "session_markers" ADD CONSTRAINT "session_markers_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "blink_events_session_id_timestamp_idx" ON "blink_events" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "eeg_data_session_id_timestamp_idx" ON "eeg_data" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "eeg_power_session_id_timestamp_idx" ON "eeg_power" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "fitting_attempts_device_id_started_at_idx" ON "fitting_attempts" USING btree ("device_id","started_at");--> statement-breakpoint
+CREATE INDEX "mandalas_session_id_idx" ON "mandalas" USING btree ("session_id");--> statement-breakpoint
+CREATE INDEX "mandalas_created_at_idx" ON "mandalas" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "session_markers_session_id_timestamp_idx" ON "session_markers" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "sessions_created_at_idx" ON "sessions" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "sessions_is_active_idx" ON "sessions" USING btree ("is_active");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "eeg_rollups" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"resolution" text NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"sample_count" integer NOT NULL,
+	"reliable_count" integer NOT NULL,
+	"attention_mean" real NOT NULL,
+	"attention_min" integer NOT NULL,
+	"attention_max" integer NOT NULL,
+	"meditation_mean" real NOT NULL,
+	"meditation_min" integer NOT NULL,
+	"meditation_max" integer NOT NULL,
+	"signal_quality_mean" real NOT NULL,
+	"signal_quality_min" integer NOT NULL,
+	"signal_quality_max" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "eeg_rollups" ADD CONSTRAINT "eeg_rollups_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "eeg_rollups_session_id_resolution_bucket_start_idx" ON "eeg_rollups" USING btree ("session_id","resolution","bucket_start");--> statement-breakpoint
+CREATE INDEX "eeg_rollups_resolution_bucket_start_idx" ON "eeg_rollups" USING btree ("resolution","bucket_start");
\ No newline at end of file
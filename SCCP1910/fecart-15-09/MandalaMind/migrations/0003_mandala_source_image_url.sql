@@ -0,0 +1 @@
+ALTER TABLE "mandalas" ADD COLUMN "source_image_url" text;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "raw_eeg_segments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"sample_rate" integer NOT NULL,
+	"samples" jsonb NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "raw_eeg_segments" ADD CONSTRAINT "raw_eeg_segments_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "raw_eeg_segments_session_id_timestamp_idx" ON "raw_eeg_segments" USING btree ("session_id","timestamp");
\ No newline at end of file
@@ -0,0 +1,98 @@
+CREATE TABLE `blink_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`strength` integer NOT NULL,
+	`timestamp` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `blink_events_session_id_timestamp_idx` ON `blink_events` (`session_id`,`timestamp`);--> statement-breakpoint
+CREATE TABLE `eeg_data` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`attention` integer NOT NULL,
+	`meditation` integer NOT NULL,
+	`signal_quality` integer NOT NULL,
+	`raw_data` text,
+	`is_reliable` integer DEFAULT true,
+	`artifacts` text,
+	`timestamp` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `eeg_data_session_id_timestamp_idx` ON `eeg_data` (`session_id`,`timestamp`);--> statement-breakpoint
+CREATE TABLE `eeg_power` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`delta` integer NOT NULL,
+	`theta` integer NOT NULL,
+	`low_alpha` integer NOT NULL,
+	`high_alpha` integer NOT NULL,
+	`low_beta` integer NOT NULL,
+	`high_beta` integer NOT NULL,
+	`low_gamma` integer NOT NULL,
+	`high_gamma` integer NOT NULL,
+	`timestamp` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `eeg_power_session_id_timestamp_idx` ON `eeg_power` (`session_id`,`timestamp`);--> statement-breakpoint
+CREATE TABLE `fitting_attempts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`device_id` text NOT NULL,
+	`session_id` text,
+	`started_at` integer NOT NULL,
+	`ended_at` integer NOT NULL,
+	`duration_ms` integer NOT NULL,
+	`outcome` text NOT NULL,
+	`required_stable_seconds` integer NOT NULL,
+	`issue_seconds` text NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `fitting_attempts_device_id_started_at_idx` ON `fitting_attempts` (`device_id`,`started_at`);--> statement-breakpoint
+CREATE TABLE `mandalas` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`image_url` text NOT NULL,
+	`prompt` text NOT NULL,
+	`brainwave_data` text NOT NULL,
+	`voice_transcript` text,
+	`data_confidence` real,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `mandalas_session_id_idx` ON `mandalas` (`session_id`);--> statement-breakpoint
+CREATE INDEX `mandalas_created_at_idx` ON `mandalas` (`created_at`);--> statement-breakpoint
+CREATE TABLE `session_markers` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`type` text NOT NULL,
+	`label` text,
+	`source` text NOT NULL,
+	`data` text,
+	`timestamp` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `session_markers_session_id_timestamp_idx` ON `session_markers` (`session_id`,`timestamp`);--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`created_at` integer NOT NULL,
+	`attention_level` integer DEFAULT 0,
+	`meditation_level` integer DEFAULT 0,
+	`signal_quality` integer DEFAULT 0,
+	`voice_transcript` text,
+	`ai_prompt` text,
+	`mandala_url` text,
+	`is_active` integer DEFAULT true,
+	`baseline` text,
+	`status` text DEFAULT 'idle' NOT NULL,
+	`last_activity_at` integer NOT NULL,
+	`closed_at` integer,
+	`summary` text
+);
+--> statement-breakpoint
+CREATE INDEX `sessions_created_at_idx` ON `sessions` (`created_at`);--> statement-breakpoint
+CREATE INDEX `sessions_is_active_idx` ON `sessions` (`is_active`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `eeg_rollups` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`resolution` text NOT NULL,
+	`bucket_start` integer NOT NULL,
+	`sample_count` integer NOT NULL,
+	`reliable_count` integer NOT NULL,
+	`attention_mean` real NOT NULL,
+	`attention_min` integer NOT NULL,
+	`attention_max` integer NOT NULL,
+	`meditation_mean` real NOT NULL,
+	`meditation_min` integer NOT NULL,
+	`meditation_max` integer NOT NULL,
+	`signal_quality_mean` real NOT NULL,
+	`signal_quality_min` integer NOT NULL,
+	`signal_quality_max` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `eeg_rollups_session_id_resolution_bucket_start_idx` ON `eeg_rollups` (`session_id`,`resolution`,`bucket_start`);--> statement-breakpoint
+CREATE INDEX `eeg_rollups_resolution_bucket_start_idx` ON `eeg_rollups` (`resolution`,`bucket_start`);
\ No newline at end of file
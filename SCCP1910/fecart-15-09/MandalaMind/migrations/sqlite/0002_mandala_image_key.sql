@@ -0,0 +1 @@
+ALTER TABLE `mandalas` ADD `image_key` text;
\ No newline at end of file
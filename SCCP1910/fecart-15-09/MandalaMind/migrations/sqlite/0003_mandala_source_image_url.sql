@@ -0,0 +1 @@
+ALTER TABLE `mandalas` ADD `source_image_url` text;
\ No newline at end of file
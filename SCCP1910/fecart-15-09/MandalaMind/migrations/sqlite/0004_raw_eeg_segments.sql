@@ -0,0 +1,10 @@
+CREATE TABLE `raw_eeg_segments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`session_id` text,
+	`sample_rate` integer NOT NULL,
+	`samples` text NOT NULL,
+	`timestamp` integer NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `raw_eeg_segments_session_id_timestamp_idx` ON `raw_eeg_segments` (`session_id`,`timestamp`);
\ No newline at end of file
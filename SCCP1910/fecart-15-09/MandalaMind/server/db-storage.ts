@@ -0,0 +1,172 @@
+import { and, asc, desc, eq, gte, lt } from "drizzle-orm";
+import {
+  sessions, mandalas, eegData, rawEegSegments, eegRollups, eegPowerData, blinkEvents, sessionMarkers, fittingAttempts,
+  type Session, type InsertSession, type Mandala, type InsertMandala, type EegData, type InsertEegData, type RawEegSegment, type InsertRawEegSegment, type EegRollup, type InsertEegRollup, type EegRollupResolution, type EegPower, type InsertEegPower, type BlinkEvent, type InsertBlinkEvent, type SessionMarker, type InsertSessionMarker, type FittingAttempt, type InsertFittingAttempt
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+// Stores everything in PostgreSQL through the Drizzle schema, so sessions survive a restart.
+// Columns the caller leaves out fall back to the defaults declared in the schema.
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await this.db.insert(sessions).values({ ...insertSession, isActive: insertSession.isActive ?? true }).returning();
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined> {
+    // Drizzle rejects an UPDATE with nothing to set
+    if (Object.keys(updates).length === 0) return this.getSession(id);
+
+    const [session] = await this.db.update(sessions).set(updates).where(eq(sessions.id, id)).returning();
+    return session;
+  }
+
+  async getActiveSessions(): Promise<Session[]> {
+    return this.db.select().from(sessions).where(eq(sessions.isActive, true)).orderBy(asc(sessions.createdAt));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await this.db.transaction(async tx => {
+      for (const table of [mandalas, eegData, rawEegSegments, eegRollups, eegPowerData, blinkEvents, sessionMarkers]) {
+        await tx.delete(table).where(eq(table.sessionId, id));
+      }
+      await tx.update(fittingAttempts).set({ sessionId: null }).where(eq(fittingAttempts.sessionId, id));
+      await tx.delete(sessions).where(eq(sessions.id, id));
+    });
+  }
+
+  async createMandala(insertMandala: InsertMandala): Promise<Mandala> {
+    const [mandala] = await this.db.insert(mandalas).values(insertMandala).returning();
+    return mandala;
+  }
+
+  async getMandala(id: string): Promise<Mandala | undefined> {
+    const [mandala] = await this.db.select().from(mandalas).where(eq(mandalas.id, id));
+    return mandala;
+  }
+
+  async updateMandala(id: string, updates: Partial<InsertMandala>): Promise<Mandala | undefined> {
+    if (Object.keys(updates).length === 0) return this.getMandala(id);
+
+    const [mandala] = await this.db.update(mandalas).set(updates).where(eq(mandalas.id, id)).returning();
+    return mandala;
+  }
+
+  async getMandalasForSession(sessionId: string): Promise<Mandala[]> {
+    return this.db.select().from(mandalas).where(eq(mandalas.sessionId, sessionId)).orderBy(asc(mandalas.createdAt));
+  }
+
+  async getRecentMandalas(limit: number): Promise<Mandala[]> {
+    return this.db.select().from(mandalas).orderBy(desc(mandalas.createdAt)).limit(limit);
+  }
+
+  async addEegData(insertData: InsertEegData): Promise<EegData> {
+    const [data] = await this.db.insert(eegData).values(insertData).returning();
+    return data;
+  }
+
+  async addEegDataBatch(insertData: InsertEegData[]): Promise<void> {
+    if (insertData.length === 0) return;
+    await this.db.insert(eegData).values(insertData);
+  }
+
+  async getEegDataForSession(sessionId: string, since?: Date): Promise<EegData[]> {
+    return this.db.select().from(eegData)
+      .where(and(eq(eegData.sessionId, sessionId), since ? gte(eegData.timestamp, since) : undefined))
+      .orderBy(asc(eegData.timestamp));
+  }
+
+  async getLatestEegData(sessionId: string): Promise<EegData | undefined> {
+    const [data] = await this.db.select().from(eegData)
+      .where(eq(eegData.sessionId, sessionId))
+      .orderBy(desc(eegData.timestamp))
+      .limit(1);
+    return data;
+  }
+
+  async deleteEegDataBefore(cutoff: Date): Promise<number> {
+    const { rowCount } = await this.db.delete(eegData).where(lt(eegData.timestamp, cutoff));
+    return rowCount ?? 0;
+  }
+
+  async addRawEegSegments(insertSegments: InsertRawEegSegment[]): Promise<void> {
+    if (insertSegments.length === 0) return;
+    await this.db.insert(rawEegSegments).values(insertSegments);
+  }
+
+  async getRawEegSegmentsForSession(sessionId: string): Promise<RawEegSegment[]> {
+    return this.db.select().from(rawEegSegments)
+      .where(eq(rawEegSegments.sessionId, sessionId))
+      .orderBy(asc(rawEegSegments.timestamp));
+  }
+
+  async deleteRawEegSegmentsBefore(cutoff: Date): Promise<number> {
+    const { rowCount } = await this.db.delete(rawEegSegments).where(lt(rawEegSegments.timestamp, cutoff));
+    return rowCount ?? 0;
+  }
+
+  async addEegRollups(insertRollups: InsertEegRollup[]): Promise<void> {
+    if (insertRollups.length === 0) return;
+    await this.db.insert(eegRollups).values(insertRollups);
+  }
+
+  async getEegRollupsForSession(sessionId: string, resolution: EegRollupResolution): Promise<EegRollup[]> {
+    return this.db.select().from(eegRollups)
+      .where(and(eq(eegRollups.sessionId, sessionId), eq(eegRollups.resolution, resolution)))
+      .orderBy(asc(eegRollups.bucketStart));
+  }
+
+  async deleteEegRollupsBefore(resolution: EegRollupResolution, cutoff: Date): Promise<number> {
+    const { rowCount } = await this.db.delete(eegRollups)
+      .where(and(eq(eegRollups.resolution, resolution), lt(eegRollups.bucketStart, cutoff)));
+    return rowCount ?? 0;
+  }
+
+  async addEegPower(insertData: InsertEegPower): Promise<EegPower> {
+    const [data] = await this.db.insert(eegPowerData).values(insertData).returning();
+    return data;
+  }
+
+  async getEegPowerForSession(sessionId: string): Promise<EegPower[]> {
+    return this.db.select().from(eegPowerData).where(eq(eegPowerData.sessionId, sessionId)).orderBy(asc(eegPowerData.timestamp));
+  }
+
+  async addBlinkEvent(insertEvent: InsertBlinkEvent): Promise<BlinkEvent> {
+    const [event] = await this.db.insert(blinkEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getBlinkEventsForSession(sessionId: string): Promise<BlinkEvent[]> {
+    return this.db.select().from(blinkEvents).where(eq(blinkEvents.sessionId, sessionId)).orderBy(asc(blinkEvents.timestamp));
+  }
+
+  async addSessionMarker(insertMarker: InsertSessionMarker): Promise<SessionMarker> {
+    const [marker] = await this.db.insert(sessionMarkers).values(insertMarker).returning();
+    return marker;
+  }
+
+  async getMarkersForSession(sessionId: string): Promise<SessionMarker[]> {
+    return this.db.select().from(sessionMarkers)
+      .where(eq(sessionMarkers.sessionId, sessionId))
+      .orderBy(asc(sessionMarkers.timestamp));
+  }
+
+  async addFittingAttempt(insertAttempt: InsertFittingAttempt): Promise<FittingAttempt> {
+    const [attempt] = await this.db.insert(fittingAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  async getFittingAttempts(deviceId?: string): Promise<FittingAttempt[]> {
+    return this.db.select().from(fittingAttempts)
+      .where(deviceId ? eq(fittingAttempts.deviceId, deviceId) : undefined)
+      .orderBy(asc(fittingAttempts.startedAt));
+  }
+}
@@ -0,0 +1,40 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// Both drivers resolve writes to a pg-style QueryResult, so deletes can report how many rows they removed
+export interface DatabaseQueryResultHKT extends PgQueryResultHKT {
+  type: { rowCount: number | null };
+}
+
+export type Database = PgDatabase<DatabaseQueryResultHKT, typeof schema>;
+
+export interface DatabaseConnection {
+  db: Database;
+  close: () => Promise<void>;
+}
+
+function isNeonUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+// Hosted Neon databases are reached through Neon's WebSocket driver; any other server
+// (a local Postgres during development, for instance) gets a plain node-postgres pool
+export function connectDatabase(url: string): DatabaseConnection {
+  if (isNeonUrl(url)) {
+    neonConfig.webSocketConstructor = ws;
+    const pool = new NeonPool({ connectionString: url });
+    return { db: drizzleNeon({ client: pool, schema }), close: () => pool.end() };
+  }
+
+  const pool = new pg.Pool({ connectionString: url });
+  return { db: drizzleNodePg({ client: pool, schema }), close: () => pool.end() };
+}
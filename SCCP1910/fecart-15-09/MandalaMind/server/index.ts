@@ -6,7 +6,7 @@ const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Serve static assets (for generated mandala images)
+// Serve static assets (including images of mandalas generated before the asset store)
 app.use('/attached_assets', express.static('attached_assets'));
 
 app.use((req, res, next) => {
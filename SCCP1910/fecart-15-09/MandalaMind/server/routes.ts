@@ -1,45 +1,129 @@
-import type { Express } from "express";
+import express, { Router, type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { NeuroSkyService } from "./services/neurosky";
+import { DeviceRegistry, deviceConfigsFromEnv, type Device } from "./services/device-registry";
+import { listRecordings } from "./services/eeg-recording";
+import { listDemoScenarios, summarizeDemoScenario } from "./services/demo-scenarios";
+import { computeDataConfidence } from "./services/artifact-detector";
+import { normalizeBrainwaveData, MIN_CALIBRATION_SECONDS, MAX_CALIBRATION_SECONDS } from "./services/calibration";
+import { summarizeEegWindow } from "./services/eeg-summary";
+import { DEFAULT_FITTING_STABLE_SECONDS, MIN_FITTING_STABLE_SECONDS, MAX_FITTING_STABLE_SECONDS, summarizeFittingAttempts } from "./services/fitting";
+import { SessionLifecycle, DEFAULT_SESSION_IDLE_TIMEOUT_MS, type CaptureAction } from "./services/session-lifecycle";
+import { EegWriteBuffer, DEFAULT_EEG_FLUSH_INTERVAL_MS } from "./services/eeg-write-buffer";
+import { EegRetention, eegRetentionDaysFromEnv } from "./services/eeg-retention";
 import { GeminiService } from "./services/gemini";
-import { insertSessionSchema, insertMandalaSchema, type GenerateMandalaRequest, type BrainwaveData } from "@shared/schema";
+import { createAssetStore } from "./services/asset-store";
+import { exportSessionBundle, importSessionBundle } from "./services/session-bundle";
+import { csvColumnsFor, defaultCsvColumnsFor, toEegCsv, toEegEdf } from "./services/eeg-export";
+import { sessionDetailsSchema, insertMandalaSchema, type GenerateMandalaRequest, type BrainwaveData, type EegPowerBands, type BlinkData, type RawEegBatch, type SpectralBandPower, type SessionEegResponse, type BrainwaveBaseline, type StreamStall, type Session, type MarkerType, type BlinkGesture, type FittingStatus, type FittingIssue, MARKER_TYPES, EEG_RESOLUTIONS, EEG_EXPORT_FORMATS } from "@shared/schema";
 import { z } from "zod";
 
+// Capture window used when the client doesn't report when voice recording started and stopped
+const DEFAULT_CAPTURE_WINDOW_MS = 30000;
+
+// Largest session bundle accepted by POST /api/sessions/import
+const MAX_SESSION_BUNDLE_SIZE = '200mb';
+
+// Replay requests arrive over REST and over the WebSocket; both go through these
+const replaySpeedSchema = z.number().positive().max(32);
+const replayEnableSchema = z.object({
+  recording: z.string().min(1, "Recording name is required"),
+  speed: replaySpeedSchema.optional()
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
   // Initialize services
-  const neuroskyService = new NeuroSkyService({ autoConnect: false });
+  const devices = new DeviceRegistry(deviceConfigsFromEnv());
+  const eegWriter = new EegWriteBuffer(storage, {
+    flushIntervalMs: process.env.EEG_FLUSH_INTERVAL_MS ? parseInt(process.env.EEG_FLUSH_INTERVAL_MS, 10) : DEFAULT_EEG_FLUSH_INTERVAL_MS,
+    onSamplesWritten: sessionIds => {
+      sessionLifecycle.recordSampleActivity(sessionIds).catch(error => console.error('Error recording sample activity:', error));
+    }
+  });
+  const eegRetention = new EegRetention(storage, eegRetentionDaysFromEnv());
+  const sessionLifecycle = new SessionLifecycle(storage, {
+    idleTimeoutMs: process.env.SESSION_IDLE_TIMEOUT_MS ? parseInt(process.env.SESSION_IDLE_TIMEOUT_MS, 10) : DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+    flushSamples: () => eegWriter.flush()
+  });
+  // Generation can be refused when less than this share of the capture window was reliable
+  const minDataConfidence = parseFloat(process.env.MIN_DATA_CONFIDENCE || '0.5');
   const geminiService = new GeminiService();
+  const assetStore = createAssetStore();
   
   // WebSocket server for real-time EEG data streaming
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  const clients = new Set<WebSocket>();
+  // Each client follows exactly one device and only ever hears about that device
+  const clients = new Map<WebSocket, Device>();
+
+  // Clients pick a device by id or by station; with neither they get the default device
+  function findDevice(deviceId?: string | null, stationId?: string | null): Device | undefined {
+    if (deviceId) return devices.get(deviceId);
+    if (stationId) return devices.getByStation(stationId);
+    return devices.getDefault();
+  }
+
+  function subscribe(ws: WebSocket, device: Device) {
+    clients.set(ws, device);
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({
+        type: 'subscribed',
+        data: devices.getInfo(device)
+      }));
+      ws.send(JSON.stringify({
+        type: 'connection_status',
+        data: {
+          connected: device.source.getConnectionStatus(),
+          currentData: device.source.getCurrentData()
+        }
+      }));
+    }
+  }
   
   // WebSocket connection handling
-  wss.on('connection', (ws) => {
+  wss.on('connection', (ws, req) => {
     console.log('Client connected to WebSocket');
-    clients.add(ws);
-    
-    // Send current connection status
-    if (ws.readyState === WebSocket.OPEN) {
+
+    const params = new URL(req.url ?? '/ws', 'http://localhost').searchParams;
+    const initialDevice = findDevice(params.get('device'), params.get('station'));
+    if (!initialDevice) {
+      // Falling back to another station's headset would show a visitor someone else's brain waves
       ws.send(JSON.stringify({
-        type: 'connection_status',
-        connected: neuroskyService.getConnectionStatus(),
-        currentData: neuroskyService.getCurrentData()
+        type: 'error',
+        message: 'Unknown device or station'
       }));
+      ws.close(1008, 'Unknown device or station');
+      return;
     }
+    subscribe(ws, initialDevice);
     
     ws.on('message', async (message) => {
       try {
         const data = JSON.parse(message.toString());
+        const device = clients.get(ws);
+        if (!device) return;
+        const eegSource = device.source;
         
         switch (data.type) {
+          case 'subscribe': {
+            const next = findDevice(data.deviceId, data.stationId);
+            if (next) {
+              subscribe(ws, next);
+            } else {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: 'Unknown device or station'
+              }));
+            }
+            break;
+          }
+
           case 'connect_neurosky':
             try {
-              await neuroskyService.connect();
+              await eegSource.connect();
             } catch (error) {
               ws.send(JSON.stringify({
                 type: 'error',
@@ -49,17 +133,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
             break;
             
           case 'disconnect_neurosky':
-            neuroskyService.disconnect();
+            eegSource.disconnect();
             break;
             
           case 'enable_demo':
             try {
               // Disconnect any real connection first
-              if (neuroskyService.getConnectionStatus()) {
-                neuroskyService.disconnect();
+              if (eegSource.getConnectionStatus()) {
+                eegSource.disconnect();
               }
               
-              neuroskyService.enableDemoMode();
+              await eegSource.enableDemoMode({
+                scenario: typeof data.scenario === 'string' ? data.scenario : undefined,
+                seed: Number.isInteger(data.seed) ? data.seed : undefined
+              });
               
               ws.send(JSON.stringify({
                 type: 'demo_enabled',
@@ -73,9 +160,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
             break;
             
+          case 'enable_replay':
+            try {
+              const { recording, speed } = replayEnableSchema.parse(data);
+              await eegSource.enableReplayMode(recording, speed ?? 1);
+              broadcastToDevice(device, {
+                type: 'replay_enabled',
+                replay: eegSource.getReplayStatus()
+              });
+            } catch (error) {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'Failed to start replay'
+              }));
+            }
+            break;
+
+          case 'disable_replay':
+            eegSource.disableReplayMode();
+            broadcastToDevice(device, { type: 'replay_disabled' });
+            break;
+
+          case 'pause_replay':
+          case 'resume_replay':
+          case 'set_replay_speed':
+            try {
+              if (data.type === 'pause_replay') {
+                eegSource.pauseReplay();
+              } else if (data.type === 'resume_replay') {
+                eegSource.resumeReplay();
+              } else {
+                eegSource.setReplaySpeed(replaySpeedSchema.parse(data.speed));
+              }
+              broadcastToDevice(device, { type: 'replay_state', replay: eegSource.getReplayStatus() });
+            } catch (error) {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'Failed to control replay'
+              }));
+            }
+            break;
+
+          case 'set_raw_output':
+            eegSource.setRawOutput(data.enabled === true);
+            broadcastToDevice(device, {
+              type: 'raw_output_changed',
+              enabled: eegSource.isRawOutputEnabled()
+            });
+            break;
+
+          case 'start_recording':
+            try {
+              const recording = eegSource.startRecording(data.name);
+              broadcastToDevice(device, { type: 'recording_started', recording });
+            } catch (error) {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'Failed to start recording'
+              }));
+            }
+            break;
+
+          case 'stop_recording':
+            try {
+              const recording = await eegSource.stopRecording();
+              broadcastToDevice(device, { type: 'recording_stopped', recording });
+            } catch (error) {
+              ws.send(JSON.stringify({
+                type: 'error',
+                message: error instanceof Error ? error.message : 'Failed to stop recording'
+              }));
+            }
+            break;
+            
           case 'disable_demo':
             try {
-              neuroskyService.disableDemoMode();
+              eegSource.disableDemoMode();
               ws.send(JSON.stringify({
                 type: 'demo_disabled',
                 message: 'Demo mode disabled - ready for real NeuroSky connection'
@@ -104,55 +264,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // Broadcast function for real-time data
-  function broadcast(data: any) {
+  // Send to every client following this device
+  function broadcastToDevice(device: Device, data: any) {
     const message = JSON.stringify(data);
-    clients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
+    clients.forEach((subscribed, client) => {
+      if (subscribed === device && client.readyState === WebSocket.OPEN) {
         client.send(message);
       }
     });
   }
-  
-  // NeuroSky event handlers
-  neuroskyService.on('connected', () => {
-    broadcast({ type: 'neurosky_connected' });
+
+  // Messages about a session only go to the station whose headset it is bound to
+  function broadcastToSession(sessionId: string, data: any) {
+    const device = devices.getBySession(sessionId);
+    if (device) {
+      broadcastToDevice(device, data);
+    }
+  }
+
+  // Stores a marker on the session's timeline and shows it to the station following that session
+  async function recordMarker(
+    sessionId: string,
+    type: MarkerType,
+    options: { label?: string; data?: Record<string, unknown>; timestamp?: Date; source?: 'client' | 'server' } = {}
+  ) {
+    const marker = await storage.addSessionMarker({
+      sessionId,
+      type,
+      label: options.label,
+      data: options.data,
+      source: options.source ?? 'server',
+      timestamp: options.timestamp ?? new Date()
+    });
+    broadcastToSession(sessionId, { type: 'marker', data: marker });
+    return marker;
+  }
+
+  devices.on('sessionBound', (device: Device) => {
+    broadcastToDevice(device, { type: 'session_bound', data: devices.getInfo(device) });
   });
-  
-  neuroskyService.on('disconnected', () => {
-    broadcast({ type: 'neurosky_disconnected' });
+
+  sessionLifecycle.on('status', (session: Session) => {
+    broadcastToSession(session.id, { type: 'session_status', data: session });
   });
+
+  // A closed session no longer owns a headset
+  sessionLifecycle.on('closed', (session: Session) => {
+    const device = devices.getBySession(session.id);
+    if (device) {
+      devices.unbindSession(device.id);
+    }
+  });
+  
+  // The session whose samples should be stored right now: bound to this device and capturing
+  function capturingSession(device: Device): string | null {
+    const sessionId = device.sessionId;
+    return sessionId && sessionLifecycle.isCapturing(sessionId) ? sessionId : null;
+  }
   
-  neuroskyService.on('data', async (data: BrainwaveData) => {
-    broadcast({ type: 'eeg_data', data });
+  // EEG source event handlers, per device. Samples are stored only for the session bound to
+  // the device that produced them, and only while that session is capturing.
+  function wireDevice(device: Device) {
+    const { source: eegSource, rawEegBuffer, artifactDetector, calibration, gestures, fitting } = device;
+
+    eegSource.on('connected', () => {
+      broadcastToDevice(device, { type: 'neurosky_connected' });
+    });
     
-    // Store EEG data for active sessions
-    try {
-      const activeSessions = await storage.getActiveSessions();
-      for (const session of activeSessions) {
-        await storage.addEegData({
-          sessionId: session.id,
-          attention: data.attention,
-          meditation: data.meditation,
-          signalQuality: data.signalQuality,
-          rawData: data
+    eegSource.on('disconnected', () => {
+      broadcastToDevice(device, { type: 'neurosky_disconnected' });
+    });
+    
+    eegSource.on('data', async (data: BrainwaveData) => {
+      const quality = artifactDetector.evaluate(data);
+      broadcastToDevice(device, { type: 'eeg_data', data, quality });
+      calibration.addSample(data, quality);
+      fitting.addSample(data);
+      
+      const sessionId = capturingSession(device);
+      if (!sessionId) return;
+      eegWriter.add({
+        sessionId,
+        attention: data.attention,
+        meditation: data.meditation,
+        signalQuality: data.signalQuality,
+        rawData: data,
+        isReliable: quality.reliable,
+        artifacts: quality.reasons,
+        timestamp: new Date()
+      });
+    });
+    
+    eegSource.on('eegPower', async (power: EegPowerBands) => {
+      broadcastToDevice(device, { type: 'eeg_power', data: power });
+
+      const sessionId = capturingSession(device);
+      if (!sessionId) return;
+      try {
+        await storage.addEegPower({
+          sessionId,
+          delta: power.delta,
+          theta: power.theta,
+          lowAlpha: power.lowAlpha,
+          highAlpha: power.highAlpha,
+          lowBeta: power.lowBeta,
+          highBeta: power.highBeta,
+          lowGamma: power.lowGamma,
+          highGamma: power.highGamma
         });
+      } catch (error) {
+        console.error('Error storing EEG power data:', error);
       }
-    } catch (error) {
-      console.error('Error storing EEG data:', error);
-    }
-  });
-  
-  neuroskyService.on('error', (error) => {
-    broadcast({ type: 'neurosky_error', error: error.message });
-  });
+    });
+
+    eegSource.on('blink', async (blink: BlinkData) => {
+      artifactDetector.recordBlink(blink);
+      gestures.addBlink(blink);
+      fitting.recordBlink(blink);
+      broadcastToDevice(device, { type: 'blink', data: blink });
+
+      const sessionId = capturingSession(device);
+      if (!sessionId) return;
+      try {
+        await storage.addBlinkEvent({
+          sessionId,
+          strength: blink.strength
+        });
+      } catch (error) {
+        console.error('Error storing blink event:', error);
+      }
+    });
+    
+    eegSource.on('error', (error) => {
+      broadcastToDevice(device, { type: 'neurosky_error', error: error.message });
+    });
+
+    // The connection is open but the headset has gone quiet
+    eegSource.on('stalled', (stall: StreamStall) => {
+      broadcastToDevice(device, { type: 'neurosky_stalled', data: stall });
+    });
+
+    eegSource.on('recovered', (stall: StreamStall) => {
+      broadcastToDevice(device, { type: 'neurosky_recovered', data: stall });
+    });
+
+    eegSource.on('rawEeg', (sample: { value: number; timestamp: number }) => {
+      artifactDetector.recordRawSample(sample.value, sample.timestamp);
+      fitting.recordRawSample(sample.value, sample.timestamp);
+
+      // The connector keeps streaming raw samples until the next handshake, even when turned off
+      if (eegSource.isRawOutputEnabled()) {
+        rawEegBuffer.push(sample.value, sample.timestamp);
+      }
+    });
+
+    eegSource.on('spectralPower', (bands: SpectralBandPower) => {
+      broadcastToDevice(device, { type: 'spectral_power', data: bands });
+    });
+
+    rawEegBuffer.on('batch', (batch: RawEegBatch) => {
+      broadcastToDevice(device, {
+        type: 'raw_eeg',
+        data: { ...batch, simulated: eegSource.getConnectionInfo().isDemoMode }
+      });
+
+      const sessionId = capturingSession(device);
+      if (!sessionId) return;
+      eegWriter.addRaw({
+        sessionId,
+        sampleRate: batch.sampleRate,
+        samples: batch.samples,
+        timestamp: new Date(batch.startTimestamp)
+      });
+    });
+
+    eegSource.on('disconnected', () => {
+      rawEegBuffer.reset();
+      artifactDetector.reset();
+      gestures.reset();
+      fitting.handleDisconnect();
+    });
+
+    fitting.on('progress', (status: FittingStatus) => {
+      broadcastToDevice(device, { type: 'fitting_progress', data: status });
+    });
+
+    // Every attempt is logged, successful or not, to learn how long setup takes
+    fitting.on('finished', async (status: FittingStatus, issueSeconds: Record<FittingIssue, number>) => {
+      broadcastToDevice(device, { type: 'fitting_finished', data: status });
+      const endedAt = Date.now();
+      try {
+        await storage.addFittingAttempt({
+          deviceId: device.id,
+          sessionId: status.sessionId,
+          startedAt: new Date(status.startedAt),
+          endedAt: new Date(endedAt),
+          durationMs: endedAt - status.startedAt,
+          outcome: status.outcome!,
+          requiredStableSeconds: status.requiredStableSeconds,
+          issueSeconds
+        });
+      } catch (error) {
+        console.error('Error storing fitting attempt:', error);
+      }
+    });
+
+    // The kiosk carries out the action; the server only recognizes the gesture
+    gestures.on('gesture', async (gesture: BlinkGesture) => {
+      broadcastToDevice(device, { type: 'gesture', data: gesture });
+
+      const sessionId = device.sessionId;
+      if (!sessionId) return;
+      try {
+        await recordMarker(sessionId, 'gesture', {
+          label: gesture.gesture,
+          data: { action: gesture.action, strengths: gesture.strengths },
+          timestamp: new Date(gesture.timestamp)
+        });
+      } catch (error) {
+        console.error('Error storing gesture marker:', error);
+      }
+    });
+
+    eegSource.on('replayEnded', (replay) => {
+      broadcastToDevice(device, { type: 'replay_ended', replay });
+    });
+
+    calibration.on('complete', async (sessionId: string, baseline: BrainwaveBaseline) => {
+      try {
+        await storage.updateSession(sessionId, { baseline });
+        broadcastToDevice(device, { type: 'calibration_complete', data: { sessionId, baseline } });
+        await recordMarker(sessionId, 'calibration_complete', { data: { sampleCount: baseline.sampleCount } });
+      } catch (error) {
+        console.error('Error storing calibration baseline:', error);
+      }
+    });
+
+    calibration.on('failed', (sessionId: string, reason: string) => {
+      broadcastToDevice(device, { type: 'calibration_failed', data: { sessionId }, error: reason });
+    });
+  }
+
+  devices.list().forEach(wireDevice);
+  await sessionLifecycle.startExpiry();
+  eegWriter.start();
+  eegRetention.start();
+
+  // Buffered samples would be lost if the process just exited
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      eegWriter.stop().finally(() => process.exit(0));
+    });
+  }
   
   // API Routes
   
   // Create a new session
   app.post("/api/sessions", async (req, res) => {
     try {
-      const validatedData = insertSessionSchema.parse(req.body);
+      const validatedData = sessionDetailsSchema.parse(req.body);
       const session = await storage.createSession(validatedData);
       res.json(session);
     } catch (error) {
@@ -180,11 +550,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Update session
   app.patch("/api/sessions/:id", async (req, res) => {
     try {
-      const updates = insertSessionSchema.partial().parse(req.body);
-      const session = await storage.updateSession(req.params.id, updates);
-      if (!session) {
+      const updates = sessionDetailsSchema.partial().parse(req.body);
+      const existing = await storage.getSession(req.params.id);
+      if (!existing) {
         return res.status(404).json({ error: 'Session not found' });
       }
+      if (existing.status === 'closed') {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+      const session = await storage.updateSession(req.params.id, { ...updates, lastActivityAt: new Date() });
       res.json(session);
     } catch (error) {
       res.status(400).json({ 
@@ -193,6 +567,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Capture lifecycle; the bound headset's samples are stored only while the session is capturing
+  function captureHandler(action: CaptureAction) {
+    return async (req: Request, res: Response) => {
+      try {
+        const session = await sessionLifecycle.transition(req.params.id, action);
+        if (!session) {
+          return res.status(404).json({ success: false, error: 'Session not found' });
+        }
+        res.json({ success: true, session });
+      } catch (error) {
+        res.status(409).json({ 
+          success: false,
+          error: error instanceof Error ? error.message : `Failed to ${action} capture` 
+        });
+      }
+    };
+  }
+
+  app.post("/api/sessions/:id/start", captureHandler('start'));
+  app.post("/api/sessions/:id/pause", captureHandler('pause'));
+  app.post("/api/sessions/:id/stop", captureHandler('stop'));
+
+  // Close for good: the session keeps a summary and refuses further changes
+  app.post("/api/sessions/:id/close", async (req, res) => {
+    try {
+      const session = await sessionLifecycle.close(req.params.id);
+      if (!session) {
+        return res.status(404).json({ success: false, error: 'Session not found' });
+      }
+      res.json({ success: true, session });
+    } catch (error) {
+      res.status(500).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to close session' 
+      });
+    }
+  });
+  
+  // Start the baseline calibration phase for a session
+  app.post("/api/sessions/:id/calibration", async (req, res) => {
+    try {
+      const { durationSeconds } = z.object({
+        durationSeconds: z.number().min(MIN_CALIBRATION_SECONDS).max(MAX_CALIBRATION_SECONDS).default(60)
+      }).parse(req.body ?? {});
+
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status === 'closed') {
+        return res.status(409).json({ success: false, error: 'Session is closed' });
+      }
+      await sessionLifecycle.touch(session.id);
+
+      // Calibration listens to the headset the visitor is wearing
+      const device = devices.getBySession(session.id);
+      if (!device) {
+        return res.status(409).json({ success: false, error: 'Session is not bound to a device' });
+      }
+
+      const calibration = device.calibration.start(session.id, durationSeconds);
+      broadcastToDevice(device, { type: 'calibration_started', data: calibration });
+      await recordMarker(session.id, 'calibration_started', { data: { durationSeconds } });
+
+      res.json({ success: true, calibration });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start calibration' 
+      });
+    }
+  });
+
+  // Calibration progress and the stored baseline, if any
+  app.get("/api/sessions/:id/calibration", async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json({
+        calibration: devices.getBySession(session.id)?.calibration.getStatus(session.id) ?? null,
+        baseline: session.baseline ?? null
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to get calibration' 
+      });
+    }
+  });
+
+  app.delete("/api/sessions/:id/calibration", (req, res) => {
+    const device = devices.getBySession(req.params.id);
+    const cancelled = device?.calibration.cancel(req.params.id) ?? false;
+    if (device && cancelled) {
+      broadcastToDevice(device, { type: 'calibration_cancelled', data: { sessionId: req.params.id } });
+    }
+    res.json({ success: true, cancelled });
+  });
+  
   // Get recent mandalas
   app.get("/api/mandalas/recent", async (req, res) => {
     try {
@@ -221,7 +696,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Serve mandala image directly
+  // Serve mandala image directly. Images in the asset store are content-addressed, so their
+  // URL's content never changes and browsers may cache it for good.
   app.get("/api/mandalas/:id/image", async (req, res) => {
     try {
       const mandala = await storage.getMandala(req.params.id);
@@ -229,7 +705,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'Mandala not found' });
       }
 
-      // Handle data URLs (locally generated SVG mandalas)
+      if (mandala.imageKey) {
+        res.set({
+          'Cache-Control': 'public, max-age=31536000, immutable',
+          'ETag': `"${mandala.imageKey}"`
+        });
+        if (req.fresh) {
+          return res.status(304).end();
+        }
+
+        const asset = await assetStore.get(mandala.imageKey);
+        if (!asset) {
+          return res.status(404).json({ error: 'Mandala image not found' });
+        }
+        res.set({
+          'Content-Type': asset.contentType,
+          'Content-Length': String(asset.size)
+        });
+        asset.stream.on('error', (error) => {
+          console.error(`Error streaming mandala image ${mandala.imageKey}:`, error);
+          res.destroy(error);
+        });
+        asset.stream.pipe(res);
+        return;
+      }
+
+      // Mandalas from before the asset store keep their image in imageUrl
       if (mandala.imageUrl.startsWith('data:')) {
         const [header, base64Data] = mandala.imageUrl.split(',');
         const mimeMatch = header.match(/data:([^;]+)/);
@@ -246,7 +747,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         res.send(buffer);
       } else {
-        // Handle external URLs (OpenAI generated images) - redirect
+        // Provider links stored before images were downloaded at creation time - redirect
         res.redirect(302, mandala.imageUrl);
       }
     } catch (error) {
@@ -261,13 +762,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const generateSchema = z.object({
         voiceTranscript: z.string().min(1, "Voice transcript is required"),
+        captureWindow: z.object({
+          startedMsAgo: z.number().min(0),
+          endedMsAgo: z.number().min(0)
+        }).refine(window => window.startedMsAgo >= window.endedMsAgo, {
+          message: 'Capture window must start before it ends'
+        }).optional(),
         brainwaveData: z.object({
           attention: z.number().min(0).max(100),
           meditation: z.number().min(0).max(100),
           signalQuality: z.number().min(0).max(100),
+          poorSignalLevel: z.number().min(0).max(200).optional(),
           timestamp: z.number()
-        }),
+        }).optional(),
         sessionId: z.string(),
+        // Refuse to generate when the capture window is mostly artifacts
+        requireReliableData: z.boolean().optional(),
         style: z.enum(['traditional', 'modern', 'abstract', 'spiritual']).optional(),
         colorPalette: z.enum(['warm', 'cool', 'vibrant', 'monochrome']).optional()
       });
@@ -279,48 +789,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!session) {
         return res.status(404).json({ error: 'Session not found' });
       }
+      if (session.status === 'closed') {
+        return res.status(409).json({ error: 'Session is closed' });
+      }
+
+      const requestedAt = Date.now();
+      await recordMarker(data.sessionId, 'generation_requested', { timestamp: new Date(requestedAt) });
+      const windowStart = requestedAt - (data.captureWindow?.startedMsAgo ?? DEFAULT_CAPTURE_WINDOW_MS);
+      const windowEnd = requestedAt - (data.captureWindow?.endedMsAgo ?? 0);
+      await eegWriter.flush();
+      const captured = (await storage.getEegDataForSession(data.sessionId, new Date(windowStart)))
+        .filter(sample => sample.timestamp.getTime() <= windowEnd);
+      const dataConfidence = computeDataConfidence(captured);
+
+      if (data.requireReliableData && (dataConfidence === null || dataConfidence < minDataConfidence)) {
+        return res.status(422).json({
+          error: 'Brain wave data was too unreliable to generate a mandala',
+          dataConfidence,
+          minDataConfidence
+        });
+      }
+      
+      // Summarize the whole capture window; the client's snapshot is only a fallback for
+      // sessions that have no stored samples in it
+      const baseline = session.baseline as BrainwaveBaseline | null;
+      const summary = summarizeEegWindow(captured, windowStart, windowEnd, baseline);
+      const windowData: BrainwaveData | undefined = summary ? {
+        attention: summary.attention.mean,
+        meditation: summary.meditation.mean,
+        signalQuality: summary.signalQuality,
+        timestamp: windowEnd,
+        summary
+      } : data.brainwaveData ?? devices.getBySession(data.sessionId)?.source.getCurrentData() ?? undefined;
+
+      if (!windowData) {
+        return res.status(400).json({ error: 'No brain wave data was captured for this session' });
+      }
+
+      // Express readings relative to this visitor's own baseline when they calibrated
+      const brainwaveData: BrainwaveData = baseline
+        ? { ...windowData, normalized: normalizeBrainwaveData(windowData, baseline) }
+        : windowData;
       
       // Generate AI prompt using Gemini
       const prompt = await geminiService.generateMandalaPrompt({
         voiceTranscript: data.voiceTranscript,
-        brainwaveData: data.brainwaveData,
+        brainwaveData,
         style: data.style,
         colorPalette: data.colorPalette
       });
       
       // Generate mandala image using Gemini
-      const generatedMandala = await geminiService.generateMandalaImage(prompt, data.brainwaveData);
+      const generatedMandala = await geminiService.generateMandalaImage(prompt, brainwaveData);
+      const asset = await assetStore.put(generatedMandala.image.data, generatedMandala.image.contentType);
       
-      // Store mandala
-      const mandala = await storage.createMandala({
+      // Store mandala; its image is served through the mandala's own image route, whose URL
+      // needs the id storage hands out
+      const createdMandala = await storage.createMandala({
         sessionId: data.sessionId,
-        imageUrl: generatedMandala.imageUrl,
+        imageUrl: '',
+        imageKey: asset.key,
+        sourceImageUrl: generatedMandala.sourceUrl ?? null,
         prompt: generatedMandala.prompt,
-        brainwaveData: data.brainwaveData,
-        voiceTranscript: data.voiceTranscript
+        brainwaveData,
+        voiceTranscript: data.voiceTranscript,
+        dataConfidence
       });
+      const mandala = await storage.updateMandala(createdMandala.id, {
+        imageUrl: `/api/mandalas/${createdMandala.id}/image`
+      }) ?? createdMandala;
       
       // Update session with latest data
       await storage.updateSession(data.sessionId, {
         voiceTranscript: data.voiceTranscript,
         aiPrompt: prompt,
-        mandalaUrl: generatedMandala.imageUrl,
-        attentionLevel: data.brainwaveData.attention,
-        meditationLevel: data.brainwaveData.meditation,
-        signalQuality: data.brainwaveData.signalQuality
+        mandalaUrl: mandala.imageUrl,
+        attentionLevel: Math.round(brainwaveData.attention),
+        meditationLevel: Math.round(brainwaveData.meditation),
+        signalQuality: Math.round(brainwaveData.signalQuality),
+        lastActivityAt: new Date()
       });
+      await recordMarker(data.sessionId, 'mandala_generated', { data: { mandalaId: mandala.id } });
       
       // Broadcast to connected clients
-      broadcast({
+      broadcastToSession(data.sessionId, {
         type: 'mandala_generated',
         mandala,
-        generatedMandala
+        generatedMandala: {
+          imageUrl: mandala.imageUrl,
+          prompt: generatedMandala.prompt,
+          revisedPrompt: generatedMandala.revisedPrompt
+        }
       });
       
       res.json({
         mandala,
         generatedPrompt: prompt,
-        imageUrl: generatedMandala.imageUrl,
+        imageUrl: mandala.imageUrl,
         revisedPrompt: generatedMandala.revisedPrompt
       });
       
@@ -350,11 +915,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get EEG data for session
+  // Get EEG data for session. ?resolution=1s or 10s returns rollups instead of raw samples,
+  // which is all that is left once raw samples have aged out. ?format=csv (with an optional
+  // ?columns=a,b,c) or ?format=edf downloads the data for analysis tools instead of JSON.
   app.get("/api/sessions/:id/eeg", async (req, res) => {
     try {
-      const eegData = await storage.getEegDataForSession(req.params.id);
-      res.json(eegData);
+      const resolution = z.enum(EEG_RESOLUTIONS).default('raw').safeParse(req.query.resolution);
+      if (!resolution.success) {
+        return res.status(400).json({ error: `resolution must be one of ${EEG_RESOLUTIONS.join(', ')}` });
+      }
+      const format = z.enum(EEG_EXPORT_FORMATS).default('json').safeParse(req.query.format);
+      if (!format.success) {
+        return res.status(400).json({ error: `format must be one of ${EEG_EXPORT_FORMATS.join(', ')}` });
+      }
+      const columns = typeof req.query.columns === 'string'
+        ? req.query.columns.split(',').map(column => column.trim()).filter(Boolean)
+        : defaultCsvColumnsFor(resolution.data);
+      const unknownColumns = columns.filter(column => !csvColumnsFor(resolution.data).includes(column));
+      if (format.data === 'csv' && (columns.length === 0 || unknownColumns.length > 0)) {
+        return res.status(400).json({ error: `columns must be taken from ${csvColumnsFor(resolution.data).join(', ')}` });
+      }
+
+      await eegWriter.flush();
+      const [samples, rollups, eegPower, blinks, markers] = await Promise.all([
+        resolution.data === 'raw' ? storage.getEegDataForSession(req.params.id) : [],
+        resolution.data === 'raw' ? [] : storage.getEegRollupsForSession(req.params.id, resolution.data),
+        storage.getEegPowerForSession(req.params.id),
+        storage.getBlinkEventsForSession(req.params.id),
+        storage.getMarkersForSession(req.params.id)
+      ]);
+      if (format.data === 'json') {
+        const response: SessionEegResponse = { resolution: resolution.data, samples, rollups, eegPower, blinks, markers };
+        return res.json(response);
+      }
+
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      const rawSegments = format.data === 'edf' ? await storage.getRawEegSegmentsForSession(session.id) : [];
+      const exportData = { session, resolution: resolution.data, samples, rollups, eegPower, rawSegments, markers };
+      const fileName = `session-${session.id}-${resolution.data}`;
+
+      if (format.data === 'csv') {
+        res.set({
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}.csv"`
+        });
+        return res.send(toEegCsv(exportData, columns));
+      }
+
+      const edf = toEegEdf(exportData);
+      if (!edf) {
+        return res.status(404).json({ error: 'Session has no EEG data to export' });
+      }
+      res.set({
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${fileName}.edf"`
+      });
+      res.send(edf);
     } catch (error) {
       res.status(500).json({ 
         error: error instanceof Error ? error.message : 'Failed to get EEG data' 
@@ -362,23 +981,218 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Record a timeline marker. msAgo places it relative to when the request was sent, so
+  // client and server clocks don't need to agree.
+  app.post("/api/sessions/:id/markers", async (req, res) => {
+    try {
+      const receivedAt = Date.now();
+      const marker = z.object({
+        type: z.enum(MARKER_TYPES),
+        label: z.string().max(500).optional(),
+        data: z.record(z.unknown()).optional(),
+        msAgo: z.number().min(0).default(0)
+      }).refine(marker => marker.type !== 'note' || !!marker.label, {
+        message: 'Notes need a label'
+      }).parse(req.body);
+
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ success: false, error: 'Session not found' });
+      }
+      if (session.status === 'closed') {
+        return res.status(409).json({ success: false, error: 'Session is closed' });
+      }
+
+      const recorded = await recordMarker(session.id, marker.type, {
+        label: marker.label,
+        data: marker.data,
+        timestamp: new Date(receivedAt - marker.msAgo),
+        source: 'client'
+      });
+      await sessionLifecycle.touch(session.id);
+      res.json({ success: true, marker: recorded });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid marker' 
+      });
+    }
+  });
+
+  app.get("/api/sessions/:id/markers", async (req, res) => {
+    try {
+      res.json(await storage.getMarkersForSession(req.params.id));
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to get markers' 
+      });
+    }
+  });
+  
+  // Everything recorded for a session as one .tar.gz, to move it to another server
+  app.get("/api/sessions/:id/export", async (req, res) => {
+    try {
+      await eegWriter.flush();
+      const bundle = await exportSessionBundle(storage, assetStore, req.params.id);
+      if (!bundle) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      res.set({
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${bundle.fileName}"`
+      });
+      res.send(bundle.data);
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to export session' 
+      });
+    }
+  });
+
+  // Recreate a session from an export bundle sent as the request body. It gets a new id and is closed.
+  app.post("/api/sessions/import", express.raw({ type: ['application/gzip', 'application/x-gzip', 'application/octet-stream'], limit: MAX_SESSION_BUNDLE_SIZE }), async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ success: false, error: 'Send the bundle as an application/gzip request body' });
+      }
+      const imported = await importSessionBundle(storage, assetStore, req.body);
+      res.json({ success: true, ...imported });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid session bundle' 
+      });
+    }
+  });
+  
+  // Headsets and their station/session bindings
+  app.get("/api/devices", (req, res) => {
+    res.json({ devices: devices.list().map(device => devices.getInfo(device)) });
+  });
+
+  // Per-device endpoints. /api/neurosky/* addresses the default device for single-headset setups.
+  const deviceRoutes = Router({ mergeParams: true });
+
+  app.use("/api/devices/:deviceId", (req, res, next) => {
+    const device = devices.get(req.params.deviceId);
+    if (!device) {
+      return res.status(404).json({ success: false, error: 'Device not found' });
+    }
+    res.locals.device = device;
+    next();
+  }, deviceRoutes);
+
+  app.use("/api/neurosky", (req, res, next) => {
+    res.locals.device = devices.getDefault();
+    next();
+  }, deviceRoutes);
+
+  deviceRoutes.get("/", (req, res) => {
+    const device: Device = res.locals.device;
+    res.json(devices.getInfo(device));
+  });
+
+  // Bind the device to the visitor's session; its samples are stored for that session only
+  deviceRoutes.post("/session", async (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const { sessionId } = z.object({ sessionId: z.string().min(1) }).parse(req.body);
+
+      const session = await storage.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ success: false, error: 'Session not found' });
+      }
+      if (session.status === 'closed') {
+        return res.status(409).json({ success: false, error: 'Session is closed' });
+      }
+
+      devices.bindSession(device.id, session.id);
+      await sessionLifecycle.touch(session.id);
+      res.json({ success: true, device: devices.getInfo(device) });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to bind session' 
+      });
+    }
+  });
+
+  deviceRoutes.delete("/session", (req, res) => {
+    const device: Device = res.locals.device;
+    devices.unbindSession(device.id);
+    res.json({ success: true, device: devices.getInfo(device) });
+  });
+  
+  // Guided headset fitting; progress is streamed as fitting_progress / fitting_finished
+  deviceRoutes.post("/fitting", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const { stableSeconds } = z.object({
+        stableSeconds: z.number().min(MIN_FITTING_STABLE_SECONDS).max(MAX_FITTING_STABLE_SECONDS).default(DEFAULT_FITTING_STABLE_SECONDS)
+      }).parse(req.body ?? {});
+
+      if (!device.source.getConnectionStatus()) {
+        return res.status(409).json({ success: false, error: 'Headset is not connected' });
+      }
+
+      const fitting = device.fitting.start(stableSeconds, device.sessionId);
+      broadcastToDevice(device, { type: 'fitting_progress', data: fitting });
+      res.json({ success: true, fitting });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start fitting' 
+      });
+    }
+  });
+
+  deviceRoutes.get("/fitting", (req, res) => {
+    const device: Device = res.locals.device;
+    res.json({ fitting: device.fitting.getStatus() });
+  });
+
+  deviceRoutes.delete("/fitting", (req, res) => {
+    const device: Device = res.locals.device;
+    res.json({ success: true, cancelled: device.fitting.cancel() });
+  });
+
+  deviceRoutes.get("/fitting/attempts", async (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const attempts = await storage.getFittingAttempts(device.id);
+      res.json({ attempts, summary: summarizeFittingAttempts(attempts) });
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to get fitting attempts' 
+      });
+    }
+  });
+  
   // Get current NeuroSky status with detailed information
-  app.get("/api/neurosky/status", (req, res) => {
+  deviceRoutes.get("/status", (req, res) => {
+    const device: Device = res.locals.device;
     res.json({
-      connected: neuroskyService.getConnectionStatus(),
-      currentData: neuroskyService.getCurrentData(),
-      connectionInfo: neuroskyService.getConnectionInfo()
+      device: devices.getInfo(device),
+      connected: device.source.getConnectionStatus(),
+      currentData: device.source.getCurrentData(),
+      spectralPower: device.source.getCurrentSpectralPower(),
+      connectionInfo: device.source.getConnectionInfo(),
+      gestures: device.gestures.getConfig()
     });
   });
   
   // Connect to NeuroSky with better error handling
-  app.post("/api/neurosky/connect", async (req, res) => {
+  deviceRoutes.post("/connect", async (req, res) => {
+    const device: Device = res.locals.device;
     try {
       // Reset reconnection attempts before trying
-      neuroskyService.resetReconnectionAttempts();
+      device.source.resetReconnectionAttempts();
       
-      // Check if ThinkGear Connector is available first
-      const isAvailable = await NeuroSkyService.checkThinkGearConnector();
+      // Check if ThinkGear Connector is available first (the serial transport and OSC don't use it)
+      const config = device.source.getNeuroSkyConfig();
+      const isOsc = device.source.getLiveSourceKind() === 'osc';
+      const usesConnector = !isOsc && config.transport !== 'serial';
+      const isAvailable = !usesConnector || await NeuroSkyService.checkThinkGearConnector(config.host, config.port);
       if (!isAvailable) {
         return res.status(503).json({ 
           success: false,
@@ -388,25 +1202,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      await neuroskyService.connect();
+      await device.source.connect();
       
       // Broadcast connection success to WebSocket clients
-      broadcast({ 
+      broadcastToDevice(device, { 
         type: 'neurosky_connected',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        connectionInfo: device.source.getConnectionInfo()
       });
       
       res.json({ 
         success: true, 
-        message: 'Successfully connected to NeuroSky device via ThinkGear Connector',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        message: isOsc
+          ? 'Listening for Muse OSC band power messages'
+          : usesConnector
+            ? 'Successfully connected to NeuroSky device via ThinkGear Connector'
+            : 'Successfully connected to NeuroSky device via serial packet stream',
+        connectionInfo: device.source.getConnectionInfo()
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to connect to NeuroSky';
       const needsSetup = errorMessage.includes('ThinkGear Connector');
       
       // Broadcast connection error to WebSocket clients
-      broadcast({ 
+      broadcastToDevice(device, { 
         type: 'neurosky_error',
         error: errorMessage
       });
@@ -430,20 +1248,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Disconnect from NeuroSky with cleanup
-  app.post("/api/neurosky/disconnect", (req, res) => {
+  deviceRoutes.post("/disconnect", (req, res) => {
+    const device: Device = res.locals.device;
     try {
-      neuroskyService.disconnect();
+      device.source.disconnect();
       
       // Broadcast disconnection to WebSocket clients
-      broadcast({ 
+      broadcastToDevice(device, { 
         type: 'neurosky_disconnected',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        connectionInfo: device.source.getConnectionInfo()
       });
       
       res.json({ 
         success: true, 
         message: 'Successfully disconnected from NeuroSky device',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        connectionInfo: device.source.getConnectionInfo()
       });
     } catch (error) {
       res.status(500).json({ 
@@ -454,9 +1273,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Check if ThinkGear Connector is available with detailed status
-  app.get("/api/neurosky/check", async (req, res) => {
+  deviceRoutes.get("/check", async (req, res) => {
+    const device: Device = res.locals.device;
     try {
-      const available = await NeuroSkyService.checkThinkGearConnector();
+      const config = device.source.getNeuroSkyConfig();
+      const available = await NeuroSkyService.checkThinkGearConnector(config.host, config.port);
       res.json({ 
         available,
         status: available ? 'ready' : 'not_running',
@@ -499,39 +1320,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Demo scenarios available to /demo/enable
+  deviceRoutes.get("/demo/scenarios", (req, res) => {
+    try {
+      res.json({ scenarios: listDemoScenarios() });
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to list demo scenarios' 
+      });
+    }
+  });
+
   // Enable demo mode with better feedback
-  app.post("/api/neurosky/demo/enable", (req, res) => {
+  deviceRoutes.post("/demo/enable", async (req, res) => {
+    const device: Device = res.locals.device;
     try {
+      const options = z.object({
+        scenario: z.string().min(1).optional(),
+        seed: z.number().int().optional()
+      }).parse(req.body ?? {});
+
       // Disconnect any real connection first
-      if (neuroskyService.getConnectionStatus()) {
-        neuroskyService.disconnect();
+      if (device.source.getConnectionStatus()) {
+        device.source.disconnect();
       }
       
-      neuroskyService.enableDemoMode();
+      const scenario = summarizeDemoScenario(await device.source.enableDemoMode(options));
       
       // Broadcast demo mode enabled to WebSocket clients
-      broadcast({ 
+      broadcastToDevice(device, { 
         type: 'demo_enabled',
-        message: 'Demo mode enabled - generating simulated brainwave data',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        message: `Demo mode enabled - playing "${scenario.name}"`,
+        connectionInfo: device.source.getConnectionInfo()
       });
       
       res.json({ 
         success: true, 
-        message: 'Demo mode enabled - generating simulated brainwave data',
+        message: `Demo mode enabled - playing "${scenario.name}"`,
         demoInfo: {
-          description: 'Demo mode simulates realistic brainwave patterns with 4 phases:',
-          phases: [
-            'Settling in - Lower attention and meditation as you get comfortable',
-            'Building focus - Increasing attention with moderate meditation',
-            'Deep meditation - High meditation with relaxed attention',
-            'Mixed state - Balanced attention and meditation levels'
-          ],
-          note: 'Each phase lasts 30 seconds and cycles continuously'
+          scenario: scenario.name,
+          seed: options.seed ?? scenario.seed,
+          description: scenario.description,
+          phases: scenario.phases.map(phase => `${phase.label} (${phase.durationSeconds}s)`),
+          note: scenario.loop
+            ? `Runs for ${scenario.durationSeconds} seconds and cycles continuously; the same seed replays the same data`
+            : `Runs for ${scenario.durationSeconds} seconds and then holds the last phase; the same seed replays the same data`
         }
       });
     } catch (error) {
-      res.status(500).json({ 
+      res.status(400).json({ 
         success: false,
         error: error instanceof Error ? error.message : 'Failed to enable demo mode' 
       });
@@ -539,21 +1376,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Disable demo mode with status update
-  app.post("/api/neurosky/demo/disable", (req, res) => {
+  deviceRoutes.post("/demo/disable", (req, res) => {
+    const device: Device = res.locals.device;
     try {
-      neuroskyService.disableDemoMode();
+      device.source.disableDemoMode();
       
       // Broadcast demo mode disabled to WebSocket clients
-      broadcast({ 
+      broadcastToDevice(device, { 
         type: 'demo_disabled',
         message: 'Demo mode disabled - ready for real NeuroSky connection',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        connectionInfo: device.source.getConnectionInfo()
       });
       
       res.json({ 
         success: true, 
         message: 'Demo mode disabled - ready for real NeuroSky connection',
-        connectionInfo: neuroskyService.getConnectionInfo()
+        connectionInfo: device.source.getConnectionInfo()
       });
     } catch (error) {
       res.status(500).json({ 
@@ -563,5 +1401,171 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Toggle the 512 Hz raw EEG stream
+  deviceRoutes.post("/raw-output", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const { enabled } = z.object({ enabled: z.boolean() }).parse(req.body);
+      device.source.setRawOutput(enabled);
+
+      const info = device.source.getConnectionInfo();
+      const needsReconnect = enabled && info.isConnected && !info.isDemoMode && !info.isReplayMode;
+
+      broadcastToDevice(device, { type: 'raw_output_changed', enabled });
+
+      res.json({ 
+        success: true, 
+        enabled,
+        message: needsReconnect
+          ? 'Raw EEG output will start after reconnecting to the headset'
+          : `Raw EEG output ${enabled ? 'enabled' : 'disabled'}`
+      });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid raw output setting' 
+      });
+    }
+  });
+
+  // List saved EEG recordings available for replay
+  deviceRoutes.get("/recordings", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      res.json({
+        recordings: listRecordings(),
+        recording: device.source.getConnectionInfo().recording
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        error: error instanceof Error ? error.message : 'Failed to list recordings' 
+      });
+    }
+  });
+
+  // Start recording every incoming ThinkGear message
+  deviceRoutes.post("/recording/start", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const { name } = z.object({ name: z.string().min(1).optional() }).parse(req.body ?? {});
+      const recording = device.source.startRecording(name);
+
+      broadcastToDevice(device, { type: 'recording_started', recording });
+
+      res.json({ 
+        success: true, 
+        message: `Recording ThinkGear messages to ${recording.name}`,
+        recording
+      });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start recording' 
+      });
+    }
+  });
+
+  deviceRoutes.post("/recording/stop", async (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const recording = await device.source.stopRecording();
+
+      broadcastToDevice(device, { type: 'recording_stopped', recording });
+
+      res.json({ 
+        success: true, 
+        message: `Saved recording ${recording.name}`,
+        recording
+      });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to stop recording' 
+      });
+    }
+  });
+
+  // Enable replay mode: play a recording back as if it were a live headset
+  deviceRoutes.post("/replay/enable", async (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const { recording, speed } = replayEnableSchema.parse(req.body);
+
+      await device.source.enableReplayMode(recording, speed ?? 1);
+
+      broadcastToDevice(device, { 
+        type: 'replay_enabled',
+        replay: device.source.getReplayStatus(),
+        connectionInfo: device.source.getConnectionInfo()
+      });
+
+      res.json({ 
+        success: true, 
+        message: `Replaying ${recording}`,
+        replay: device.source.getReplayStatus()
+      });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to enable replay mode' 
+      });
+    }
+  });
+
+  deviceRoutes.post("/replay/disable", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      device.source.disableReplayMode();
+
+      broadcastToDevice(device, { 
+        type: 'replay_disabled',
+        connectionInfo: device.source.getConnectionInfo()
+      });
+
+      res.json({ 
+        success: true, 
+        message: 'Replay mode disabled',
+        connectionInfo: device.source.getConnectionInfo()
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to disable replay mode' 
+      });
+    }
+  });
+
+  // Pause, resume or change replay speed
+  deviceRoutes.post("/replay/control", (req, res) => {
+    const device: Device = res.locals.device;
+    try {
+      const control = z.object({
+        action: z.enum(['pause', 'resume', 'speed']),
+        speed: replaySpeedSchema.optional()
+      }).parse(req.body);
+
+      if (control.action === 'pause') {
+        device.source.pauseReplay();
+      } else if (control.action === 'resume') {
+        device.source.resumeReplay();
+      } else {
+        if (control.speed === undefined) {
+          return res.status(400).json({ success: false, error: 'Replay speed is required' });
+        }
+        device.source.setReplaySpeed(control.speed);
+      }
+
+      const replay = device.source.getReplayStatus();
+      broadcastToDevice(device, { type: 'replay_state', replay });
+
+      res.json({ success: true, replay });
+    } catch (error) {
+      res.status(400).json({ 
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to control replay' 
+      });
+    }
+  });
+  
   return httpServer;
 }
@@ -0,0 +1,99 @@
+import { BrainwaveData, BlinkData, ArtifactReason, SampleQuality } from '@shared/schema';
+
+export interface ArtifactDetectorOptions {
+  // poorSignalLevel above this (0-200) means the electrode contact can't be trusted
+  maxPoorSignalLevel?: number;
+  // This many blinks inside blinkBurstWindowMs is treated as eye/face movement, not a blink
+  blinkBurstCount?: number;
+  blinkBurstWindowMs?: number;
+  // Raw samples at or beyond this magnitude are clipped by the ADC (range is about ±2048)
+  saturationLevel?: number;
+  // Share of saturated raw samples within the last second that marks the sample unreliable
+  maxSaturatedFraction?: number;
+  // eSense change between consecutive readings that is too fast to be physiological
+  maxJump?: number;
+}
+
+const RAW_WINDOW_MS = 1000;
+// Readings further apart than this aren't compared for jumps
+const JUMP_MAX_GAP_MS = 2000;
+
+export class ArtifactDetector {
+  private options: Required<ArtifactDetectorOptions>;
+  private recentBlinks: number[] = [];
+  private rawWindow: { timestamp: number; saturated: boolean }[] = [];
+  private saturatedCount = 0;
+  private previous: BrainwaveData | null = null;
+
+  constructor(options: ArtifactDetectorOptions = {}) {
+    this.options = {
+      maxPoorSignalLevel: options.maxPoorSignalLevel ?? 50,
+      blinkBurstCount: options.blinkBurstCount ?? 3,
+      blinkBurstWindowMs: options.blinkBurstWindowMs ?? 2000,
+      saturationLevel: options.saturationLevel ?? 2000,
+      maxSaturatedFraction: options.maxSaturatedFraction ?? 0.05,
+      maxJump: options.maxJump ?? 40,
+    };
+  }
+
+  recordBlink(blink: BlinkData): void {
+    this.recentBlinks.push(blink.timestamp);
+  }
+
+  recordRawSample(value: number, timestamp: number): void {
+    const saturated = Math.abs(value) >= this.options.saturationLevel;
+    this.rawWindow.push({ timestamp, saturated });
+    if (saturated) this.saturatedCount++;
+
+    while (this.rawWindow.length > 0 && this.rawWindow[0].timestamp < timestamp - RAW_WINDOW_MS) {
+      if (this.rawWindow.shift()!.saturated) this.saturatedCount--;
+    }
+  }
+
+  evaluate(sample: BrainwaveData): SampleQuality {
+    const reasons: ArtifactReason[] = [];
+
+    // Fall back to signalQuality for sources that don't report poorSignalLevel
+    const poorSignalLevel = sample.poorSignalLevel ?? ((100 - sample.signalQuality) / 100) * 200;
+    if (poorSignalLevel > this.options.maxPoorSignalLevel) {
+      reasons.push('poor_signal');
+    }
+
+    this.recentBlinks = this.recentBlinks.filter(time => time >= sample.timestamp - this.options.blinkBurstWindowMs);
+    if (this.recentBlinks.length >= this.options.blinkBurstCount) {
+      reasons.push('blink_burst');
+    }
+
+    if (this.rawWindow.length > 0 && this.saturatedCount / this.rawWindow.length > this.options.maxSaturatedFraction) {
+      reasons.push('saturation');
+    }
+
+    const previous = this.previous;
+    if (previous && sample.timestamp - previous.timestamp <= JUMP_MAX_GAP_MS) {
+      const jump = Math.max(
+        Math.abs(sample.attention - previous.attention),
+        Math.abs(sample.meditation - previous.meditation)
+      );
+      if (jump > this.options.maxJump) {
+        reasons.push('sudden_jump');
+      }
+    }
+    this.previous = sample;
+
+    return { reliable: reasons.length === 0, reasons };
+  }
+
+  reset(): void {
+    this.recentBlinks = [];
+    this.rawWindow = [];
+    this.saturatedCount = 0;
+    this.previous = null;
+  }
+}
+
+// Share of samples that were reliable (0-1), or null when there's nothing to judge
+export function computeDataConfidence(samples: { isReliable: boolean | null }[]): number | null {
+  if (samples.length === 0) return null;
+  const reliable = samples.filter(sample => sample.isReliable !== false).length;
+  return reliable / samples.length;
+}
@@ -0,0 +1,47 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buffer } from 'stream/consumers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileAssetStore } from './asset-store';
+
+describe('FileAssetStore', () => {
+  const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+  let dir: string;
+  let store: FileAssetStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-store-'));
+    // A directory that doesn't exist yet, as on first start
+    store = new FileAssetStore(path.join(dir, 'assets'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('stores an image under its content hash and reads it back', async () => {
+    const stored = await store.put(png, 'image/png');
+    expect(stored).toEqual({ key: `${createHash('sha256').update(png).digest('hex')}.png`, contentType: 'image/png', size: png.length });
+
+    const asset = await store.get(stored.key);
+    expect(asset).toMatchObject({ key: stored.key, contentType: 'image/png', size: png.length });
+    expect(await buffer(asset!.stream)).toEqual(png);
+  });
+
+  it('keeps one file for the same image stored twice', async () => {
+    const first = await store.put(png, 'image/png');
+    const second = await store.put(png, 'image/png');
+    expect(second).toEqual(first);
+    expect(fs.readdirSync(path.join(dir, 'assets'))).toEqual([first.key]);
+  });
+
+  it('resolves to undefined for unknown and malformed keys', async () => {
+    await store.put(png, 'image/png');
+    expect(await store.get(`${'0'.repeat(64)}.png`)).toBeUndefined();
+    expect(await store.get('../../etc/passwd')).toBeUndefined();
+  });
+
+  it('rejects types it has no extension for', async () => {
+    await expect(store.put(png, 'text/html')).rejects.toThrow('Unsupported asset type text/html');
+  });
+});
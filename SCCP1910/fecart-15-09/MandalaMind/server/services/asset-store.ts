@@ -0,0 +1,117 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { S3AssetStore } from './s3-asset-store';
+
+export const DEFAULT_ASSETS_DIR = 'data/assets';
+
+export const ASSET_STORE_BACKENDS = ['filesystem', 's3'] as const;
+export type AssetStoreBackend = typeof ASSET_STORE_BACKENDS[number];
+
+// Keys end in the extension for their type, so the type is known from the key alone
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+};
+
+export interface AssetMetadata {
+  key: string;
+  contentType: string;
+  size: number;
+}
+
+export interface StoredAsset extends AssetMetadata {
+  stream: Readable;
+}
+
+// Content-addressed storage for generated images: the key is derived from the bytes, so storing
+// the same image twice is harmless and a key's content never changes
+export interface AssetStore {
+  put(data: Buffer, contentType: string): Promise<AssetMetadata>;
+  // Resolves to undefined for unknown keys
+  get(key: string): Promise<StoredAsset | undefined>;
+}
+
+export function extensionForContentType(contentType: string): string | undefined {
+  return EXTENSIONS[contentType];
+}
+
+export function assetKeyFor(data: Buffer, contentType: string): string {
+  const extension = extensionForContentType(contentType);
+  if (!extension) {
+    throw new Error(`Unsupported asset type ${contentType}`);
+  }
+  return `${createHash('sha256').update(data).digest('hex')}.${extension}`;
+}
+
+export function contentTypeForKey(key: string): string {
+  const extension = path.extname(key).slice(1);
+  return Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension) ?? 'application/octet-stream';
+}
+
+// Rejects anything that isn't a key this store could have handed out, e.g. path traversal attempts
+export function isAssetKey(key: string): boolean {
+  return /^[0-9a-f]{64}\.[a-z]+$/.test(key);
+}
+
+export class FileAssetStore implements AssetStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  async put(data: Buffer, contentType: string): Promise<AssetMetadata> {
+    const key = assetKeyFor(data, contentType);
+    const filePath = path.join(this.dir, key);
+
+    if (!fs.existsSync(filePath)) {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      // Written under a temporary name first so readers never see half an image
+      const tempPath = `${filePath}.${randomUUID()}.tmp`;
+      await fs.promises.writeFile(tempPath, data);
+      await fs.promises.rename(tempPath, filePath);
+    }
+    return { key, contentType, size: data.length };
+  }
+
+  async get(key: string): Promise<StoredAsset | undefined> {
+    if (!isAssetKey(key)) return undefined;
+
+    const filePath = path.join(this.dir, key);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      return { key, contentType: contentTypeForKey(key), size: stats.size, stream: fs.createReadStream(filePath) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+}
+
+// ASSET_STORE picks where images are kept: filesystem (ASSETS_DIR) or an S3-compatible bucket
+export function createAssetStore(env: NodeJS.ProcessEnv = process.env): AssetStore {
+  const backend = (env.ASSET_STORE || 'filesystem') as AssetStoreBackend;
+  if (!ASSET_STORE_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown ASSET_STORE "${backend}", expected one of ${ASSET_STORE_BACKENDS.join(', ')}`);
+  }
+
+  if (backend === 's3') {
+    if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      throw new Error('ASSET_STORE=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    const region = env.S3_REGION || 'us-east-1';
+    return new S3AssetStore({
+      endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: env.S3_BUCKET,
+      region,
+      prefix: env.S3_PREFIX || '',
+      credentials: { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY },
+    });
+  }
+  return new FileAssetStore(env.ASSETS_DIR || DEFAULT_ASSETS_DIR);
+}
@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+import { BlinkData, BlinkGesture, BlinkGestureName, GestureAction } from '@shared/schema';
+
+export interface BlinkGestureOptions {
+  enabled?: boolean;
+  // Natural blinks are mostly weaker than this; Muse reports every blink as 60
+  minStrength?: number;
+  // Blinks closer together than this are one blink reported twice
+  minIntervalMs?: number;
+  // A gesture ends when no further blink follows within this long
+  maxIntervalMs?: number;
+  // Blinks are ignored for this long after a gesture so the action isn't triggered twice
+  cooldownMs?: number;
+  actions?: Partial<Record<BlinkGestureName, GestureAction>>;
+}
+
+export const DEFAULT_GESTURE_ACTIONS: Record<BlinkGestureName, GestureAction> = {
+  double_blink: 'toggle_recording',
+  triple_blink: 'generate_mandala',
+};
+
+const GESTURES_BY_COUNT: Record<number, BlinkGestureName> = {
+  2: 'double_blink',
+  3: 'triple_blink',
+};
+
+const MAX_GESTURE_BLINKS = 3;
+
+// Turns runs of strong blinks into double/triple blink gestures. Emits 'gesture' (BlinkGesture).
+export class BlinkGestureRecognizer extends EventEmitter {
+  private options: Required<Omit<BlinkGestureOptions, 'actions'>> & { actions: Record<BlinkGestureName, GestureAction> };
+  private pending: BlinkData[] = [];
+  private settleTimer: NodeJS.Timeout | null = null;
+  private cooldownUntil = 0;
+
+  constructor(options: BlinkGestureOptions = {}) {
+    super();
+    this.options = {
+      enabled: options.enabled ?? true,
+      minStrength: options.minStrength ?? 60,
+      minIntervalMs: options.minIntervalMs ?? 120,
+      maxIntervalMs: options.maxIntervalMs ?? 600,
+      cooldownMs: options.cooldownMs ?? 2000,
+      actions: { ...DEFAULT_GESTURE_ACTIONS, ...options.actions },
+    };
+  }
+
+  getConfig() {
+    return { ...this.options, actions: { ...this.options.actions } };
+  }
+
+  addBlink(blink: BlinkData): void {
+    if (!this.options.enabled || blink.strength < this.options.minStrength) return;
+    if (blink.timestamp < this.cooldownUntil) return;
+
+    const previous = this.pending[this.pending.length - 1];
+    if (previous) {
+      const interval = blink.timestamp - previous.timestamp;
+      if (interval < this.options.minIntervalMs) return;
+      if (interval > this.options.maxIntervalMs) {
+        // The settle timer should have closed this run already (e.g. replay timestamps); start over
+        this.clearPending();
+      }
+    }
+
+    this.pending.push(blink);
+    this.clearSettleTimer();
+
+    // Nothing is longer than a triple, so there's no need to wait for another blink
+    if (this.pending.length >= MAX_GESTURE_BLINKS) {
+      this.finishGesture();
+      return;
+    }
+    this.settleTimer = setTimeout(() => this.finishGesture(), this.options.maxIntervalMs);
+  }
+
+  reset(): void {
+    this.clearPending();
+    this.cooldownUntil = 0;
+  }
+
+  private finishGesture(): void {
+    const blinks = this.pending;
+    this.clearPending();
+
+    const gesture = GESTURES_BY_COUNT[blinks.length];
+    if (!gesture) return;
+
+    const timestamp = blinks[blinks.length - 1].timestamp;
+    this.cooldownUntil = timestamp + this.options.cooldownMs;
+    const recognized: BlinkGesture = {
+      gesture,
+      action: this.options.actions[gesture],
+      strengths: blinks.map(blink => blink.strength),
+      timestamp,
+    };
+    this.emit('gesture', recognized);
+  }
+
+  private clearPending(): void {
+    this.clearSettleTimer();
+    this.pending = [];
+  }
+
+  private clearSettleTimer(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+}
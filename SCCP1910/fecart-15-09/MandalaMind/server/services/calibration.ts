@@ -0,0 +1,140 @@
+import { EventEmitter } from 'events';
+import {
+  BrainwaveData,
+  BrainwaveBaseline,
+  CalibrationStatus,
+  MetricBaseline,
+  NormalizedBrainwave,
+  SampleQuality
+} from '@shared/schema';
+
+export const MIN_CALIBRATION_SECONDS = 30;
+export const MAX_CALIBRATION_SECONDS = 90;
+
+// eSense arrives once per second, so anything below this means the headset was mostly off
+const MIN_BASELINE_SAMPLES = 15;
+// eSense values are integers; a flat baseline would otherwise turn every small change into an extreme score
+const MIN_STANDARD_DEVIATION = 5;
+
+interface ActiveCalibration {
+  sessionId: string;
+  startedAt: number;
+  durationSeconds: number;
+  attention: number[];
+  meditation: number[];
+  timer: NodeJS.Timeout;
+}
+
+function summarize(values: number[]): MetricBaseline {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, variance };
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to ~1.5e-7, plenty for percentiles
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function zScore(value: number, baseline: MetricBaseline): number {
+  const standardDeviation = Math.max(MIN_STANDARD_DEVIATION, Math.sqrt(baseline.variance));
+  return (value - baseline.mean) / standardDeviation;
+}
+
+export function normalizeBrainwaveData(
+  data: Pick<BrainwaveData, 'attention' | 'meditation'>,
+  baseline: BrainwaveBaseline
+): NormalizedBrainwave {
+  const attentionZ = zScore(data.attention, baseline.attention);
+  const meditationZ = zScore(data.meditation, baseline.meditation);
+
+  return {
+    attentionZ: Math.round(attentionZ * 100) / 100,
+    meditationZ: Math.round(meditationZ * 100) / 100,
+    attentionPercentile: Math.round(normalCdf(attentionZ) * 100),
+    meditationPercentile: Math.round(normalCdf(meditationZ) * 100),
+  };
+}
+
+// Collects eSense readings for sessions in their calibration phase and turns them into a baseline
+export class CalibrationManager extends EventEmitter {
+  private active = new Map<string, ActiveCalibration>();
+
+  start(sessionId: string, durationSeconds: number): CalibrationStatus {
+    if (!(durationSeconds >= MIN_CALIBRATION_SECONDS && durationSeconds <= MAX_CALIBRATION_SECONDS)) {
+      throw new Error(`Calibration must last between ${MIN_CALIBRATION_SECONDS} and ${MAX_CALIBRATION_SECONDS} seconds`);
+    }
+
+    // Restarting throws away whatever the previous attempt collected
+    this.cancel(sessionId);
+
+    const calibration: ActiveCalibration = {
+      sessionId,
+      startedAt: Date.now(),
+      durationSeconds,
+      attention: [],
+      meditation: [],
+      timer: setTimeout(() => this.finish(sessionId), durationSeconds * 1000),
+    };
+    this.active.set(sessionId, calibration);
+
+    return this.toStatus(calibration);
+  }
+
+  cancel(sessionId: string): boolean {
+    const calibration = this.active.get(sessionId);
+    if (!calibration) return false;
+
+    clearTimeout(calibration.timer);
+    this.active.delete(sessionId);
+    return true;
+  }
+
+  addSample(data: BrainwaveData, quality: SampleQuality): void {
+    // Artifacts would inflate the variance and make every later reading look ordinary
+    if (!quality.reliable) return;
+
+    this.active.forEach(calibration => {
+      calibration.attention.push(data.attention);
+      calibration.meditation.push(data.meditation);
+    });
+  }
+
+  getStatus(sessionId: string): CalibrationStatus | null {
+    const calibration = this.active.get(sessionId);
+    return calibration ? this.toStatus(calibration) : null;
+  }
+
+  private finish(sessionId: string): void {
+    const calibration = this.active.get(sessionId);
+    if (!calibration) return;
+    this.active.delete(sessionId);
+
+    const sampleCount = calibration.attention.length;
+    if (sampleCount < MIN_BASELINE_SAMPLES) {
+      this.emit('failed', sessionId, `Only ${sampleCount} reliable readings were captured; check the headset and try again`);
+      return;
+    }
+
+    const baseline: BrainwaveBaseline = {
+      attention: summarize(calibration.attention),
+      meditation: summarize(calibration.meditation),
+      sampleCount,
+      durationSeconds: calibration.durationSeconds,
+      calibratedAt: Date.now(),
+    };
+    this.emit('complete', sessionId, baseline);
+  }
+
+  private toStatus(calibration: ActiveCalibration): CalibrationStatus {
+    return {
+      sessionId: calibration.sessionId,
+      startedAt: calibration.startedAt,
+      durationSeconds: calibration.durationSeconds,
+      sampleCount: calibration.attention.length,
+    };
+  }
+}
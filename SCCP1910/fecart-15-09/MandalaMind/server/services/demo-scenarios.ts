@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import type { DemoScenarioSummary } from '@shared/schema';
+
+export const DEMO_SCENARIOS_DIR = path.resolve(process.env.DEMO_SCENARIOS_DIR || 'demo-scenarios');
+
+export const DEFAULT_DEMO_SCENARIO = 'classic';
+
+// A constant, or a linear ramp across the phase with an optional sine wobble on top
+const curveSchema = z.union([
+  z.number(),
+  z.object({
+    from: z.number(),
+    to: z.number(),
+    wobble: z.number().min(0).default(0),
+    periodSeconds: z.number().positive().default(20),
+  }),
+]);
+
+const bandProfileSchema = z.object({
+  delta: z.number().min(0),
+  theta: z.number().min(0),
+  lowAlpha: z.number().min(0),
+  highAlpha: z.number().min(0),
+  lowBeta: z.number().min(0),
+  highBeta: z.number().min(0),
+  lowGamma: z.number().min(0),
+  highGamma: z.number().min(0),
+}).partial();
+
+const phaseSchema = z.object({
+  label: z.string().min(1),
+  durationSeconds: z.number().positive(),
+  attention: curveSchema,
+  meditation: curveSchema,
+  signalQuality: curveSchema.default(90),
+  // Amplitude of the uniform noise added to attention/meditation each tick
+  noise: z.number().min(0).default(10),
+  // Chance per 250ms tick that the contact briefly drops
+  signalDropProbability: z.number().min(0).max(1).default(0.05),
+  blinksPerMinute: z.number().min(0).default(4),
+  // Multipliers on the typical ASIC band powers (1 = typical)
+  bandProfile: bandProfileSchema.default({}),
+});
+
+const scenarioSchema = z.object({
+  description: z.string(),
+  seed: z.number().int().default(1),
+  // Without loop the last phase holds its final values forever
+  loop: z.boolean().default(true),
+  phases: z.array(phaseSchema).min(1),
+});
+
+export type DemoCurve = z.infer<typeof curveSchema>;
+export type DemoBandProfile = z.infer<typeof bandProfileSchema>;
+export type DemoPhase = z.infer<typeof phaseSchema>;
+export type DemoScenario = z.infer<typeof scenarioSchema> & { name: string };
+
+function scenarioPath(name: string): string {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid demo scenario name: ${name}`);
+  }
+  return path.join(DEMO_SCENARIOS_DIR, `${name}.json`);
+}
+
+export function loadDemoScenario(name: string): DemoScenario {
+  const filePath = scenarioPath(name);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Demo scenario not found: ${name}`);
+  }
+
+  try {
+    const scenario = scenarioSchema.parse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+    return { ...scenario, name };
+  } catch (error) {
+    throw new Error(`Invalid demo scenario ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function summarizeDemoScenario(scenario: DemoScenario): DemoScenarioSummary {
+  return {
+    name: scenario.name,
+    description: scenario.description,
+    seed: scenario.seed,
+    loop: scenario.loop,
+    durationSeconds: scenario.phases.reduce((sum, phase) => sum + phase.durationSeconds, 0),
+    phases: scenario.phases.map(phase => ({ label: phase.label, durationSeconds: phase.durationSeconds })),
+  };
+}
+
+// Broken files are skipped (and logged) so one typo doesn't hide every other scenario
+export function listDemoScenarios(): DemoScenarioSummary[] {
+  if (!fs.existsSync(DEMO_SCENARIOS_DIR)) return [];
+
+  return fs.readdirSync(DEMO_SCENARIOS_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      try {
+        return [summarizeDemoScenario(loadDemoScenario(path.basename(file, '.json')))];
+      } catch (error) {
+        console.warn(error instanceof Error ? error.message : error);
+        return [];
+      }
+    });
+}
+
+// mulberry32: small, fast and good enough to make demo runs repeatable
+export function createPrng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function evaluateCurve(curve: DemoCurve, progress: number, secondsIntoPhase: number): number {
+  if (typeof curve === 'number') return curve;
+  return curve.from + (curve.to - curve.from) * progress +
+    curve.wobble * Math.sin((2 * Math.PI * secondsIntoPhase) / curve.periodSeconds);
+}
+
+// Which phase is playing after elapsedSeconds, and how far into it
+export function locatePhase(scenario: DemoScenario, elapsedSeconds: number): { phase: DemoPhase; index: number; progress: number; secondsIntoPhase: number } {
+  const totalSeconds = scenario.phases.reduce((sum, phase) => sum + phase.durationSeconds, 0);
+  if (!scenario.loop && elapsedSeconds >= totalSeconds) {
+    const index = scenario.phases.length - 1;
+    const phase = scenario.phases[index];
+    return { phase, index, progress: 1, secondsIntoPhase: phase.durationSeconds };
+  }
+
+  let remaining = elapsedSeconds % totalSeconds;
+  for (let index = 0; index < scenario.phases.length; index++) {
+    const phase = scenario.phases[index];
+    if (remaining < phase.durationSeconds) {
+      return { phase, index, progress: remaining / phase.durationSeconds, secondsIntoPhase: remaining };
+    }
+    remaining -= phase.durationSeconds;
+  }
+
+  // Floating point leftovers at the very end of the cycle
+  const index = scenario.phases.length - 1;
+  const phase = scenario.phases[index];
+  return { phase, index, progress: 1, secondsIntoPhase: phase.durationSeconds };
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { BrainwaveData, DemoStatus, EegPowerBands } from '@shared/schema';
+import { createPrng, evaluateCurve, locatePhase, type DemoBandProfile, type DemoScenario } from './demo-scenarios';
+import type { EegSource } from './eeg-source';
+
+export interface DemoEegSourceOptions {
+  enableRawOutput?: boolean;
+}
+
+const TICK_SECONDS = 0.25;
+
+// Typical ASIC band powers as [base, random spread]; scenario band profiles scale them
+const TYPICAL_BAND_POWER = {
+  delta: [200000, 100000],
+  theta: [15000, 10000],
+  lowAlpha: [2000, 3000],
+  highAlpha: [1500, 2000],
+  lowBeta: [800, 1200],
+  highBeta: [600, 800],
+  lowGamma: [400, 600],
+  highGamma: [200, 400],
+} as const;
+
+// Simulated headset for testing without hardware, driven by a scenario file and a seed
+export class DemoEegSource extends EventEmitter implements EegSource {
+  readonly kind = 'demo';
+  private demoInterval: NodeJS.Timeout | null = null;
+  private currentData: BrainwaveData | null = null;
+  private demoRawSampleIndex = 0;
+  private enableRawOutput: boolean;
+  private scenario: DemoScenario | null = null;
+  private seed = 0;
+  private random: () => number = Math.random;
+  // Separate stream so toggling raw output doesn't change the eSense sequence
+  private rawRandom: () => number = Math.random;
+  private tick = 0;
+
+  constructor(options: DemoEegSourceOptions = {}) {
+    super();
+    this.enableRawOutput = options.enableRawOutput ?? false;
+  }
+
+  // Starts the scenario from the top; a running demo switches over on its next tick
+  play(scenario: DemoScenario, seed: number): void {
+    this.scenario = scenario;
+    this.seed = seed;
+    this.random = createPrng(seed);
+    this.rawRandom = createPrng(seed ^ 0x5bd1e995);
+    this.tick = 0;
+    this.demoRawSampleIndex = 0;
+  }
+
+  async connect(): Promise<void> {
+    if (this.demoInterval) return;
+    if (!this.scenario) {
+      throw new Error('No demo scenario selected');
+    }
+
+    console.log(`Starting demo scenario ${this.scenario.name} (seed ${this.seed})`);
+    this.emit('connected');
+
+    // Generate realistic demo data every 250ms (4Hz)
+    this.demoInterval = setInterval(() => {
+      this.generateDemoData();
+    }, 250);
+  }
+
+  disconnect(): void {
+    if (!this.demoInterval) return;
+
+    clearInterval(this.demoInterval);
+    this.demoInterval = null;
+    this.emit('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.demoInterval !== null;
+  }
+
+  getCurrentData(): BrainwaveData | null {
+    return this.currentData;
+  }
+
+  getStatus() {
+    return { enableRawOutput: this.enableRawOutput, demo: this.getDemoStatus() };
+  }
+
+  getDemoStatus(): DemoStatus | null {
+    if (!this.scenario) return null;
+
+    const { phase, index } = locatePhase(this.scenario, this.tick * TICK_SECONDS);
+    return { scenario: this.scenario.name, seed: this.seed, phase: phase.label, phaseIndex: index };
+  }
+
+  // Picked up on the next tick
+  setRawOutput(enabled: boolean): void {
+    this.enableRawOutput = enabled;
+  }
+
+  private generateDemoData(): void {
+    const scenario = this.scenario!;
+    const random = this.random;
+    // Scenario time advances per tick rather than by the wall clock, so a seed replays exactly
+    const time = this.tick++ * TICK_SECONDS;
+    const { phase, progress, secondsIntoPhase } = locatePhase(scenario, time);
+
+    const baseAttention = evaluateCurve(phase.attention, progress, secondsIntoPhase);
+    const baseMeditation = evaluateCurve(phase.meditation, progress, secondsIntoPhase);
+    
+    // Add realistic noise and micro-fluctuations
+    const attention = Math.max(0, Math.min(100, Math.round(
+      baseAttention + 
+      phase.noise * (random() - 0.5) + 
+      3 * Math.sin(time * 0.5) + // Breathing influence
+      2 * Math.sin(time * 2) // Micro-movements
+    )));
+    
+    const meditation = Math.max(0, Math.min(100, Math.round(
+      baseMeditation + 
+      (phase.noise * 0.8) * (random() - 0.5) + 
+      4 * Math.cos(time * 0.3) + // Relaxation waves
+      1.5 * Math.cos(time * 1.5) // Natural variance
+    )));
+    
+    // Signal quality with occasional drops (headset movement simulation)
+    let baseSignalQuality = evaluateCurve(phase.signalQuality, progress, secondsIntoPhase);
+    if (random() < phase.signalDropProbability) {
+      baseSignalQuality -= 20 + 15 * random();
+    }
+    
+    const signalQuality = Math.max(0, Math.min(100, Math.round(
+      baseSignalQuality + 6 * (random() - 0.5)
+    )));
+
+    this.currentData = {
+      attention,
+      meditation,
+      signalQuality,
+      timestamp: Date.now()
+    };
+
+    this.emit('data', this.currentData);
+
+    if (random() < phase.blinksPerMinute * TICK_SECONDS / 60) {
+      const strength = Math.round(25 + 40 * random());
+      this.emit('blink', { strength, timestamp: Date.now() });
+    }
+    
+    // Simulate EEG power bands occasionally
+    if (random() < 0.1) { // 10% chance
+      const power: Partial<EegPowerBands> = {};
+      for (const band of Object.keys(TYPICAL_BAND_POWER) as (keyof typeof TYPICAL_BAND_POWER)[]) {
+        const [base, spread] = TYPICAL_BAND_POWER[band];
+        power[band] = Math.round((base + spread * random()) * (phase.bandProfile[band] ?? 1));
+      }
+      this.emit('eegPower', { ...power, timestamp: Date.now() });
+    }
+
+    if (this.enableRawOutput) {
+      this.generateDemoRawEeg(attention, meditation, phase.bandProfile);
+    }
+  }
+
+  // Simulated 512 Hz trace for one 250ms demo tick: alpha grows with meditation,
+  // beta with attention, on top of slow drift and noise; the band profile scales each rhythm
+  private generateDemoRawEeg(attention: number, meditation: number, profile: DemoBandProfile): void {
+    const samplesPerTick = 128;
+    const now = Date.now();
+    const delta = profile.delta ?? 1;
+    const theta = profile.theta ?? 1;
+    const alpha = ((profile.lowAlpha ?? 1) + (profile.highAlpha ?? 1)) / 2;
+    const beta = ((profile.lowBeta ?? 1) + (profile.highBeta ?? 1)) / 2;
+
+    for (let i = 0; i < samplesPerTick; i++) {
+      const t = this.demoRawSampleIndex++ / 512;
+      const value =
+        150 * alpha * (meditation / 100) * Math.sin(2 * Math.PI * 10 * t) +
+        70 * beta * (attention / 100) * Math.sin(2 * Math.PI * 21 * t) +
+        30 * theta * Math.sin(2 * Math.PI * 6 * t) +
+        50 * delta * Math.sin(2 * Math.PI * 1.5 * t) +
+        40 * (this.rawRandom() - 0.5);
+
+      this.emit('rawEeg', {
+        value: Math.round(value),
+        timestamp: now - (samplesPerTick - 1 - i) * (1000 / 512)
+      });
+    }
+  }
+}
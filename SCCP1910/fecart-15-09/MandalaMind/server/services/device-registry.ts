@@ -0,0 +1,244 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { EegSourceManager, type EegSourceManagerConfig } from './eeg-source-manager';
+import { RawEegBuffer } from './raw-eeg-buffer';
+import { ArtifactDetector } from './artifact-detector';
+import { CalibrationManager } from './calibration';
+import { BlinkGestureRecognizer, type BlinkGestureOptions } from './blink-gestures';
+import { FittingWizard } from './fitting';
+import type { DeviceInfo } from '@shared/schema';
+
+export interface DeviceConfig {
+  id: string;
+  name: string;
+  stationId: string;
+  source: EegSourceManagerConfig;
+  gestures: BlinkGestureOptions;
+}
+
+// Everything that holds per-headset state lives on the device, so two visitors never share a
+// detector window, a raw buffer or a calibration
+export interface Device {
+  id: string;
+  name: string;
+  stationId: string;
+  source: EegSourceManager;
+  rawEegBuffer: RawEegBuffer;
+  artifactDetector: ArtifactDetector;
+  calibration: CalibrationManager;
+  gestures: BlinkGestureRecognizer;
+  fitting: FittingWizard;
+  sessionId: string | null;
+}
+
+export const DEFAULT_DEVICE_ID = 'default';
+
+const gestureActionSchema = z.enum(['toggle_recording', 'generate_mandala', 'reset_session', 'none']);
+const gestureActionsSchema = z.object({
+  double_blink: gestureActionSchema,
+  triple_blink: gestureActionSchema,
+}).partial();
+
+const deviceConfigSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'Device ids may only contain letters, digits, _ and -'),
+  name: z.string().min(1).optional(),
+  stationId: z.string().min(1),
+  liveSource: z.enum(['neurosky', 'osc']).optional(),
+  neurosky: z.object({
+    host: z.string(),
+    port: z.number().int().positive(),
+    transport: z.enum(['connector', 'serial']),
+    serialPath: z.string(),
+    stallTimeoutMs: z.number().int().positive(),
+    eSenseStallTimeoutMs: z.number().int().positive(),
+    recoverOnStall: z.boolean(),
+  }).partial().optional(),
+  osc: z.object({
+    host: z.string(),
+    port: z.number().int().positive(),
+  }).partial().optional(),
+  enableRawOutput: z.boolean().optional(),
+  gestures: z.object({
+    enabled: z.boolean(),
+    minStrength: z.number().min(0),
+    minIntervalMs: z.number().int().min(0),
+    maxIntervalMs: z.number().int().positive(),
+    cooldownMs: z.number().int().min(0),
+    actions: gestureActionsSchema,
+  }).partial().optional(),
+});
+
+function defaultDeviceName(liveSource: 'neurosky' | 'osc'): string {
+  return liveSource === 'osc' ? 'Muse headband' : 'NeuroSky headset';
+}
+
+// Reads the device list from EEG_DEVICES (a JSON array, one entry per headset). Without it the
+// server runs a single 'default' device configured by the NEUROSKY_* / OSC_* variables.
+export function deviceConfigsFromEnv(env: NodeJS.ProcessEnv = process.env): DeviceConfig[] {
+  const shared: EegSourceManagerConfig = {
+    enableRawOutput: env.NEUROSKY_RAW_OUTPUT === 'true',
+    spectralWindowSize: env.EEG_FFT_WINDOW ? parseInt(env.EEG_FFT_WINDOW, 10) : undefined,
+    spectralOverlap: env.EEG_FFT_OVERLAP ? parseFloat(env.EEG_FFT_OVERLAP) : undefined,
+  };
+  const neuroskyDefaults = {
+    autoConnect: false,
+    host: env.NEUROSKY_HOST || '127.0.0.1',
+    port: parseInt(env.NEUROSKY_PORT || '13854', 10),
+    transport: env.NEUROSKY_TRANSPORT === 'serial' ? 'serial' as const : 'connector' as const,
+    serialPath: env.NEUROSKY_SERIAL_PATH,
+    recoverOnStall: env.NEUROSKY_RECOVER_ON_STALL === 'true',
+    // Left out when unset so they don't override the service's own defaults
+    ...(env.NEUROSKY_STALL_TIMEOUT_MS ? { stallTimeoutMs: parseInt(env.NEUROSKY_STALL_TIMEOUT_MS, 10) } : {}),
+    ...(env.NEUROSKY_ESENSE_STALL_TIMEOUT_MS ? { eSenseStallTimeoutMs: parseInt(env.NEUROSKY_ESENSE_STALL_TIMEOUT_MS, 10) } : {}),
+  };
+  const gestureDefaults: BlinkGestureOptions = {
+    enabled: env.BLINK_GESTURES !== 'false',
+    ...(env.BLINK_GESTURE_MIN_STRENGTH ? { minStrength: parseInt(env.BLINK_GESTURE_MIN_STRENGTH, 10) } : {}),
+    ...(env.BLINK_GESTURE_MAX_INTERVAL_MS ? { maxIntervalMs: parseInt(env.BLINK_GESTURE_MAX_INTERVAL_MS, 10) } : {}),
+    ...(env.BLINK_GESTURE_COOLDOWN_MS ? { cooldownMs: parseInt(env.BLINK_GESTURE_COOLDOWN_MS, 10) } : {}),
+    // e.g. {"double_blink":"toggle_recording","triple_blink":"reset_session"}
+    ...(env.BLINK_GESTURE_ACTIONS ? { actions: gestureActionsSchema.parse(JSON.parse(env.BLINK_GESTURE_ACTIONS)) } : {}),
+  };
+  const oscDefaults = {
+    host: env.OSC_HOST || '0.0.0.0',
+    port: parseInt(env.OSC_PORT || '5000', 10),
+  };
+
+  if (!env.EEG_DEVICES) {
+    const liveSource = env.EEG_SOURCE === 'osc' ? 'osc' : 'neurosky';
+    return [{
+      id: DEFAULT_DEVICE_ID,
+      name: defaultDeviceName(liveSource),
+      stationId: DEFAULT_DEVICE_ID,
+      source: { ...shared, liveSource, neurosky: neuroskyDefaults, osc: oscDefaults },
+      gestures: gestureDefaults,
+    }];
+  }
+
+  const entries = z.array(deviceConfigSchema).min(1).parse(JSON.parse(env.EEG_DEVICES));
+  return entries.map(entry => {
+    const liveSource = entry.liveSource ?? 'neurosky';
+    return {
+      id: entry.id,
+      name: entry.name ?? defaultDeviceName(liveSource),
+      stationId: entry.stationId,
+      source: {
+        ...shared,
+        enableRawOutput: entry.enableRawOutput ?? shared.enableRawOutput,
+        liveSource,
+        neurosky: { ...neuroskyDefaults, ...entry.neurosky },
+        osc: { ...oscDefaults, ...entry.osc },
+      },
+      gestures: {
+        ...gestureDefaults,
+        ...entry.gestures,
+        actions: { ...gestureDefaults.actions, ...entry.gestures?.actions },
+      },
+    };
+  });
+}
+
+// Keeps one EEG source per headset, each bound to exactly one station and at most one session.
+// Emits 'sessionBound' (device, previousSessionId) whenever a device's session changes.
+export class DeviceRegistry extends EventEmitter {
+  private devices = new Map<string, Device>();
+
+  constructor(configs: DeviceConfig[]) {
+    super();
+    const stations = new Set<string>();
+
+    for (const config of configs) {
+      if (this.devices.has(config.id)) {
+        throw new Error(`Duplicate device id: ${config.id}`);
+      }
+      if (stations.has(config.stationId)) {
+        throw new Error(`Station ${config.stationId} already has a device`);
+      }
+      stations.add(config.stationId);
+
+      this.devices.set(config.id, {
+        id: config.id,
+        name: config.name,
+        stationId: config.stationId,
+        source: new EegSourceManager(config.source),
+        rawEegBuffer: new RawEegBuffer(),
+        artifactDetector: new ArtifactDetector(),
+        calibration: new CalibrationManager(),
+        gestures: new BlinkGestureRecognizer(config.gestures),
+        fitting: new FittingWizard(config.id),
+        sessionId: null,
+      });
+    }
+
+    if (this.devices.size === 0) {
+      throw new Error('At least one EEG device must be configured');
+    }
+  }
+
+  list(): Device[] {
+    return Array.from(this.devices.values());
+  }
+
+  get(id: string): Device | undefined {
+    return this.devices.get(id);
+  }
+
+  // The first configured device; legacy /api/neurosky routes and unsubscribed clients use it
+  getDefault(): Device {
+    return this.list()[0];
+  }
+
+  getByStation(stationId: string): Device | undefined {
+    return this.list().find(device => device.stationId === stationId);
+  }
+
+  getBySession(sessionId: string): Device | undefined {
+    return this.list().find(device => device.sessionId === sessionId);
+  }
+
+  // A session belongs to one device: binding it here releases it from any other device
+  bindSession(deviceId: string, sessionId: string): Device {
+    const device = this.devices.get(deviceId);
+    if (!device) {
+      throw new Error(`Unknown device: ${deviceId}`);
+    }
+
+    const current = this.getBySession(sessionId);
+    if (current && current !== device) {
+      this.setSession(current, null);
+    }
+    if (device.sessionId !== sessionId) {
+      this.setSession(device, sessionId);
+    }
+    return device;
+  }
+
+  unbindSession(deviceId: string): void {
+    const device = this.devices.get(deviceId);
+    if (device?.sessionId) {
+      this.setSession(device, null);
+    }
+  }
+
+  getInfo(device: Device): DeviceInfo {
+    return {
+      id: device.id,
+      name: device.name,
+      stationId: device.stationId,
+      sessionId: device.sessionId,
+      liveSource: device.source.getLiveSourceKind(),
+      source: device.source.getActiveSourceKind(),
+      connected: device.source.getConnectionStatus(),
+    };
+  }
+
+  private setSession(device: Device, sessionId: string | null): void {
+    const previousSessionId = device.sessionId;
+    // A calibration only means something for the visitor who was wearing the headset
+    if (previousSessionId) {
+      device.calibration.cancel(previousSessionId);
+    }
+    device.sessionId = sessionId;
+    this.emit('sessionBound', device, previousSessionId);
+  }
+}
@@ -0,0 +1,274 @@
+// EDF+ codec (https://www.edfplus.info/specs/edfplus.html), continuous recordings only (EDF+C).
+// A file is a 256-byte ASCII header, 256 bytes of header per signal, then data records holding
+// each signal's 16-bit little-endian samples in turn. Annotations travel in an extra
+// "EDF Annotations" signal as time-stamped annotation lists (TALs).
+
+const HEADER_BYTES = 256;
+const SIGNAL_HEADER_BYTES = 256;
+const ANNOTATIONS_LABEL = 'EDF Annotations';
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Per-signal header fields, in file order, with their widths
+const SIGNAL_FIELDS = [
+  ['label', 16],
+  ['transducer', 80],
+  ['physicalDimension', 8],
+  ['physicalMin', 8],
+  ['physicalMax', 8],
+  ['digitalMin', 8],
+  ['digitalMax', 8],
+  ['prefiltering', 80],
+  ['samplesPerRecord', 8],
+  ['reserved', 32],
+] as const;
+
+export interface EdfSignal {
+  label: string;
+  transducer: string;
+  physicalDimension: string;
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin: number;
+  digitalMax: number;
+  prefiltering: string;
+  samplesPerRecord: number;
+  // Physical values, samplesPerRecord of them per data record
+  values: number[];
+}
+
+export interface EdfAnnotation {
+  // Seconds from the start of the recording
+  onset: number;
+  duration?: number;
+  text: string;
+}
+
+export interface EdfRecording {
+  // EDF+ patient subfields: code, sex, birthdate and name, "X" where unknown
+  patient: string;
+  // What follows "Startdate dd-MMM-yyyy": admin code, technician and equipment
+  recording: string;
+  // Written as UTC
+  startTime: Date;
+  recordDurationSeconds: number;
+  signals: EdfSignal[];
+  annotations: EdfAnnotation[];
+}
+
+// Header text is printable US-ASCII, left-aligned and padded with spaces
+function field(value: string, width: number): string {
+  return value.replace(/[^\x20-\x7e]/g, '_').slice(0, width).padEnd(width, ' ');
+}
+
+// Numbers get 8 characters, so decimals are dropped until they fit
+function formatNumber(value: number, width = 8): string {
+  let text = String(value);
+  if (text.length > width) {
+    const integerDigits = String(Math.trunc(value)).length;
+    text = value.toFixed(Math.max(0, width - integerDigits - 1));
+  }
+  if (text.length > width) {
+    throw new Error(`${value} does not fit an EDF header field`);
+  }
+  return text;
+}
+
+function formatSeconds(seconds: number): string {
+  return `${seconds < 0 ? '-' : '+'}${Number(Math.abs(seconds).toFixed(3))}`;
+}
+
+function twoDigits(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// The reserved characters of a TAL can't appear in annotation text
+function annotationText(text: string): string {
+  return text.replace(/[\x00\x14\x15]/g, ' ');
+}
+
+export function createEdf(recording: EdfRecording): Buffer {
+  const { signals, recordDurationSeconds: duration } = recording;
+  const recordCount = signals.length > 0 ? Math.ceil(signals[0].values.length / signals[0].samplesPerRecord) : 0;
+  if (recordCount === 0) {
+    throw new Error('An EDF file needs at least one data record');
+  }
+  for (const signal of signals) {
+    if (signal.values.length !== recordCount * signal.samplesPerRecord) {
+      throw new Error(`Signal ${signal.label} has ${signal.values.length} values, expected ${recordCount * signal.samplesPerRecord}`);
+    }
+  }
+
+  // Every record starts with a timekeeping TAL; annotations go in the record they fall into
+  const tals: string[] = Array.from({ length: recordCount }, (_, record) => `${formatSeconds(record * duration)}\x14\x14\0`);
+  for (const annotation of recording.annotations) {
+    const record = Math.min(recordCount - 1, Math.max(0, Math.floor(annotation.onset / duration)));
+    const durationPart = annotation.duration !== undefined ? `\x15${Number(annotation.duration.toFixed(3))}` : '';
+    tals[record] += `${formatSeconds(annotation.onset)}${durationPart}\x14${annotationText(annotation.text)}\x14\0`;
+  }
+  const annotationSamples = Math.ceil(Math.max(...tals.map(tal => Buffer.byteLength(tal))) / 2);
+
+  const annotationSignal: EdfSignal = {
+    label: ANNOTATIONS_LABEL,
+    transducer: '',
+    physicalDimension: '',
+    physicalMin: -1,
+    physicalMax: 1,
+    digitalMin: -32768,
+    digitalMax: 32767,
+    prefiltering: '',
+    samplesPerRecord: annotationSamples,
+    values: [],
+  };
+  const allSignals = [...signals, annotationSignal];
+
+  const start = recording.startTime;
+  const startDate = `${twoDigits(start.getUTCDate())}-${MONTHS[start.getUTCMonth()]}-${start.getUTCFullYear()}`;
+  const header =
+    field('0', 8) +
+    field(recording.patient, 80) +
+    field(`Startdate ${startDate} ${recording.recording}`, 80) +
+    field(`${twoDigits(start.getUTCDate())}.${twoDigits(start.getUTCMonth() + 1)}.${twoDigits(start.getUTCFullYear() % 100)}`, 8) +
+    field(`${twoDigits(start.getUTCHours())}.${twoDigits(start.getUTCMinutes())}.${twoDigits(start.getUTCSeconds())}`, 8) +
+    field(String(HEADER_BYTES + allSignals.length * SIGNAL_HEADER_BYTES), 8) +
+    field('EDF+C', 44) +
+    field(String(recordCount), 8) +
+    field(formatNumber(duration), 8) +
+    field(String(allSignals.length), 4);
+
+  const signalHeader = SIGNAL_FIELDS.map(([name, width]) => allSignals.map(signal => {
+    if (name === 'reserved') return field('', width);
+    const value = signal[name];
+    return field(typeof value === 'number' ? formatNumber(value, width) : value, width);
+  }).join('')).join('');
+
+  // Samples are scaled with the limits as written, so a reader gets the same values back
+  const scales = signals.map(signal => {
+    const physicalMin = Number(formatNumber(signal.physicalMin));
+    const physicalMax = Number(formatNumber(signal.physicalMax));
+    return { physicalMin, gain: (signal.digitalMax - signal.digitalMin) / (physicalMax - physicalMin) };
+  });
+
+  const recordBytes = allSignals.reduce((sum, signal) => sum + signal.samplesPerRecord * 2, 0);
+  const data = Buffer.alloc(recordCount * recordBytes);
+  let offset = 0;
+  for (let record = 0; record < recordCount; record++) {
+    signals.forEach((signal, index) => {
+      const { physicalMin, gain } = scales[index];
+      for (let i = 0; i < signal.samplesPerRecord; i++) {
+        const value = signal.values[record * signal.samplesPerRecord + i];
+        const digital = Math.round((value - physicalMin) * gain + signal.digitalMin);
+        data.writeInt16LE(Math.min(signal.digitalMax, Math.max(signal.digitalMin, digital)), offset);
+        offset += 2;
+      }
+    });
+    data.write(tals[record], offset, 'utf8');
+    offset += annotationSamples * 2;
+  }
+
+  return Buffer.concat([Buffer.from(header + signalHeader, 'ascii'), data]);
+}
+
+function parseStartTime(date: string, time: string): Date {
+  const [day, month, year] = date.split('.').map(Number);
+  const [hours, minutes, seconds] = time.split('.').map(Number);
+  // EDF's two-digit years cover 1985-2084
+  const fullYear = year >= 85 ? 1900 + year : 2000 + year;
+  const startTime = new Date(Date.UTC(fullYear, month - 1, day, hours, minutes, seconds));
+  if (Number.isNaN(startTime.getTime())) {
+    throw new Error(`EDF start ${date} ${time} is not a date`);
+  }
+  return startTime;
+}
+
+function parseAnnotations(bytes: Buffer): EdfAnnotation[] {
+  const annotations: EdfAnnotation[] = [];
+  for (const tal of bytes.toString('utf8').split('\0')) {
+    const match = tal.match(/^([+-]\d+(?:\.\d+)?)(?:\x15(\d+(?:\.\d+)?))?\x14([\s\S]*)$/);
+    if (!match) continue;
+    // The timekeeping TAL that opens each record carries no text
+    for (const text of match[3].split('\x14').filter(text => text !== '')) {
+      annotations.push({
+        onset: Number(match[1]),
+        ...(match[2] !== undefined ? { duration: Number(match[2]) } : {}),
+        text,
+      });
+    }
+  }
+  return annotations;
+}
+
+export function readEdf(file: Buffer): EdfRecording {
+  if (file.length < HEADER_BYTES) {
+    throw new Error('File is too short to be EDF');
+  }
+  let offset = 0;
+  const read = (width: number) => {
+    const text = file.toString('ascii', offset, offset + width).trim();
+    offset += width;
+    return text;
+  };
+
+  if (read(8) !== '0') {
+    throw new Error('Not an EDF file');
+  }
+  const patient = read(80);
+  const recording = read(80).replace(/^Startdate \S+ ?/, '');
+  const startTime = parseStartTime(read(8), read(8));
+  const headerBytes = parseInt(read(8), 10);
+  read(44);
+  const recordCount = parseInt(read(8), 10);
+  const recordDurationSeconds = Number(read(8));
+  const signalCount = parseInt(read(4), 10);
+  if (headerBytes !== HEADER_BYTES + signalCount * SIGNAL_HEADER_BYTES || !(recordCount >= 0)) {
+    throw new Error('EDF header is inconsistent');
+  }
+
+  const headers: Record<string, string>[] = Array.from({ length: signalCount }, () => ({}));
+  for (const [name, width] of SIGNAL_FIELDS) {
+    for (const header of headers) {
+      header[name] = read(width);
+    }
+  }
+  const allSignals: EdfSignal[] = headers.map(header => ({
+    label: header.label,
+    transducer: header.transducer,
+    physicalDimension: header.physicalDimension,
+    physicalMin: Number(header.physicalMin),
+    physicalMax: Number(header.physicalMax),
+    digitalMin: Number(header.digitalMin),
+    digitalMax: Number(header.digitalMax),
+    prefiltering: header.prefiltering,
+    samplesPerRecord: parseInt(header.samplesPerRecord, 10),
+    values: [],
+  }));
+
+  const recordBytes = allSignals.reduce((sum, signal) => sum + signal.samplesPerRecord * 2, 0);
+  if (file.length < headerBytes + recordCount * recordBytes) {
+    throw new Error('EDF file is truncated');
+  }
+
+  const annotations: EdfAnnotation[] = [];
+  for (let record = 0; record < recordCount; record++) {
+    for (const signal of allSignals) {
+      const bytes = signal.samplesPerRecord * 2;
+      if (signal.label === ANNOTATIONS_LABEL) {
+        annotations.push(...parseAnnotations(file.subarray(offset, offset + bytes)));
+      } else {
+        const gain = (signal.physicalMax - signal.physicalMin) / (signal.digitalMax - signal.digitalMin);
+        for (let i = 0; i < signal.samplesPerRecord; i++) {
+          signal.values.push((file.readInt16LE(offset + i * 2) - signal.digitalMin) * gain + signal.physicalMin);
+        }
+      }
+      offset += bytes;
+    }
+  }
+
+  return {
+    patient,
+    recording,
+    startTime,
+    recordDurationSeconds,
+    signals: allSignals.filter(signal => signal.label !== ANNOTATIONS_LABEL),
+    annotations: annotations.sort((a, b) => a.onset - b.onset),
+  };
+}
@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv';
+import { readEdf, type EdfSignal } from './edf';
+import { DEFAULT_SAMPLE_CSV_COLUMNS, ROLLUP_CSV_COLUMNS, SAMPLE_CSV_COLUMNS, toEegCsv, toEegEdf, type EegExportData } from './eeg-export';
+import type { EegData, EegPower, EegRollup, RawEegSegment, Session, SessionEegResponse, SessionMarker } from '@shared/schema';
+
+const RAW_MICROVOLTS_PER_COUNT = (1.8 / 4096 / 2000) * 1e6;
+// 250 ms past the second, so records start before the first reading
+const START = Date.UTC(2026, 0, 2, 10, 0, 0, 250);
+
+const session: Session = {
+  id: 'session-1',
+  createdAt: new Date(START),
+  attentionLevel: 0,
+  meditationLevel: 0,
+  signalQuality: 0,
+  voiceTranscript: null,
+  aiPrompt: null,
+  mandalaUrl: null,
+  isActive: false,
+  baseline: null,
+  status: 'closed',
+  lastActivityAt: new Date(START),
+  closedAt: new Date(START + 10_000),
+  summary: null,
+};
+
+function sample(offsetMs: number, attention: number, overrides: Partial<EegData> = {}): EegData {
+  return {
+    id: `sample-${offsetMs}`,
+    sessionId: session.id,
+    attention,
+    meditation: 100 - attention,
+    signalQuality: 100,
+    rawData: null,
+    isReliable: true,
+    artifacts: null,
+    timestamp: new Date(START + offsetMs),
+    ...overrides,
+  };
+}
+
+function power(offsetMs: number, delta: number): EegPower {
+  return {
+    id: `power-${offsetMs}`,
+    sessionId: session.id,
+    delta,
+    theta: 2000,
+    lowAlpha: 3000,
+    highAlpha: 4000,
+    lowBeta: 5000,
+    highBeta: 6000,
+    lowGamma: 7000,
+    highGamma: 16777215,
+    timestamp: new Date(START + offsetMs),
+  };
+}
+
+function rawSegment(offsetMs: number, samples: number[]): RawEegSegment {
+  return { id: `raw-${offsetMs}`, sessionId: session.id, sampleRate: 128, samples, timestamp: new Date(START + offsetMs) };
+}
+
+function marker(offsetMs: number, type: string, label: string | null): SessionMarker {
+  return { id: `marker-${offsetMs}`, sessionId: session.id, type, label, source: 'client', data: null, timestamp: new Date(START + offsetMs) };
+}
+
+function rollup(bucketStart: number, attentionMean: number): EegRollup {
+  return {
+    id: `rollup-${bucketStart}`,
+    sessionId: session.id,
+    resolution: '10s',
+    bucketStart: new Date(bucketStart),
+    sampleCount: 10,
+    reliableCount: 9,
+    attentionMean,
+    attentionMin: 10,
+    attentionMax: 90,
+    meditationMean: 40.5,
+    meditationMin: 20,
+    meditationMax: 60,
+    signalQualityMean: 99.9,
+    signalQualityMin: 99,
+    signalQualityMax: 100,
+  };
+}
+
+// One second of ramp, in ADC counts
+const ramp = (from: number) => Array.from({ length: 128 }, (_, i) => from + i * 37);
+
+function rawExport(): EegExportData {
+  return {
+    session,
+    resolution: 'raw',
+    samples: [
+      sample(0, 40, { artifacts: ['blink', 'saturation'] }),
+      sample(1000, 55),
+      sample(2000, 61, { isReliable: false }),
+      sample(5000, 72),
+    ],
+    rollups: [],
+    eegPower: [power(0, 123456), power(1900, 654321)],
+    rawSegments: [rawSegment(0, ramp(-2000)), rawSegment(1000, ramp(-1000))],
+    markers: [marker(1500, 'recording_started', null), marker(3250, 'custom', 'eyes "closed", relaxed')],
+  };
+}
+
+function signal(signals: EdfSignal[], label: string): EdfSignal {
+  const found = signals.find(candidate => candidate.label === label);
+  if (!found) throw new Error(`No ${label} signal`);
+  return found;
+}
+
+function digitalStep(edfSignal: EdfSignal): number {
+  return (edfSignal.physicalMax - edfSignal.physicalMin) / (edfSignal.digitalMax - edfSignal.digitalMin);
+}
+
+function expectWithinStep(edfSignal: EdfSignal, expected: number[]) {
+  expect(edfSignal.values).toHaveLength(expected.length);
+  const step = digitalStep(edfSignal);
+  edfSignal.values.forEach((value, i) => {
+    expect(Math.abs(value - expected[i]), `${edfSignal.label}[${i}]`).toBeLessThanOrEqual(step);
+  });
+}
+
+describe('toEegCsv', () => {
+  it('round-trips samples with the latest band powers through parseCsv', () => {
+    const rows = parseCsv(toEegCsv(rawExport(), SAMPLE_CSV_COLUMNS));
+
+    expect(rows).toHaveLength(4);
+    expect(Object.keys(rows[0])).toEqual(SAMPLE_CSV_COLUMNS);
+    expect(rows.map(row => row.timestamp)).toEqual([0, 1000, 2000, 5000].map(offset => new Date(START + offset).toISOString()));
+    expect(rows.map(row => row.elapsed_ms)).toEqual(['0', '1000', '2000', '5000']);
+    expect(rows.map(row => row.attention)).toEqual(['40', '55', '61', '72']);
+    expect(rows.map(row => row.meditation)).toEqual(['60', '45', '39', '28']);
+    expect(rows.map(row => row.is_reliable)).toEqual(['true', 'true', 'false', 'true']);
+    expect(rows[0].artifacts).toBe('blink saturation');
+    // Powers older than 2 s are left out
+    expect(rows.map(row => row.delta)).toEqual(['123456', '123456', '654321', '']);
+    expect(rows[2].high_gamma).toBe('16777215');
+  });
+
+  it('writes only the requested columns', () => {
+    const rows = parseCsv(toEegCsv(rawExport(), DEFAULT_SAMPLE_CSV_COLUMNS));
+    expect(Object.keys(rows[0])).toEqual(DEFAULT_SAMPLE_CSV_COLUMNS);
+  });
+
+  it('round-trips rollups through parseCsv', () => {
+    const bucket = Date.UTC(2026, 0, 2, 10, 0, 10);
+    const rows = parseCsv(toEegCsv({ ...rawExport(), resolution: '10s', samples: [], rollups: [rollup(bucket, 51.25), rollup(bucket + 10_000, 48)] }, ROLLUP_CSV_COLUMNS));
+
+    expect(Object.keys(rows[0])).toEqual(ROLLUP_CSV_COLUMNS);
+    expect(rows[1]).toEqual({
+      timestamp: new Date(bucket + 10_000).toISOString(),
+      elapsed_ms: '10000',
+      sample_count: '10',
+      reliable_count: '9',
+      attention_mean: '48',
+      attention_min: '10',
+      attention_max: '90',
+      meditation_mean: '40.5',
+      meditation_min: '20',
+      meditation_max: '60',
+      signal_quality_mean: '99.9',
+      signal_quality_min: '99',
+      signal_quality_max: '100',
+    });
+    expect(rows[0].attention_mean).toBe('51.25');
+  });
+});
+
+describe('JSON export', () => {
+  it('round-trips through JSON.parse with dates as ISO strings', () => {
+    const data = rawExport();
+    const response: SessionEegResponse = {
+      resolution: data.resolution,
+      samples: data.samples,
+      rollups: data.rollups,
+      eegPower: data.eegPower,
+      blinks: [],
+      markers: data.markers,
+    };
+    const parsed = JSON.parse(JSON.stringify(response));
+
+    expect(parsed.resolution).toBe('raw');
+    expect(parsed.samples).toEqual(data.samples.map(({ timestamp, ...fields }) => ({ ...fields, timestamp: timestamp.toISOString() })));
+    expect(parsed.eegPower[1]).toEqual({ ...power(1900, 654321), timestamp: new Date(START + 1900).toISOString() });
+    expect(parsed.markers[1].label).toBe('eyes "closed", relaxed');
+  });
+});
+
+describe('toEegEdf', () => {
+  it('round-trips scores, band powers, raw waveform and markers through readEdf', () => {
+    const edf = readEdf(toEegEdf(rawExport())!);
+
+    // Records start on the second before the first reading
+    expect(edf.startTime).toEqual(new Date(Date.UTC(2026, 0, 2, 10, 0, 0)));
+    expect(edf.recordDurationSeconds).toBe(1);
+    expect(edf.recording).toBe('session-1 X MandalaMind');
+    expect(edf.signals.map(edfSignal => edfSignal.label)).toEqual([
+      'Attention', 'Meditation', 'Signal Quality',
+      'Delta', 'Theta', 'Low Alpha', 'High Alpha', 'Low Beta', 'High Beta', 'Low Gamma', 'High Gamma',
+      'EEG Fp1',
+    ]);
+
+    const attention = signal(edf.signals, 'Attention');
+    expect(attention).toMatchObject({ physicalDimension: '%', physicalMin: 0, physicalMax: 100, digitalMin: 0, digitalMax: 1000, samplesPerRecord: 1 });
+    expectWithinStep(attention, [40, 55, 61, 61, 61, 72]);
+    expectWithinStep(signal(edf.signals, 'Meditation'), [60, 45, 39, 39, 39, 28]);
+
+    const delta = signal(edf.signals, 'Delta');
+    expect(delta).toMatchObject({ transducer: 'NeuroSky ThinkGear ASIC', physicalMin: 0, physicalMax: 16777215, digitalMin: -32768, digitalMax: 32767 });
+    expectWithinStep(delta, [123456, 123456, 654321, 654321, 654321, 654321]);
+    expectWithinStep(signal(edf.signals, 'High Gamma'), new Array(6).fill(16777215));
+
+    const raw = signal(edf.signals, 'EEG Fp1');
+    expect(raw).toMatchObject({
+      physicalDimension: 'uV',
+      digitalMin: -32768,
+      digitalMax: 32767,
+      prefiltering: 'Mean of 4 at 512Hz, decimated to 128Hz',
+      samplesPerRecord: 128,
+    });
+    expect(raw.transducer).toContain('live view');
+    expect(digitalStep(raw)).toBeCloseTo(RAW_MICROVOLTS_PER_COUNT, 6);
+    // The waveform starts 250 ms (32 samples) into the first record
+    const counts = [...new Array(32).fill(0), ...ramp(-2000), ...ramp(-1000)];
+    expectWithinStep(raw, [...counts, ...new Array(6 * 128 - counts.length).fill(0)].map(count => count * RAW_MICROVOLTS_PER_COUNT));
+
+    expect(edf.annotations).toEqual([
+      { onset: 1.75, text: 'recording_started' },
+      { onset: 3.5, text: 'custom: eyes "closed", relaxed' },
+    ]);
+  });
+
+  it('lays jittered raw segments back to back and keeps real gaps', () => {
+    const segment = (from: number) => Array.from({ length: 16 }, (_, i) => from + i);
+    const edf = readEdf(toEegEdf({
+      ...rawExport(),
+      samples: [],
+      eegPower: [],
+      markers: [],
+      rawSegments: [
+        // 125 ms apart at 128 Hz, arriving early and late
+        rawSegment(0, segment(100)),
+        rawSegment(160, segment(200)),
+        rawSegment(230, segment(300)),
+        // Resumes after the headset stopped sending for 2 s
+        rawSegment(2500, segment(400)),
+      ],
+    })!);
+
+    const raw = signal(edf.signals, 'EEG Fp1');
+    // Readings of 0 come back a hair below it; || 0 turns the rounded -0 into 0
+    const counts = raw.values.map(value => Math.round(value / RAW_MICROVOLTS_PER_COUNT) || 0);
+    expect(counts.slice(32, 32 + 48)).toEqual([...segment(100), ...segment(200), ...segment(300)]);
+    expect(counts.slice(32 + 48, 32 + 2.5 * 128)).toEqual(new Array(2.5 * 128 - 48).fill(0));
+    expect(counts.slice(32 + 2.5 * 128, 32 + 2.5 * 128 + 16)).toEqual(segment(400));
+    expect(counts).toHaveLength(3 * 128);
+  });
+
+  it('writes 10 s records for the 10 s rollups', () => {
+    const bucket = Date.UTC(2026, 0, 2, 10, 0, 10);
+    const edf = readEdf(toEegEdf({
+      ...rawExport(),
+      resolution: '10s',
+      samples: [],
+      eegPower: [],
+      rawSegments: [],
+      markers: [],
+      rollups: [rollup(bucket, 51.25), rollup(bucket + 20_000, 48.4)],
+    })!);
+
+    expect(edf.startTime).toEqual(new Date(bucket));
+    expect(edf.recordDurationSeconds).toBe(10);
+    expect(edf.signals.map(edfSignal => edfSignal.label)).toEqual(['Attention', 'Meditation', 'Signal Quality']);
+    expectWithinStep(signal(edf.signals, 'Attention'), [51.25, 51.25, 48.4]);
+    expectWithinStep(signal(edf.signals, 'Signal Quality'), [99.9, 99.9, 99.9]);
+  });
+
+  it('returns undefined for a session without EEG', () => {
+    expect(toEegEdf({ ...rawExport(), samples: [], eegPower: [], rawSegments: [] })).toBeUndefined();
+  });
+});
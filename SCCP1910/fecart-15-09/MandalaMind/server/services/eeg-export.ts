@@ -0,0 +1,294 @@
+import { toCsv, type CsvValue } from './csv';
+import { createEdf, type EdfSignal } from './edf';
+import { ROLLUP_BUCKET_MS } from './eeg-write-buffer';
+import type { EegData, EegPower, EegResolution, EegRollup, RawEegSegment, Session, SessionMarker } from '@shared/schema';
+
+// Research exports of a session's EEG: CSV with selectable columns, and EDF+ for analysis tools
+// such as EDFbrowser, MNE or EEGLAB
+
+// A band power reading is put next to a sample only when it arrived at most this long before it
+const POWER_MATCH_WINDOW_MS = 2000;
+
+// ThinkGear raw values are ADC counts; the conversion NeuroSky documents for the TGAM
+const RAW_MICROVOLTS_PER_COUNT = (1.8 / 4096 / 2000) * 1e6;
+// Stored raw segments are the live view's stream: the TGAM's 512 Hz output averaged in groups
+// and decimated by RawEegBuffer
+const THINKGEAR_RAW_SAMPLE_RATE = 512;
+// Segments are laid back to back; one starting later than this after the previous ended opens a
+// new run at its own time, since the headset stopped sending in between
+const RAW_GAP_MS = 1000;
+
+const POWER_BANDS = ['delta', 'theta', 'lowAlpha', 'highAlpha', 'lowBeta', 'highBeta', 'lowGamma', 'highGamma'] as const;
+const POWER_LABELS: Record<typeof POWER_BANDS[number], string> = {
+  delta: 'Delta',
+  theta: 'Theta',
+  lowAlpha: 'Low Alpha',
+  highAlpha: 'High Alpha',
+  lowBeta: 'Low Beta',
+  highBeta: 'High Beta',
+  lowGamma: 'Low Gamma',
+  highGamma: 'High Gamma',
+};
+
+export interface EegExportData {
+  session: Session;
+  resolution: EegResolution;
+  // Filled for raw resolution
+  samples: EegData[];
+  // Filled for the rollup resolutions
+  rollups: EegRollup[];
+  eegPower: EegPower[];
+  rawSegments: RawEegSegment[];
+  markers: SessionMarker[];
+}
+
+// One CSV row: a sample, or a rollup bucket at the coarser resolutions
+interface CsvRow {
+  time: number;
+  values: Record<string, CsvValue>;
+}
+
+// elapsed_ms counts from the first row of the export
+export const SAMPLE_CSV_COLUMNS = [
+  'timestamp',
+  'elapsed_ms',
+  'attention',
+  'meditation',
+  'signal_quality',
+  'is_reliable',
+  'artifacts',
+  'delta',
+  'theta',
+  'low_alpha',
+  'high_alpha',
+  'low_beta',
+  'high_beta',
+  'low_gamma',
+  'high_gamma',
+];
+export const DEFAULT_SAMPLE_CSV_COLUMNS = ['timestamp', 'elapsed_ms', 'attention', 'meditation', 'signal_quality', 'is_reliable'];
+
+// Rollup exports have every column by default
+export const ROLLUP_CSV_COLUMNS = [
+  'timestamp',
+  'elapsed_ms',
+  'sample_count',
+  'reliable_count',
+  'attention_mean',
+  'attention_min',
+  'attention_max',
+  'meditation_mean',
+  'meditation_min',
+  'meditation_max',
+  'signal_quality_mean',
+  'signal_quality_min',
+  'signal_quality_max',
+];
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+export function csvColumnsFor(resolution: EegResolution): string[] {
+  return resolution === 'raw' ? SAMPLE_CSV_COLUMNS : ROLLUP_CSV_COLUMNS;
+}
+
+export function defaultCsvColumnsFor(resolution: EegResolution): string[] {
+  return resolution === 'raw' ? DEFAULT_SAMPLE_CSV_COLUMNS : ROLLUP_CSV_COLUMNS;
+}
+
+function sampleRows(samples: EegData[], eegPower: EegPower[]): CsvRow[] {
+  // Both lists are in time order, so the latest reading at or before each sample is found in one pass
+  let powerIndex = -1;
+  return samples.map(sample => {
+    const time = sample.timestamp.getTime();
+    while (powerIndex + 1 < eegPower.length && eegPower[powerIndex + 1].timestamp.getTime() <= time) {
+      powerIndex++;
+    }
+    const power = powerIndex >= 0 && time - eegPower[powerIndex].timestamp.getTime() <= POWER_MATCH_WINDOW_MS
+      ? eegPower[powerIndex]
+      : undefined;
+
+    return {
+      time,
+      values: {
+        attention: sample.attention,
+        meditation: sample.meditation,
+        signal_quality: sample.signalQuality,
+        is_reliable: sample.isReliable,
+        artifacts: Array.isArray(sample.artifacts) ? sample.artifacts.join(' ') : null,
+        ...Object.fromEntries(POWER_BANDS.map(band => [toSnakeCase(band), power?.[band]])),
+      },
+    };
+  });
+}
+
+function rollupRows(rollups: EegRollup[]): CsvRow[] {
+  return rollups.map(({ id: _id, sessionId: _sessionId, resolution: _resolution, bucketStart, ...metrics }) => ({
+    time: bucketStart.getTime(),
+    values: Object.fromEntries(Object.entries(metrics).map(([name, value]) => [toSnakeCase(name), value])),
+  }));
+}
+
+// columns must come from csvColumnsFor(data.resolution)
+export function toEegCsv(data: EegExportData, columns: string[]): string {
+  const rows = data.resolution === 'raw' ? sampleRows(data.samples, data.eegPower) : rollupRows(data.rollups);
+  const firstTime = rows[0]?.time ?? 0;
+  return toCsv(columns, rows.map(row => columns.map(column => {
+    if (column === 'timestamp') return new Date(row.time).toISOString();
+    if (column === 'elapsed_ms') return row.time - firstTime;
+    return row.values[column];
+  })));
+}
+
+// Spreads readings over a record grid: each record takes the last reading that falls in it, and
+// records without one repeat the reading before (or the first reading, before any arrived)
+function holdPerRecord(readings: { time: number; value: number }[], start: number, recordMs: number, recordCount: number): number[] {
+  const values: (number | undefined)[] = new Array(recordCount).fill(undefined);
+  for (const reading of readings) {
+    const record = Math.floor((reading.time - start) / recordMs);
+    if (record >= 0 && record < recordCount) {
+      values[record] = reading.value;
+    }
+  }
+  let held = readings[0]?.value ?? 0;
+  return values.map(value => (held = value ?? held));
+}
+
+// Places the decimated raw samples at their own rate. Arrival times jitter with Bluetooth
+// delivery, so only a run's first segment is placed by its timestamp (when its first sample
+// arrived) and the rest follow on without holes or overlaps. Stretches the headset didn't
+// cover stay at 0.
+function rawEegValues(segments: RawEegSegment[], sampleRate: number, start: number, length: number): number[] {
+  const values: number[] = new Array(length).fill(0);
+  const gapSamples = RAW_GAP_MS * sampleRate / 1000;
+  let next: number | undefined;
+  for (const segment of segments) {
+    if (segment.sampleRate !== sampleRate) continue;
+    const samples = segment.samples as number[];
+    const arrivalIndex = Math.round((segment.timestamp.getTime() - start) * sampleRate / 1000);
+    const first = next !== undefined && arrivalIndex - next <= gapSamples ? next : arrivalIndex;
+    samples.forEach((sample, i) => {
+      const index = first + i;
+      if (index >= 0 && index < length) {
+        values[index] = sample * RAW_MICROVOLTS_PER_COUNT;
+      }
+    });
+    next = first + samples.length;
+  }
+  return values;
+}
+
+// EDF prefiltering text for the averaging RawEegBuffer does before decimating
+function rawPrefiltering(sampleRate: number): string {
+  const groupSize = THINKGEAR_RAW_SAMPLE_RATE / sampleRate;
+  return groupSize > 1 ? `Mean of ${groupSize} at ${THINKGEAR_RAW_SAMPLE_RATE}Hz, decimated to ${sampleRate}Hz` : '';
+}
+
+// 0-100 scores; a tenth of a point per digital step keeps rollup means as they are stored
+function scoreSignal(label: string, values: number[]): EdfSignal {
+  return {
+    label,
+    transducer: '',
+    physicalDimension: '%',
+    physicalMin: 0,
+    physicalMax: 100,
+    digitalMin: 0,
+    digitalMax: 1000,
+    prefiltering: '',
+    samplesPerRecord: 1,
+    values,
+  };
+}
+
+// Returns undefined when the session has nothing to put in a data record.
+// Signals: attention, meditation and signal quality, then the ThinkGear band powers and the raw
+// waveform when the session has them. Session markers become EDF+ annotations.
+export function toEegEdf(data: EegExportData): Buffer | undefined {
+  const recordMs = data.resolution === 'raw' ? 1000 : ROLLUP_BUCKET_MS[data.resolution];
+  const scores = data.resolution === 'raw'
+    ? data.samples.map(sample => ({
+        time: sample.timestamp.getTime(),
+        attention: sample.attention,
+        meditation: sample.meditation,
+        signalQuality: sample.signalQuality,
+      }))
+    : data.rollups.map(rollup => ({
+        time: rollup.bucketStart.getTime(),
+        attention: rollup.attentionMean,
+        meditation: rollup.meditationMean,
+        signalQuality: rollup.signalQualityMean,
+      }));
+
+  const times = [
+    ...scores.map(score => score.time),
+    ...data.eegPower.map(power => power.timestamp.getTime()),
+    // A raw segment spans from its first sample to its last
+    ...data.rawSegments.flatMap(segment => {
+      const time = segment.timestamp.getTime();
+      return [time, time + ((segment.samples as number[]).length - 1) * 1000 / segment.sampleRate];
+    }),
+  ];
+  if (times.length === 0) return undefined;
+  // Reduced rather than spread: long sessions hold more raw segments than a call takes arguments
+  const start = Math.floor(times.reduce((min, time) => Math.min(min, time)) / recordMs) * recordMs;
+  const recordCount = Math.floor((times.reduce((max, time) => Math.max(max, time)) - start) / recordMs) + 1;
+  const recordSeconds = recordMs / 1000;
+
+  const signals: EdfSignal[] = [];
+  if (scores.length > 0) {
+    const perRecord = (metric: 'attention' | 'meditation' | 'signalQuality') =>
+      holdPerRecord(scores.map(score => ({ time: score.time, value: score[metric] })), start, recordMs, recordCount);
+    signals.push(
+      scoreSignal('Attention', perRecord('attention')),
+      scoreSignal('Meditation', perRecord('meditation')),
+      scoreSignal('Signal Quality', perRecord('signalQuality')),
+    );
+  }
+
+  for (const band of POWER_BANDS) {
+    if (data.eegPower.length === 0) break;
+    signals.push({
+      label: POWER_LABELS[band],
+      transducer: 'NeuroSky ThinkGear ASIC',
+      // The ASIC reports relative, unitless 24-bit band powers
+      physicalDimension: '',
+      physicalMin: 0,
+      physicalMax: 16777215,
+      digitalMin: -32768,
+      digitalMax: 32767,
+      prefiltering: '',
+      samplesPerRecord: 1,
+      values: holdPerRecord(data.eegPower.map(power => ({ time: power.timestamp.getTime(), value: power[band] })), start, recordMs, recordCount),
+    });
+  }
+
+  if (data.rawSegments.length > 0) {
+    const sampleRate = data.rawSegments[0].sampleRate;
+    const samplesPerRecord = sampleRate * recordSeconds;
+    signals.push({
+      label: 'EEG Fp1',
+      transducer: 'NeuroSky dry electrode, live view raw stream',
+      physicalDimension: 'uV',
+      physicalMin: -32768 * RAW_MICROVOLTS_PER_COUNT,
+      physicalMax: 32767 * RAW_MICROVOLTS_PER_COUNT,
+      digitalMin: -32768,
+      digitalMax: 32767,
+      prefiltering: rawPrefiltering(sampleRate),
+      samplesPerRecord,
+      values: rawEegValues(data.rawSegments, sampleRate, start, samplesPerRecord * recordCount),
+    });
+  }
+
+  return createEdf({
+    patient: 'X X X X',
+    recording: `${data.session.id} X MandalaMind`,
+    startTime: new Date(start),
+    recordDurationSeconds: recordSeconds,
+    signals,
+    annotations: data.markers.map(marker => ({
+      onset: (marker.timestamp.getTime() - start) / 1000,
+      text: marker.label ? `${marker.type}: ${marker.label}` : marker.type,
+    })),
+  });
+}
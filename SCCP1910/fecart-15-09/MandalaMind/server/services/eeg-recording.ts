@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+
+// Recordings are NDJSON: one header line, then one { t, message } line per ThinkGear message,
+// where t is milliseconds since the recording started
+export const RECORDING_FORMAT = 'mandalamind-thinkgear-recording';
+export const RECORDING_VERSION = 1;
+export const RECORDINGS_DIR = path.resolve(process.env.RECORDINGS_DIR || 'recordings');
+
+const REPLAY_TICK_MS = 20;
+
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+  source: string;
+}
+
+export interface RecordedMessage {
+  t: number;
+  message: any;
+}
+
+export interface RecordingInfo {
+  name: string;
+  sizeBytes: number;
+  modifiedAt: string;
+}
+
+// Only bare file names are accepted so API callers can't escape the recordings directory
+export function resolveRecordingPath(name: string): string {
+  const fileName = path.basename(name.endsWith('.ndjson') ? name : `${name}.ndjson`);
+  return path.join(RECORDINGS_DIR, fileName);
+}
+
+export function listRecordings(): RecordingInfo[] {
+  if (!fs.existsSync(RECORDINGS_DIR)) return [];
+
+  return fs.readdirSync(RECORDINGS_DIR)
+    .filter(file => file.endsWith('.ndjson'))
+    .map(file => {
+      const stats = fs.statSync(path.join(RECORDINGS_DIR, file));
+      return { name: file, sizeBytes: stats.size, modifiedAt: stats.mtime.toISOString() };
+    })
+    .sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+}
+
+export class EegRecorder {
+  private stream: fs.WriteStream;
+  private startedAt = Date.now();
+  private messageCount = 0;
+  readonly name: string;
+
+  constructor(name: string, source: string) {
+    fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+    const filePath = resolveRecordingPath(name);
+    this.name = path.basename(filePath);
+    if (fs.existsSync(filePath)) {
+      throw new Error(`Recording already exists: ${this.name}`);
+    }
+
+    this.stream = fs.createWriteStream(filePath, { flags: 'wx' });
+    this.stream.on('error', (error) => {
+      console.error(`Error writing EEG recording ${this.name}:`, error);
+    });
+
+    const header: RecordingHeader = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: new Date(this.startedAt).toISOString(),
+      source,
+    };
+    this.stream.write(JSON.stringify(header) + '\n');
+  }
+
+  write(message: any): void {
+    const entry: RecordedMessage = { t: Date.now() - this.startedAt, message };
+    this.stream.write(JSON.stringify(entry) + '\n');
+    this.messageCount++;
+  }
+
+  stop(): Promise<{ name: string; messageCount: number; durationMs: number }> {
+    return new Promise((resolve, reject) => {
+      this.stream.end(() => resolve(this.getStatus()));
+      this.stream.once('error', reject);
+    });
+  }
+
+  getStatus() {
+    return {
+      name: this.name,
+      messageCount: this.messageCount,
+      durationMs: Date.now() - this.startedAt,
+    };
+  }
+}
+
+export class EegReplayer extends EventEmitter {
+  private positionMs = 0;
+  private nextIndex = 0;
+  private speed = 1;
+  private isPaused = false;
+  private timer: NodeJS.Timeout | null = null;
+  private lastTickAt = 0;
+
+  private constructor(
+    readonly name: string,
+    readonly header: RecordingHeader,
+    private entries: RecordedMessage[],
+  ) {
+    super();
+  }
+
+  static async load(name: string): Promise<EegReplayer> {
+    const filePath = resolveRecordingPath(name);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Recording not found: ${path.basename(filePath)}`);
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+    let header: RecordingHeader | null = null;
+    const entries: RecordedMessage[] = [];
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const parsed = JSON.parse(line);
+
+      if (!header) {
+        if (parsed.format !== RECORDING_FORMAT) {
+          throw new Error('File is not a MandalaMind EEG recording');
+        }
+        if (typeof parsed.version !== 'number' || parsed.version > RECORDING_VERSION) {
+          throw new Error(`Unsupported recording version: ${parsed.version}`);
+        }
+        header = parsed;
+        continue;
+      }
+
+      if (typeof parsed.t === 'number' && parsed.message) {
+        entries.push(parsed);
+      }
+    }
+
+    if (!header) {
+      throw new Error('Recording is empty');
+    }
+
+    return new EegReplayer(path.basename(filePath), header, entries);
+  }
+
+  play(speed: number = 1): void {
+    this.setSpeed(speed);
+    this.isPaused = false;
+    this.lastTickAt = Date.now();
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), REPLAY_TICK_MS);
+    }
+  }
+
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    this.lastTickAt = Date.now();
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error('Replay speed must be greater than 0');
+    }
+    this.speed = speed;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    const durationMs = this.entries.length > 0 ? this.entries[this.entries.length - 1].t : 0;
+    return {
+      name: this.name,
+      recordedAt: this.header.startedAt,
+      speed: this.speed,
+      isPaused: this.isPaused,
+      positionMs: Math.min(this.positionMs, durationMs),
+      durationMs,
+      messageCount: this.entries.length,
+    };
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    if (!this.isPaused) {
+      this.positionMs += (now - this.lastTickAt) * this.speed;
+    }
+    this.lastTickAt = now;
+
+    while (this.nextIndex < this.entries.length && this.entries[this.nextIndex].t <= this.positionMs) {
+      this.emit('message', this.entries[this.nextIndex].message);
+      this.nextIndex++;
+    }
+
+    if (this.nextIndex >= this.entries.length) {
+      this.stop();
+      this.emit('end');
+    }
+  }
+}
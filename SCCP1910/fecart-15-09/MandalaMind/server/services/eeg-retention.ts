@@ -0,0 +1,81 @@
+import type { IStorage } from '../storage';
+import { EEG_ROLLUP_RESOLUTIONS, type EegResolution } from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// How many days each tier is kept; 0 keeps it forever. Raw samples go first, the coarsest rollups last.
+export type EegRetentionDays = Record<EegResolution, number>;
+
+export const DEFAULT_EEG_RETENTION_DAYS: EegRetentionDays = {
+  raw: 7,
+  '1s': 90,
+  '10s': 0,
+};
+
+const RETENTION_ENV_VARS: Record<EegResolution, string> = {
+  raw: 'EEG_RAW_RETENTION_DAYS',
+  '1s': 'EEG_1S_RETENTION_DAYS',
+  '10s': 'EEG_10S_RETENTION_DAYS',
+};
+
+export function eegRetentionDaysFromEnv(env: NodeJS.ProcessEnv = process.env): EegRetentionDays {
+  const days = { ...DEFAULT_EEG_RETENTION_DAYS };
+  for (const tier of Object.keys(RETENTION_ENV_VARS) as EegResolution[]) {
+    const value = env[RETENTION_ENV_VARS[tier]];
+    if (value === undefined || value === '') continue;
+
+    const parsed = parseFloat(value);
+    if (!(parsed >= 0)) {
+      throw new Error(`${RETENTION_ENV_VARS[tier]} must be a number of days, got "${value}"`);
+    }
+    days[tier] = parsed;
+  }
+  return days;
+}
+
+// Deletes EEG history that has outlived its tier, once at start and then hourly
+export class EegRetention {
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage, private days: EegRetentionDays = DEFAULT_EEG_RETENTION_DAYS) {}
+
+  start(): void {
+    if (this.pruneInterval) return;
+    const prune = () => {
+      this.prune().catch(error => console.error('Error pruning EEG history:', error));
+    };
+    prune();
+    this.pruneInterval = setInterval(prune, PRUNE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+  }
+
+  // Resolves to the number of rows deleted per tier
+  async prune(now = Date.now()): Promise<Record<EegResolution, number>> {
+    const deleted: Record<EegResolution, number> = { raw: 0, '1s': 0, '10s': 0 };
+    let rawSegments = 0;
+    if (this.days.raw > 0) {
+      const cutoff = new Date(now - this.days.raw * DAY_MS);
+      deleted.raw = await this.storage.deleteEegDataBefore(cutoff);
+      // The raw waveform belongs to the raw tier too
+      rawSegments = await this.storage.deleteRawEegSegmentsBefore(cutoff);
+    }
+    for (const resolution of EEG_ROLLUP_RESOLUTIONS) {
+      if (this.days[resolution] > 0) {
+        deleted[resolution] = await this.storage.deleteEegRollupsBefore(resolution, new Date(now - this.days[resolution] * DAY_MS));
+      }
+    }
+
+    const total = deleted.raw + rawSegments + deleted['1s'] + deleted['10s'];
+    if (total > 0) {
+      console.log(`Pruned EEG history: ${deleted.raw} samples, ${rawSegments} raw segments, ${deleted['1s']} 1s and ${deleted['10s']} 10s rollups`);
+    }
+    return deleted;
+  }
+}
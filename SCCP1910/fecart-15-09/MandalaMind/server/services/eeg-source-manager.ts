@@ -0,0 +1,214 @@
+import { EventEmitter } from 'events';
+import { BrainwaveData, SpectralBandPower } from '@shared/schema';
+import { NeuroSkyService, type NeuroSkyConfig } from './neurosky';
+import { DemoEegSource } from './demo-source';
+import { loadDemoScenario, DEFAULT_DEMO_SCENARIO, type DemoScenario } from './demo-scenarios';
+import { ReplayEegSource } from './replay-source';
+import { OscEegSource, type OscEegSourceOptions } from './osc-source';
+import { SpectralAnalyzer } from './eeg-spectral';
+import type { EegSource, EegSourceKind, RawEegSample } from './eeg-source';
+
+export interface EegSourceManagerConfig {
+  // Which headset connect() talks to: NeuroSky over ThinkGear, or a Muse-style headband over OSC
+  liveSource?: 'neurosky' | 'osc';
+  neurosky?: NeuroSkyConfig;
+  osc?: OscEegSourceOptions;
+  enableRawOutput?: boolean;
+  // FFT settings for band powers computed from rawEeg (window in samples at 512 Hz)
+  spectralWindowSize?: number;
+  spectralOverlap?: number;
+}
+
+const FORWARDED_EVENTS = ['connected', 'disconnected', 'error', 'data', 'eegPower', 'blink', 'replayEnded', 'stalled', 'recovered'];
+
+// Owns the live, demo and replay sources, keeps exactly one of them active and re-emits its
+// events, so routes see a single stream whatever is producing it. Also emits 'rawEeg' and
+// 'spectralPower' (from our FFT or from the device).
+export class EegSourceManager extends EventEmitter {
+  private neurosky: NeuroSkyService;
+  private osc: OscEegSource | null = null;
+  private demo: DemoEegSource;
+  private activeSource: EegSource | null = null;
+  private detachActive: (() => void) | null = null;
+  private spectralAnalyzer: SpectralAnalyzer;
+  private currentSpectralPower: SpectralBandPower | null = null;
+  private enableRawOutput: boolean;
+
+  constructor(config: EegSourceManagerConfig = {}) {
+    super();
+    this.enableRawOutput = config.enableRawOutput ?? false;
+    this.neurosky = new NeuroSkyService({ ...config.neurosky, enableRawOutput: this.enableRawOutput });
+    this.demo = new DemoEegSource({ enableRawOutput: this.enableRawOutput });
+    if (config.liveSource === 'osc') {
+      this.osc = new OscEegSource(config.osc);
+    }
+
+    // Band powers from our own FFT, for sources that lack (or to compare with) the ASIC packet
+    this.spectralAnalyzer = new SpectralAnalyzer({
+      windowSize: config.spectralWindowSize,
+      overlap: config.spectralOverlap
+    });
+    this.spectralAnalyzer.on('bands', (bands: SpectralBandPower) => this.setSpectralPower(bands));
+    this.on('disconnected', () => {
+      this.spectralAnalyzer.reset();
+    });
+  }
+
+  private get liveSource(): EegSource {
+    return this.osc ?? this.neurosky;
+  }
+
+  async connect(): Promise<void> {
+    await this.activate(this.liveSource);
+  }
+
+  disconnect(): void {
+    this.activeSource?.disconnect();
+  }
+
+  // Plays a scenario from demo-scenarios/; the seed defaults to the one in the file
+  async enableDemoMode(options: { scenario?: string; seed?: number } = {}): Promise<DemoScenario> {
+    const scenario = loadDemoScenario(options.scenario ?? DEFAULT_DEMO_SCENARIO);
+    this.demo.play(scenario, options.seed ?? scenario.seed);
+    await this.activate(this.demo);
+    return scenario;
+  }
+
+  disableDemoMode(): void {
+    if (this.activeSource === this.demo) {
+      this.demo.disconnect();
+    }
+  }
+
+  // Replay mode plays a recording back as if it were a live headset
+  async enableReplayMode(recordingName: string, speed: number = 1): Promise<void> {
+    const replay = await ReplayEegSource.load(recordingName, speed);
+    await this.activate(replay);
+  }
+
+  disableReplayMode(): void {
+    if (this.activeSource instanceof ReplayEegSource) {
+      this.activeSource.disconnect();
+    }
+  }
+
+  pauseReplay(): void {
+    this.requireReplay().pause();
+  }
+
+  resumeReplay(): void {
+    this.requireReplay().resume();
+  }
+
+  setReplaySpeed(speed: number): void {
+    this.requireReplay().setSpeed(speed);
+  }
+
+  getReplayStatus() {
+    return this.activeSource instanceof ReplayEegSource ? this.activeSource.getReplayStatus() : null;
+  }
+
+  // Recordings hold ThinkGear messages, so only the NeuroSky source can be recorded
+  startRecording(name?: string) {
+    return this.neurosky.startRecording(name);
+  }
+
+  stopRecording() {
+    return this.neurosky.stopRecording();
+  }
+
+  getConnectionStatus(): boolean {
+    return this.activeSource?.isConnected() ?? false;
+  }
+
+  getCurrentData(): BrainwaveData | null {
+    return this.activeSource?.getCurrentData() ?? null;
+  }
+
+  getCurrentSpectralPower(): SpectralBandPower | null {
+    return this.currentSpectralPower;
+  }
+
+  getActiveSourceKind(): EegSourceKind | null {
+    return this.activeSource?.kind ?? null;
+  }
+
+  getLiveSourceKind(): EegSourceKind {
+    return this.liveSource.kind;
+  }
+
+  getNeuroSkyConfig(): Readonly<NeuroSkyConfig> {
+    return this.neurosky.getConfig();
+  }
+
+  resetReconnectionAttempts(): void {
+    this.neurosky.resetReconnectionAttempts();
+  }
+
+  // Get detailed connection information
+  getConnectionInfo() {
+    const isConnected = this.getConnectionStatus();
+    return {
+      source: this.getActiveSourceKind(),
+      liveSource: this.getLiveSourceKind(),
+      isConnected,
+      isDemoMode: isConnected && this.activeSource === this.demo,
+      demo: isConnected && this.activeSource === this.demo ? this.demo.getDemoStatus() : null,
+      isReplayMode: this.activeSource instanceof ReplayEegSource && isConnected,
+      replay: this.getReplayStatus(),
+      enableRawOutput: this.enableRawOutput,
+      ...this.neurosky.getStatus(),
+      ...(this.osc ? { osc: this.osc.getStatus() } : {})
+    };
+  }
+
+  // Demo mode picks this up immediately; ThinkGear Connector only reads it during the
+  // auth handshake, so a live connection has to be re-established
+  setRawOutput(enabled: boolean): void {
+    this.enableRawOutput = enabled;
+    this.neurosky.setRawOutput(enabled);
+    this.demo.setRawOutput(enabled);
+  }
+
+  isRawOutputEnabled(): boolean {
+    return this.enableRawOutput;
+  }
+
+  private async activate(source: EegSource): Promise<void> {
+    if (this.activeSource !== source) {
+      // Let the old source's 'disconnected' through before detaching it
+      this.activeSource?.disconnect();
+      this.detachActive?.();
+      this.activeSource = source;
+      this.detachActive = this.attach(source);
+    }
+    await source.connect();
+  }
+
+  private attach(source: EegSource): () => void {
+    const listeners = new Map<string, (...args: any[]) => void>();
+    FORWARDED_EVENTS.forEach(event => {
+      listeners.set(event, (...args: any[]) => this.emit(event, ...args));
+    });
+    listeners.set('rawEeg', (sample: RawEegSample) => {
+      this.spectralAnalyzer.push(sample.value, sample.timestamp);
+      this.emit('rawEeg', sample);
+    });
+    listeners.set('bands', (bands: SpectralBandPower) => this.setSpectralPower(bands));
+
+    listeners.forEach((listener, event) => source.on(event, listener));
+    return () => listeners.forEach((listener, event) => source.off(event, listener));
+  }
+
+  private setSpectralPower(bands: SpectralBandPower): void {
+    this.currentSpectralPower = bands;
+    this.emit('spectralPower', bands);
+  }
+
+  private requireReplay(): ReplayEegSource {
+    if (!(this.activeSource instanceof ReplayEegSource)) {
+      throw new Error('Replay mode is not active');
+    }
+    return this.activeSource;
+  }
+}
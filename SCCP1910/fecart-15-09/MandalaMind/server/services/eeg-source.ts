@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events';
+import { BrainwaveData } from '@shared/schema';
+
+export type EegSourceKind = 'neurosky' | 'demo' | 'replay' | 'osc';
+
+export interface RawEegSample {
+  value: number;
+  timestamp: number;
+}
+
+// Every source emits the same events:
+//   'connected' / 'disconnected'
+//   'error'       Error
+//   'data'        BrainwaveData (about once per second)
+//   'eegPower'    EegPowerBands (ThinkGear ASIC bands)
+//   'bands'       SpectralBandPower (band powers the device computed itself, e.g. Muse)
+//   'blink'       BlinkData
+//   'rawEeg'      RawEegSample at 512 Hz
+export interface EegSource extends EventEmitter {
+  readonly kind: EegSourceKind;
+  connect(): Promise<void>;
+  disconnect(): void;
+  isConnected(): boolean;
+  getCurrentData(): BrainwaveData | null;
+  // Source-specific diagnostics for the status endpoint
+  getStatus(): Record<string, unknown>;
+}
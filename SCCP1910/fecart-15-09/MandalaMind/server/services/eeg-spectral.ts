@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events';
+import { SpectralBandPower, SpectralBand } from '@shared/schema';
+
+// Classic clinical bands in Hz; gamma stops below 50/60 Hz mains interference
+export const SPECTRAL_BANDS: Record<SpectralBand, [number, number]> = {
+  delta: [0.5, 4],
+  theta: [4, 8],
+  alpha: [8, 13],
+  beta: [13, 30],
+  gamma: [30, 45],
+};
+
+export interface SpectralAnalyzerOptions {
+  sampleRate?: number;
+  // Samples per FFT window; rounded up to a power of two
+  windowSize?: number;
+  // Fraction of each window shared with the next one (0 to 0.9)
+  overlap?: number;
+}
+
+export function hannWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (length - 1)));
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT; length must be a power of two
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const evenIndex = start + k;
+        const oddIndex = start + k + size / 2;
+        const oddRe = re[oddIndex] * wRe - im[oddIndex] * wIm;
+        const oddIm = re[oddIndex] * wIm + im[oddIndex] * wRe;
+
+        re[oddIndex] = re[evenIndex] - oddRe;
+        im[oddIndex] = im[evenIndex] - oddIm;
+        re[evenIndex] += oddRe;
+        im[evenIndex] += oddIm;
+
+        const nextWRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextWRe;
+      }
+    }
+  }
+}
+
+// Hann-windowed periodogram summed over each band
+export function computeBandPowers(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  window: Float64Array = hannWindow(samples.length),
+): Record<SpectralBand, number> {
+  const n = samples.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+
+  // Remove the DC offset so it doesn't leak into delta
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += samples[i];
+  mean /= n;
+
+  let windowEnergy = 0;
+  for (let i = 0; i < n; i++) {
+    re[i] = (samples[i] - mean) * window[i];
+    windowEnergy += window[i] * window[i];
+  }
+
+  fft(re, im);
+
+  const binWidth = sampleRate / n;
+  const powers = { delta: 0, theta: 0, alpha: 0, beta: 0, gamma: 0 };
+
+  for (let k = 1; k < n / 2; k++) {
+    const frequency = k * binWidth;
+    // One-sided power spectral density
+    const density = (2 * (re[k] * re[k] + im[k] * im[k])) / (sampleRate * windowEnergy);
+
+    for (const band of Object.keys(SPECTRAL_BANDS) as SpectralBand[]) {
+      const [low, high] = SPECTRAL_BANDS[band];
+      if (frequency >= low && frequency < high) {
+        powers[band] += density * binWidth;
+        break;
+      }
+    }
+  }
+
+  return powers;
+}
+
+// Adds relative shares and the usual ratios to absolute band powers
+export function toSpectralBandPower(
+  powers: Record<SpectralBand, number>,
+  source: SpectralBandPower['source'],
+  windowSeconds: number,
+  timestamp: number,
+): SpectralBandPower {
+  const total = Object.values(powers).reduce((sum, power) => sum + power, 0) || 1;
+  const ratio = (numerator: number, denominator: number) =>
+    denominator > 0 ? numerator / denominator : 0;
+
+  return {
+    ...powers,
+    relative: {
+      delta: powers.delta / total,
+      theta: powers.theta / total,
+      alpha: powers.alpha / total,
+      beta: powers.beta / total,
+      gamma: powers.gamma / total,
+    },
+    ratios: {
+      alphaTheta: ratio(powers.alpha, powers.theta),
+      betaAlpha: ratio(powers.beta, powers.alpha),
+      thetaBeta: ratio(powers.theta, powers.beta),
+    },
+    source,
+    windowSeconds,
+    timestamp,
+  };
+}
+
+export class SpectralAnalyzer extends EventEmitter {
+  private readonly sampleRate: number;
+  private readonly windowSize: number;
+  private readonly hopSize: number;
+  private readonly window: Float64Array;
+  private readonly samples: Float64Array;
+  private filled = 0;
+  private sinceLastWindow = 0;
+
+  constructor(options: SpectralAnalyzerOptions = {}) {
+    super();
+    this.sampleRate = options.sampleRate ?? 512;
+    this.windowSize = 2 ** Math.ceil(Math.log2(Math.max(64, options.windowSize ?? 512)));
+    const overlap = Math.min(0.9, Math.max(0, options.overlap ?? 0.5));
+    this.hopSize = Math.max(1, Math.round(this.windowSize * (1 - overlap)));
+    this.window = hannWindow(this.windowSize);
+    this.samples = new Float64Array(this.windowSize);
+  }
+
+  push(value: number, timestamp: number = Date.now()): void {
+    // Sliding window: shift is cheap enough at 512 Hz and keeps samples in order for the FFT
+    if (this.filled < this.windowSize) {
+      this.samples[this.filled++] = value;
+    } else {
+      this.samples.copyWithin(0, 1);
+      this.samples[this.windowSize - 1] = value;
+    }
+    this.sinceLastWindow++;
+
+    if (this.filled === this.windowSize && this.sinceLastWindow >= this.hopSize) {
+      this.sinceLastWindow = 0;
+      this.emit('bands', this.analyze(timestamp));
+    }
+  }
+
+  reset(): void {
+    this.filled = 0;
+    this.sinceLastWindow = 0;
+  }
+
+  private analyze(timestamp: number): SpectralBandPower {
+    const powers = computeBandPowers(this.samples, this.sampleRate, this.window);
+    return toSpectralBandPower(powers, 'fft', this.windowSize / this.sampleRate, timestamp);
+  }
+}
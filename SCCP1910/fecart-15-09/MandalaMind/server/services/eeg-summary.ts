@@ -0,0 +1,82 @@
+import { BrainwaveBaseline, BrainwaveWindowSummary, EegData, MetricSummary } from '@shared/schema';
+import { normalizeBrainwaveData } from './calibration';
+
+// Fixed eSense cut-off for "high" when the session has no baseline
+const HIGH_LEVEL = 70;
+// Baseline percentile counted as "high" for calibrated sessions
+const HIGH_PERCENTILE = 80;
+// A gap longer than this (headset off, connection lost) isn't counted as time spent in a state
+const MAX_SAMPLE_GAP_MS = 2000;
+
+function summarizeMetric(values: number[], minutes: number[]): MetricSummary {
+  const count = values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(count / 2);
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / count;
+
+  // Least-squares slope against time, in eSense points per minute
+  const meanMinute = minutes.reduce((sum, minute) => sum + minute, 0) / count;
+  let covariance = 0;
+  let minuteVariance = 0;
+  for (let i = 0; i < count; i++) {
+    covariance += (minutes[i] - meanMinute) * (values[i] - mean);
+    minuteVariance += (minutes[i] - meanMinute) ** 2;
+  }
+
+  return {
+    mean: Math.round(mean * 10) / 10,
+    median: count % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    min: sorted[0],
+    max: sorted[count - 1],
+    variance: Math.round(variance * 10) / 10,
+    trendPerMinute: minuteVariance > 0 ? Math.round((covariance / minuteVariance) * 10) / 10 : 0,
+  };
+}
+
+// Summarizes the stored samples of one capture window (oldest first, already inside
+// [startedAt, endedAt]); null when there are none
+export function summarizeEegWindow(
+  windowSamples: EegData[],
+  startedAt: number,
+  endedAt: number,
+  baseline?: BrainwaveBaseline | null
+): BrainwaveWindowSummary | null {
+  if (windowSamples.length === 0) return null;
+
+  const firstTime = windowSamples[0].timestamp.getTime();
+  const minutes = windowSamples.map(sample => (sample.timestamp.getTime() - firstTime) / 60000);
+
+  const isHigh = (sample: EegData) => {
+    if (!baseline) {
+      return { attention: sample.attention > HIGH_LEVEL, meditation: sample.meditation > HIGH_LEVEL };
+    }
+    const normalized = normalizeBrainwaveData(sample, baseline);
+    return {
+      attention: normalized.attentionPercentile >= HIGH_PERCENTILE,
+      meditation: normalized.meditationPercentile >= HIGH_PERCENTILE,
+    };
+  };
+
+  // Each sample holds until the next one (or the end of the window)
+  let highAttentionMs = 0;
+  let highMeditationMs = 0;
+  windowSamples.forEach((sample, index) => {
+    const nextTime = index + 1 < windowSamples.length ? windowSamples[index + 1].timestamp.getTime() : endedAt;
+    const heldMs = Math.min(MAX_SAMPLE_GAP_MS, nextTime - sample.timestamp.getTime());
+    const high = isHigh(sample);
+    if (high.attention) highAttentionMs += heldMs;
+    if (high.meditation) highMeditationMs += heldMs;
+  });
+
+  return {
+    startedAt,
+    endedAt,
+    sampleCount: windowSamples.length,
+    attention: summarizeMetric(windowSamples.map(sample => sample.attention), minutes),
+    meditation: summarizeMetric(windowSamples.map(sample => sample.meditation), minutes),
+    signalQuality: Math.round(windowSamples.reduce((sum, sample) => sum + sample.signalQuality, 0) / windowSamples.length),
+    highAttentionSeconds: Math.round(highAttentionMs / 100) / 10,
+    highMeditationSeconds: Math.round(highMeditationMs / 100) / 10,
+  };
+}
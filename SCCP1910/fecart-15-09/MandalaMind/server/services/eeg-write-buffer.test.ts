@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemStorage } from '../storage';
+import { EegWriteBuffer, MAX_WRITE_ATTEMPTS, type BufferedEegSample } from './eeg-write-buffer';
+
+function sample(sessionId: string, timestamp: Date): BufferedEegSample {
+  return { sessionId, attention: 50, meditation: 60, signalQuality: 0, timestamp };
+}
+
+describe('EegWriteBuffer failed writes', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps samples whose write failed and writes them on the next flush', async () => {
+    const storage = new MemStorage();
+    const { id } = await storage.createSession({});
+    const writeBatch = vi.spyOn(storage, 'addEegDataBatch').mockRejectedValueOnce(new Error('connection reset'));
+    const buffer = new EegWriteBuffer(storage);
+
+    buffer.add(sample(id, new Date()));
+    buffer.add(sample(id, new Date()));
+    await buffer.flush();
+    expect(await storage.getEegDataForSession(id)).toHaveLength(0);
+
+    await buffer.flush();
+    expect(writeBatch).toHaveBeenCalledTimes(2);
+    expect(await storage.getEegDataForSession(id)).toHaveLength(2);
+  });
+
+  it('drops samples storage keeps refusing without holding back rollups, raw segments or later samples', async () => {
+    const storage = new MemStorage();
+    const { id } = await storage.createSession({});
+    const writeBatch = vi.spyOn(storage, 'addEegDataBatch').mockRejectedValue(new Error('constraint violation'));
+    const buffer = new EegWriteBuffer(storage);
+
+    buffer.add(sample(id, new Date(Date.now() - 60 * 1000)));
+    buffer.addRaw({ sessionId: id, samples: [1, 2, 3], sampleRate: 128, timestamp: new Date() });
+    await buffer.flush();
+    expect(await storage.getEegRollupsForSession(id, '1s')).toHaveLength(1);
+    expect(await storage.getRawEegSegmentsForSession(id)).toHaveLength(1);
+
+    for (let attempt = 1; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      await buffer.flush();
+    }
+    expect(writeBatch).toHaveBeenCalledTimes(MAX_WRITE_ATTEMPTS);
+    expect(console.error).toHaveBeenLastCalledWith(
+      `Dropped 1 buffered EEG samples after ${MAX_WRITE_ATTEMPTS} failed writes:`,
+      expect.any(Error),
+    );
+
+    // The dropped batch is gone, so a recovered storage only receives what came after it
+    writeBatch.mockRestore();
+    buffer.add(sample(id, new Date()));
+    await buffer.flush();
+    expect(await storage.getEegDataForSession(id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,212 @@
+import type { IStorage } from '../storage';
+import { EEG_ROLLUP_RESOLUTIONS, type EegRollupResolution, type InsertEegData, type InsertEegRollup, type InsertRawEegSegment } from '@shared/schema';
+
+export const DEFAULT_EEG_FLUSH_INTERVAL_MS = 1000;
+
+export const ROLLUP_BUCKET_MS: Record<EegRollupResolution, number> = {
+  '1s': 1000,
+  '10s': 10000,
+};
+
+// Flush early once this many samples are waiting; also the most rows sent in one insert
+const MAX_BATCH_SIZE = 500;
+// A batch storage keeps refusing is dropped after this many flushes so it can't block the rows behind it
+export const MAX_WRITE_ATTEMPTS = 5;
+// While storage is down each queue keeps at most this many rows, dropping the oldest beyond it
+export const MAX_QUEUED_ROWS = 50000;
+
+export type BufferedEegSample = InsertEegData & { sessionId: string; timestamp: Date };
+export type BufferedRawEegSegment = InsertRawEegSegment & { sessionId: string; timestamp: Date };
+
+export interface EegWriteBufferOptions {
+  flushIntervalMs?: number;
+  // Told which sessions just had samples written, e.g. to keep streaming sessions from idling out
+  onSamplesWritten?: (sessionIds: string[]) => void;
+}
+
+interface MetricAccumulator {
+  sum: number;
+  min: number;
+  max: number;
+}
+
+interface RollupBucket {
+  sessionId: string;
+  resolution: EegRollupResolution;
+  bucketStart: number;
+  sampleCount: number;
+  reliableCount: number;
+  attention: MetricAccumulator;
+  meditation: MetricAccumulator;
+  signalQuality: MetricAccumulator;
+}
+
+function accumulate(metric: MetricAccumulator | undefined, value: number): MetricAccumulator {
+  if (!metric) return { sum: value, min: value, max: value };
+  return { sum: metric.sum + value, min: Math.min(metric.min, value), max: Math.max(metric.max, value) };
+}
+
+function toRollup(bucket: RollupBucket): InsertEegRollup {
+  const mean = (metric: MetricAccumulator) => Math.round((metric.sum / bucket.sampleCount) * 10) / 10;
+  return {
+    sessionId: bucket.sessionId,
+    resolution: bucket.resolution,
+    bucketStart: new Date(bucket.bucketStart),
+    sampleCount: bucket.sampleCount,
+    reliableCount: bucket.reliableCount,
+    attentionMean: mean(bucket.attention),
+    attentionMin: bucket.attention.min,
+    attentionMax: bucket.attention.max,
+    meditationMean: mean(bucket.meditation),
+    meditationMin: bucket.meditation.min,
+    meditationMax: bucket.meditation.max,
+    signalQualityMean: mean(bucket.signalQuality),
+    signalQualityMin: bucket.signalQuality.min,
+    signalQualityMax: bucket.signalQuality.max,
+  };
+}
+
+// Rows of one kind waiting for storage, written in batches in the order they were added
+class WriteQueue<T> {
+  private rows: T[] = [];
+  private failedAttempts = 0;
+
+  constructor(
+    private label: string,
+    private insert: (batch: T[]) => Promise<void>,
+    private onWritten: (batch: T[]) => void = () => {},
+  ) {}
+
+  // Returns the number of rows now waiting
+  push(row: T): number {
+    return this.rows.push(row);
+  }
+
+  async write(): Promise<void> {
+    if (this.rows.length > MAX_QUEUED_ROWS) {
+      const dropped = this.rows.splice(0, this.rows.length - MAX_QUEUED_ROWS);
+      this.failedAttempts = 0;
+      console.error(`Dropped ${dropped.length} buffered ${this.label}: more than ${MAX_QUEUED_ROWS} were waiting for storage`);
+    }
+
+    while (this.rows.length > 0) {
+      const batch = this.rows.slice(0, MAX_BATCH_SIZE);
+      try {
+        await this.insert(batch);
+      } catch (error) {
+        this.failedAttempts++;
+        if (this.failedAttempts < MAX_WRITE_ATTEMPTS) {
+          console.error(`Error writing buffered ${this.label}:`, error);
+        } else {
+          this.rows.splice(0, batch.length);
+          this.failedAttempts = 0;
+          console.error(`Dropped ${batch.length} buffered ${this.label} after ${MAX_WRITE_ATTEMPTS} failed writes:`, error);
+        }
+        return;
+      }
+      this.rows.splice(0, batch.length);
+      this.failedAttempts = 0;
+      this.onWritten(batch);
+    }
+  }
+}
+
+// Write-behind for EEG samples: they are collected in memory and inserted in batches on an
+// interval rather than one insert per sample. On the way in, each sample is also folded into its
+// 1 s and 10 s rollup buckets, which are written once their time span has passed. Raw waveform
+// segments, which arrive about ten times a second, go out with the same flushes. Samples, raw
+// segments and rollups are queued separately, so a failing write of one kind doesn't hold back the others.
+export class EegWriteBuffer {
+  private pending: WriteQueue<BufferedEegSample>;
+  private pendingRaw: WriteQueue<BufferedRawEegSegment>;
+  private buckets = new Map<string, RollupBucket>();
+  private finishedRollups: WriteQueue<InsertEegRollup>;
+  private flushInterval: NodeJS.Timeout | null = null;
+  // Flushes run one after another so batches reach storage in the order they were taken
+  private flushing: Promise<void> = Promise.resolve();
+  private flushIntervalMs: number;
+
+  constructor(storage: IStorage, options: EegWriteBufferOptions = {}) {
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_EEG_FLUSH_INTERVAL_MS;
+    const onSamplesWritten = options.onSamplesWritten ?? (() => {});
+    this.pending = new WriteQueue('EEG samples', batch => storage.addEegDataBatch(batch), batch => {
+      onSamplesWritten(Array.from(new Set(batch.map(sample => sample.sessionId))));
+    });
+    this.pendingRaw = new WriteQueue('raw EEG segments', batch => storage.addRawEegSegments(batch));
+    this.finishedRollups = new WriteQueue('EEG rollups', batch => storage.addEegRollups(batch));
+  }
+
+  // An early flush goes out each time another full batch has built up; while storage is failing,
+  // the interval alone retries, so a backlog doesn't turn every new sample into another attempt
+  add(sample: BufferedEegSample): void {
+    const waiting = this.pending.push(sample);
+    for (const resolution of EEG_ROLLUP_RESOLUTIONS) {
+      this.addToBucket(sample, resolution);
+    }
+    if (waiting === MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  addRaw(segment: BufferedRawEegSegment): void {
+    if (this.pendingRaw.push(segment) === MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  start(): void {
+    if (this.flushInterval) return;
+    this.flushInterval = setInterval(() => this.flush(), this.flushIntervalMs);
+  }
+
+  // Writes out everything left, including rollup buckets whose time span hasn't ended yet
+  async stop(): Promise<void> {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    await this.flush(true);
+  }
+
+  // Reads of stored samples wait for this so they include everything taken so far. Never rejects:
+  // failed writes are logged and retried on the next flush, up to MAX_WRITE_ATTEMPTS.
+  flush(closeAllBuckets = false): Promise<void> {
+    this.flushing = this.flushing.then(() => this.write(closeAllBuckets));
+    return this.flushing;
+  }
+
+  private addToBucket(sample: BufferedEegSample, resolution: EegRollupResolution): void {
+    const bucketMs = ROLLUP_BUCKET_MS[resolution];
+    const bucketStart = Math.floor(sample.timestamp.getTime() / bucketMs) * bucketMs;
+    const key = `${sample.sessionId}:${resolution}:${bucketStart}`;
+    const bucket = this.buckets.get(key);
+
+    this.buckets.set(key, {
+      sessionId: sample.sessionId,
+      resolution,
+      bucketStart,
+      sampleCount: (bucket?.sampleCount ?? 0) + 1,
+      reliableCount: (bucket?.reliableCount ?? 0) + (sample.isReliable === false ? 0 : 1),
+      attention: accumulate(bucket?.attention, sample.attention),
+      meditation: accumulate(bucket?.meditation, sample.meditation),
+      signalQuality: accumulate(bucket?.signalQuality, sample.signalQuality),
+    });
+  }
+
+  private closeBuckets(closeAll: boolean): void {
+    const now = Date.now();
+    for (const [key, bucket] of Array.from(this.buckets.entries())) {
+      if (closeAll || bucket.bucketStart + ROLLUP_BUCKET_MS[bucket.resolution] <= now) {
+        this.finishedRollups.push(toRollup(bucket));
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  private async write(closeAllBuckets: boolean): Promise<void> {
+    this.closeBuckets(closeAllBuckets);
+    await this.pending.write();
+    await this.pendingRaw.write();
+    await this.finishedRollups.write();
+  }
+}
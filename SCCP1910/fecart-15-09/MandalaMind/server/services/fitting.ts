@@ -0,0 +1,221 @@
+import { EventEmitter } from 'events';
+import {
+  BlinkData,
+  BrainwaveData,
+  FittingAttempt,
+  FittingAttemptsSummary,
+  FittingIssue,
+  FittingOutcome,
+  FittingStatus,
+  FittingStep
+} from '@shared/schema';
+
+export const MIN_FITTING_STABLE_SECONDS = 5;
+export const MAX_FITTING_STABLE_SECONDS = 60;
+export const DEFAULT_FITTING_STABLE_SECONDS = 10;
+
+// Give up on an attempt after this long; staff can always start another
+const MAX_FITTING_SECONDS = 180;
+// ThinkGear reports 200 when the forehead sensor isn't touching skin
+const NO_CONTACT_POOR_SIGNAL = 200;
+// 0 is a clean signal; a persistently raised level with the sensor on points at the ear clip
+const GOOD_POOR_SIGNAL = 25;
+// A swing this large between consecutive readings means something moved
+const MOVEMENT_POOR_SIGNAL_JUMP = 50;
+const RAW_WINDOW_MS = 1000;
+// The ADC clips around ±2048; eye blinks stay well inside this peak-to-peak range
+const MOVEMENT_RAW_PEAK_TO_PEAK = 1500;
+const SATURATION_LEVEL = 2000;
+// Mostly clipped raw data means the sensor is floating
+const NO_CONTACT_SATURATED_FRACTION = 0.5;
+const MOVEMENT_SATURATED_FRACTION = 0.05;
+
+const STEP_FOR_ISSUE: Record<FittingIssue, FittingStep> = {
+  no_contact: 'contact',
+  ear_clip_loose: 'ear_clip',
+  movement: 'stillness',
+  no_blink: 'blink',
+};
+
+interface ActiveFitting {
+  sessionId: string | null;
+  startedAt: number;
+  requiredStableSeconds: number;
+  issue: FittingIssue | null;
+  stableSince: number | null;
+  lastEvaluatedAt: number;
+  issueSeconds: Record<FittingIssue, number>;
+  poorSignalLevel: number | null;
+  blinkDetected: boolean;
+  timer: NodeJS.Timeout;
+}
+
+// Guides one headset fitting at a time: every reading is checked for contact, ear clip noise,
+// movement and a confirming blink, until all checks pass for requiredStableSeconds.
+// Emits 'progress' (FittingStatus) after each reading and 'finished' (FittingStatus, issueSeconds).
+export class FittingWizard extends EventEmitter {
+  private active: ActiveFitting | null = null;
+  private rawWindow: { timestamp: number; value: number }[] = [];
+
+  constructor(private deviceId: string) {
+    super();
+  }
+
+  start(requiredStableSeconds: number, sessionId: string | null): FittingStatus {
+    if (!(requiredStableSeconds >= MIN_FITTING_STABLE_SECONDS && requiredStableSeconds <= MAX_FITTING_STABLE_SECONDS)) {
+      throw new Error(`The signal must be stable for between ${MIN_FITTING_STABLE_SECONDS} and ${MAX_FITTING_STABLE_SECONDS} seconds`);
+    }
+
+    // Starting over still logs the abandoned attempt
+    this.finish('cancelled');
+
+    const now = Date.now();
+    this.active = {
+      sessionId,
+      startedAt: now,
+      requiredStableSeconds,
+      issue: 'no_contact',
+      stableSince: null,
+      lastEvaluatedAt: now,
+      issueSeconds: { no_contact: 0, ear_clip_loose: 0, movement: 0, no_blink: 0 },
+      poorSignalLevel: null,
+      blinkDetected: false,
+      timer: setTimeout(() => this.finish('timed_out'), MAX_FITTING_SECONDS * 1000),
+    };
+    return this.toStatus(this.active);
+  }
+
+  cancel(): boolean {
+    return this.finish('cancelled');
+  }
+
+  // The headset went away mid-fitting
+  handleDisconnect(): void {
+    this.finish('disconnected');
+    this.rawWindow = [];
+  }
+
+  getStatus(): FittingStatus | null {
+    return this.active ? this.toStatus(this.active) : null;
+  }
+
+  recordRawSample(value: number, timestamp: number): void {
+    if (!this.active) return;
+    this.rawWindow.push({ timestamp, value });
+    while (this.rawWindow.length > 0 && this.rawWindow[0].timestamp < timestamp - RAW_WINDOW_MS) {
+      this.rawWindow.shift();
+    }
+  }
+
+  recordBlink(_blink: BlinkData): void {
+    if (this.active) {
+      this.active.blinkDetected = true;
+    }
+  }
+
+  addSample(data: BrainwaveData): void {
+    const fitting = this.active;
+    if (!fitting) return;
+
+    const now = Date.now();
+    // Sources without poorSignalLevel only report 0-100 quality
+    const poorSignalLevel = data.poorSignalLevel ?? Math.round(((100 - data.signalQuality) / 100) * 200);
+    const previousPoorSignal = fitting.poorSignalLevel;
+    fitting.poorSignalLevel = poorSignalLevel;
+
+    const raw = this.rawStats(now);
+    let issue: FittingIssue | null = null;
+    if (poorSignalLevel >= NO_CONTACT_POOR_SIGNAL || (raw && raw.saturatedFraction >= NO_CONTACT_SATURATED_FRACTION)) {
+      issue = 'no_contact';
+    } else if (
+      (previousPoorSignal !== null && Math.abs(poorSignalLevel - previousPoorSignal) >= MOVEMENT_POOR_SIGNAL_JUMP) ||
+      (raw && (raw.peakToPeak >= MOVEMENT_RAW_PEAK_TO_PEAK || raw.saturatedFraction >= MOVEMENT_SATURATED_FRACTION))
+    ) {
+      issue = 'movement';
+    } else if (poorSignalLevel > GOOD_POOR_SIGNAL) {
+      issue = 'ear_clip_loose';
+    } else if (!fitting.blinkDetected) {
+      issue = 'no_blink';
+    }
+
+    if (fitting.issue) {
+      fitting.issueSeconds[fitting.issue] += (now - fitting.lastEvaluatedAt) / 1000;
+    }
+    fitting.lastEvaluatedAt = now;
+    fitting.issue = issue;
+    fitting.stableSince = issue ? null : fitting.stableSince ?? now;
+
+    this.emit('progress', this.toStatus(fitting, raw?.peakToPeak ?? null));
+
+    if (fitting.stableSince !== null && now - fitting.stableSince >= fitting.requiredStableSeconds * 1000) {
+      this.finish('fitted');
+    }
+  }
+
+  private rawStats(now: number): { peakToPeak: number; saturatedFraction: number } | null {
+    const recent = this.rawWindow.filter(sample => sample.timestamp >= now - RAW_WINDOW_MS);
+    if (recent.length === 0) return null;
+
+    let min = Infinity;
+    let max = -Infinity;
+    let saturated = 0;
+    for (const { value } of recent) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      if (Math.abs(value) >= SATURATION_LEVEL) saturated++;
+    }
+    return { peakToPeak: max - min, saturatedFraction: saturated / recent.length };
+  }
+
+  private finish(outcome: FittingOutcome): boolean {
+    const fitting = this.active;
+    if (!fitting) return false;
+
+    clearTimeout(fitting.timer);
+    this.active = null;
+    this.rawWindow = [];
+
+    const issueSeconds = { ...fitting.issueSeconds };
+    if (fitting.issue) {
+      issueSeconds[fitting.issue] += (Date.now() - fitting.lastEvaluatedAt) / 1000;
+    }
+    for (const issue of Object.keys(issueSeconds) as FittingIssue[]) {
+      issueSeconds[issue] = Math.round(issueSeconds[issue] * 10) / 10;
+    }
+    this.emit('finished', { ...this.toStatus(fitting), outcome }, issueSeconds);
+    return true;
+  }
+
+  private toStatus(fitting: ActiveFitting, rawPeakToPeak: number | null = null): FittingStatus {
+    return {
+      deviceId: this.deviceId,
+      sessionId: fitting.sessionId,
+      startedAt: fitting.startedAt,
+      step: fitting.issue ? STEP_FOR_ISSUE[fitting.issue] : 'stable',
+      issue: fitting.issue,
+      stableSeconds: fitting.stableSince !== null ? Math.floor((Date.now() - fitting.stableSince) / 1000) : 0,
+      requiredStableSeconds: fitting.requiredStableSeconds,
+      poorSignalLevel: fitting.poorSignalLevel,
+      rawPeakToPeak,
+      blinkDetected: fitting.blinkDetected,
+    };
+  }
+}
+
+export function summarizeFittingAttempts(attempts: FittingAttempt[]): FittingAttemptsSummary {
+  const fittedSeconds = attempts
+    .filter(attempt => attempt.outcome === 'fitted')
+    .map(attempt => attempt.durationMs / 1000)
+    .sort((a, b) => a - b);
+
+  let medianFittedSeconds: number | null = null;
+  if (fittedSeconds.length > 0) {
+    const middle = Math.floor(fittedSeconds.length / 2);
+    const median = fittedSeconds.length % 2 === 0
+      ? (fittedSeconds[middle - 1] + fittedSeconds[middle]) / 2
+      : fittedSeconds[middle];
+    medianFittedSeconds = Math.round(median * 10) / 10;
+  }
+
+  return { count: attempts.length, fitted: fittedSeconds.length, medianFittedSeconds };
+}
@@ -1,7 +1,5 @@
 import { GoogleGenAI, Modality } from "@google/genai";
-import { BrainwaveData } from "@shared/schema";
-import * as fs from "fs";
-import * as path from "path";
+import { BrainwaveData, BrainwaveWindowSummary, NormalizedBrainwave } from "@shared/schema";
 
 // DON'T DELETE THIS COMMENT
 // Using blueprint:javascript_gemini integration
@@ -16,6 +14,17 @@ if (!process.env.GEMINI_API_KEY) {
   console.warn('⚠️  GEMINI_API_KEY not found. Cloud image generation will use SVG fallback.');
 }
 
+// Percentile cut-offs against the visitor's baseline, used instead of the fixed >70 / <30 eSense ones
+const HIGH_PERCENTILE = 80;
+const LOW_PERCENTILE = 20;
+
+// eSense points per minute over the capture window that count as a clear rise
+const TREND_THRESHOLD = 10;
+
+type BrainwaveLevel = 'high' | 'low' | 'balanced';
+
+type MandalaBrainwaveInput = { attention: number, meditation: number, signalQuality: number, normalized?: NormalizedBrainwave, summary?: BrainwaveWindowSummary };
+
 export interface MandalaGenerationOptions {
   voiceTranscript: string;
   brainwaveData: BrainwaveData;
@@ -23,8 +32,15 @@ export interface MandalaGenerationOptions {
   colorPalette?: 'warm' | 'cool' | 'vibrant' | 'monochrome';
 }
 
+export interface GeneratedImage {
+  data: Buffer;
+  contentType: string;
+}
+
 export interface GeneratedMandala {
-  imageUrl: string;
+  image: GeneratedImage;
+  // The provider's link the image was downloaded from, for providers that hand out links
+  sourceUrl?: string;
   prompt: string;
   revisedPrompt?: string;
 }
@@ -77,7 +93,9 @@ Brain Wave Data:
 - Attention Level: ${brainwaveData.attention}% (0-100, higher = more focused)
 - Meditation Level: ${brainwaveData.meditation}% (0-100, higher = more relaxed/meditative)
 - Signal Quality: ${brainwaveData.signalQuality}% (connection quality)
-
+${brainwaveData.normalized ? `- Attention relative to this person's calibrated baseline: ${brainwaveData.normalized.attentionPercentile}th percentile (z = ${brainwaveData.normalized.attentionZ})
+- Meditation relative to this person's calibrated baseline: ${brainwaveData.normalized.meditationPercentile}th percentile (z = ${brainwaveData.normalized.meditationZ})
+` : ''}${brainwaveData.summary ? this.describeWindowSummary(brainwaveData.summary) : ''}
 Style Preference: ${style}
 Color Palette: ${colorPalette}
 
@@ -85,6 +103,8 @@ Guidelines:
 - High attention (>70%) = sharp, precise dot patterns, focused geometric energy
 - High meditation (>70%) = flowing, soft dot gradients, peaceful circular patterns
 - Balanced levels = harmonious, symmetrical dot work designs
+- Rising or falling trends over the recording suggest movement: energy expanding outward or settling toward the center
+- When baseline percentiles are given, judge high and low from them (>=${HIGH_PERCENTILE}th is high, <=${LOW_PERCENTILE}th is low) rather than from the absolute levels
 - Low signal quality should be noted but not prevent generation
 
 Extract emotional themes, spiritual concepts, and energy patterns from the voice transcript.
@@ -135,18 +155,21 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
     return this.getFallbackPrompt(options);
   }
 
-  async generateMandalaImage(prompt: string, brainwaveData?: { attention: number, meditation: number, signalQuality: number }): Promise<GeneratedMandala> {
+  async generateMandalaImage(prompt: string, brainwaveData?: MandalaBrainwaveInput): Promise<GeneratedMandala> {
     // Enhanced prompt generation based on brainwave data
     let styleModifiers = '';
     let complexityLevel = '';
     let colorIntensity = '';
     
     if (brainwaveData) {
+      const attentionLevel = this.getLevel(brainwaveData, 'attention');
+      const meditationLevel = this.getLevel(brainwaveData, 'meditation');
+
       // Attention influences complexity and precision
-      if (brainwaveData.attention > 70) {
+      if (attentionLevel === 'high') {
         complexityLevel = 'highly intricate and precisely detailed with sharp geometric precision';
         styleModifiers += 'focused energy patterns with crystalline clarity, ';
-      } else if (brainwaveData.attention < 30) {
+      } else if (attentionLevel === 'low') {
         complexityLevel = 'flowing and organic with soft, dreamy details';
         styleModifiers += 'gentle, flowing energy with soft focus, ';
       } else {
@@ -155,10 +178,10 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
       }
       
       // Meditation influences color warmth and flow
-      if (brainwaveData.meditation > 70) {
+      if (meditationLevel === 'high') {
         colorIntensity = 'deep, calming colors with gentle gradients and peaceful luminescence';
         styleModifiers += 'serene and tranquil atmosphere with smooth color transitions, ';
-      } else if (brainwaveData.meditation < 30) {
+      } else if (meditationLevel === 'low') {
         colorIntensity = 'vibrant, dynamic colors with energetic contrasts and bright highlights';
         styleModifiers += 'active and energetic atmosphere with bold color contrasts, ';
       } else {
@@ -210,17 +233,6 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
     // Try Gemini image generation with retry logic
     for (let attempt = 1; attempt <= 2; attempt++) {
       try {
-        // Create a unique filename for the generated image
-        const timestamp = Date.now();
-        const filename = `mandala_${timestamp}.png`;
-        const imagePath = path.resolve(process.cwd(), 'attached_assets', filename);
-        
-        // Ensure the directory exists
-        const dir = path.dirname(imagePath);
-        if (!fs.existsSync(dir)) {
-          fs.mkdirSync(dir, { recursive: true });
-        }
-
         // IMPORTANT: only gemini-2.0-flash-preview-image-generation model supports image generation
         const response = await ai.models.generateContent({
           model: "gemini-2.0-flash-preview-image-generation",
@@ -240,7 +252,7 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
           throw new Error('No content parts in Gemini response');
         }
 
-        let imageGenerated = false;
+        let image: GeneratedImage | null = null;
         let revisedPrompt = '';
 
         for (const part of content.parts) {
@@ -248,18 +260,16 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
             revisedPrompt = part.text;
             console.log('Gemini response text:', part.text);
           } else if (part.inlineData && part.inlineData.data) {
-            const imageData = Buffer.from(part.inlineData.data, "base64");
-            fs.writeFileSync(imagePath, imageData);
-            console.log(`Gemini image saved as ${imagePath}`);
-            imageGenerated = true;
+            image = {
+              data: Buffer.from(part.inlineData.data, "base64"),
+              contentType: part.inlineData.mimeType || 'image/png'
+            };
           }
         }
 
-        if (imageGenerated) {
-          // Return the relative path that can be served by the Express static middleware
-          const relativeImagePath = `/attached_assets/${filename}`;
+        if (image) {
           return {
-            imageUrl: relativeImagePath,
+            image,
             prompt: enhancedPrompt,
             revisedPrompt: revisedPrompt || `Gemini generated mandala: ${enhancedPrompt}`
           };
@@ -292,24 +302,35 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
     // Create sophisticated base prompt
     let prompt = "Create an exquisite traditional dot painting mandala masterpiece with concentric circles of luminous dots in varying sizes. ";
     
+    const attentionLevel = this.getLevel(brainwaveData, 'attention');
+    const meditationLevel = this.getLevel(brainwaveData, 'meditation');
+    
     // Attention-based structural elements (more detailed)
-    if (brainwaveData.attention > 70) {
+    if (attentionLevel === 'high') {
       prompt += "Ultra-precise geometric dot patterns with crystalline clarity, sharp angular formations, and highly detailed symmetrical structures. Each dot perfectly placed for maximum focus and concentration energy. ";
-    } else if (brainwaveData.attention < 30) {
+    } else if (attentionLevel === 'low') {
       prompt += "Soft, organic dot patterns with flowing transitions, gentle curves, and dreamy ethereal formations. Dots create flowing energy like water or clouds. ";
     } else {
       prompt += "Balanced dot patterns with harmonious geometric structures, moderate complexity, and stable radial symmetry. Perfect equilibrium between order and flow. ";
     }
     
     // Meditation-based flow elements (enhanced)
-    if (brainwaveData.meditation > 70) {
+    if (meditationLevel === 'high') {
       prompt += "Deep, peaceful dot gradients creating waves of tranquility, with gentle spirals and calming circular patterns that radiate serene energy from the center outward. ";
-    } else if (brainwaveData.meditation < 30) {
+    } else if (meditationLevel === 'low') {
       prompt += "Dynamic, energetic dot work with vibrant spiral patterns, active radiating lines, and pulsing geometric forms that express vitality and movement. ";
     } else {
       prompt += "Centered, grounded dot patterns with stable circular formations and balanced energy distribution throughout the design. ";
     }
     
+    // Direction of change while the person was speaking
+    const summary = brainwaveData.summary;
+    if (summary && summary.attention.trendPerMinute >= TREND_THRESHOLD) {
+      prompt += "Dot density builds from the center toward the outer rings, mirroring focus that sharpened while speaking. ";
+    } else if (summary && summary.meditation.trendPerMinute >= TREND_THRESHOLD) {
+      prompt += "Outer rings are busier and the dots grow softer and sparser toward a tranquil center, mirroring a mind settling while speaking. ";
+    }
+    
     // Enhanced color palettes based on selection
     const colorPalettes = {
       warm: "warm sunset palette: deep oranges (#ff8c00), rich reds (#dc143c), golden yellows (#ffd700), and bronze dots (#cd7f32) against a deep amber background (#ff8c00 to #8b4513 gradient)",
@@ -360,6 +381,27 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
   }
   
   // Helper method to extract themes from voice transcript
+  private describeWindowSummary(summary: BrainwaveWindowSummary): string {
+    const seconds = Math.round((summary.endedAt - summary.startedAt) / 1000);
+    const describe = (label: string, metric: BrainwaveWindowSummary['attention']) =>
+      `- ${label}: mean ${metric.mean}, median ${metric.median}, range ${metric.min}-${metric.max}, variance ${metric.variance}, trend ${metric.trendPerMinute > 0 ? '+' : ''}${metric.trendPerMinute} per minute\n`;
+
+    return `
+Over the ${seconds}s recording window (${summary.sampleCount} readings):
+${describe('Attention', summary.attention)}${describe('Meditation', summary.meditation)}- Time in high attention: ${summary.highAttentionSeconds}s
+- Time in high meditation: ${summary.highMeditationSeconds}s
+`;
+  }
+
+  // Calibrated sessions are judged against the visitor's own baseline, others against fixed eSense cut-offs
+  private getLevel(brainwaveData: MandalaBrainwaveInput, metric: 'attention' | 'meditation'): BrainwaveLevel {
+    const percentile = brainwaveData.normalized?.[metric === 'attention' ? 'attentionPercentile' : 'meditationPercentile'];
+    if (percentile !== undefined) {
+      return percentile >= HIGH_PERCENTILE ? 'high' : percentile <= LOW_PERCENTILE ? 'low' : 'balanced';
+    }
+    return brainwaveData[metric] > 70 ? 'high' : brainwaveData[metric] < 30 ? 'low' : 'balanced';
+  }
+
   private extractThemesFromVoice(voiceTranscript: string): {
     peace: boolean;
     love: boolean;
@@ -382,22 +424,28 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
     };
   }
 
-  private generateFallbackMandala(prompt: string, brainwaveData?: { attention: number, meditation: number, signalQuality: number }): GeneratedMandala {
-    // Create a data URL for a unique SVG mandala as fallback
+  private generateFallbackMandala(prompt: string, brainwaveData?: MandalaBrainwaveInput): GeneratedMandala {
+    // Create a unique SVG mandala as fallback
     const svgMandala = this.createSVGMandala(prompt, brainwaveData);
-    const dataUrl = `data:image/svg+xml;base64,${Buffer.from(svgMandala).toString('base64')}`;
     
     return {
-      imageUrl: dataUrl,
+      image: { data: Buffer.from(svgMandala), contentType: 'image/svg+xml' },
       prompt: prompt,
       revisedPrompt: `Fallback mandala generated locally with unique variations: ${prompt}`
     };
   }
 
-  private createSVGMandala(prompt: string, brainwaveData?: { attention: number, meditation: number, signalQuality: number }): string {
+  private createSVGMandala(prompt: string, rawBrainwaveData?: MandalaBrainwaveInput): string {
     // Create a unique seed based on input to ensure variety
-    const seed = this.createSeedFromInput(prompt, brainwaveData);
+    const seed = this.createSeedFromInput(prompt, rawBrainwaveData);
     const seededRandom = this.createSeededRandom(seed);
+
+    // The layer generators scale with 0-100 levels; percentiles let calibrated visitors use the full range
+    const brainwaveData = rawBrainwaveData?.normalized ? {
+      ...rawBrainwaveData,
+      attention: rawBrainwaveData.normalized.attentionPercentile,
+      meditation: rawBrainwaveData.normalized.meditationPercentile
+    } : rawBrainwaveData;
     
     // Generate colors based on prompt content with variation
     const colors = this.extractColorsFromPrompt(prompt);
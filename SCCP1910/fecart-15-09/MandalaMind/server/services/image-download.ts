@@ -0,0 +1,54 @@
+// Providers such as DALL-E hand out image links that expire within hours; the bytes behind
+// them are fetched right away so they can be kept in the asset store.
+
+export const MAX_IMAGE_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+// Raster formats only: an SVG from elsewhere could carry scripts once served from our origin
+const DOWNLOADABLE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export interface DownloadedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+// Throws when the response isn't an image we keep or is larger than maxBytes
+export async function downloadImage(url: string, maxBytes = MAX_IMAGE_DOWNLOAD_BYTES): Promise<DownloadedImage> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!response.ok || !response.body) {
+    throw new Error(`Image download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+  if (!DOWNLOADABLE_IMAGE_TYPES.includes(contentType)) {
+    await response.body.cancel();
+    throw new Error(`Downloaded file is not a supported image (${contentType || 'no content type'})`);
+  }
+
+  const declaredLength = parseInt(response.headers.get('content-length') ?? '', 10);
+  if (declaredLength > maxBytes) {
+    await response.body.cancel();
+    throw new Error(`Image is ${declaredLength} bytes, more than the ${maxBytes} allowed`);
+  }
+
+  // The declared length can be missing or wrong, so the limit is enforced while reading too
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Image is more than the ${maxBytes} bytes allowed`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+
+  if (size === 0) {
+    throw new Error('Downloaded image is empty');
+  }
+  return { data: Buffer.concat(chunks), contentType };
+}
@@ -1,6 +1,17 @@
 import { EventEmitter } from 'events';
 import { Socket } from 'net';
-import { BrainwaveData } from '@shared/schema';
+import * as fs from 'fs';
+import { BrainwaveData, StreamStall } from '@shared/schema';
+import { ThinkGearPacketParser } from './thinkgear-parser';
+import { ThinkGearJsonDecoder } from './thinkgear-json-decoder';
+import { ThinkGearInterpreter } from './thinkgear-interpreter';
+import { EegRecorder } from './eeg-recording';
+import type { EegSource } from './eeg-source';
+
+// ThinkGear headsets stream at 57600 baud (8N1), i.e. roughly 5760 bytes per second
+const SERIAL_BYTES_PER_SECOND = 5760;
+
+const WATCHDOG_INTERVAL_MS = 1000;
 
 export interface NeuroSkyConfig {
   host?: string;
@@ -8,20 +19,41 @@ export interface NeuroSkyConfig {
   appName?: string;
   appKey?: string;
   autoConnect?: boolean;
-  demoMode?: boolean;
   enableRawOutput?: boolean;
+  // 'connector' talks JSON to ThinkGear Connector over TCP; 'serial' decodes the
+  // raw ThinkGear packet stream from a device path, named pipe or recorded byte file.
+  // Serial devices must already be configured for 57600 baud raw mode (e.g. `stty -F /dev/rfcomm0 57600 raw`).
+  transport?: 'connector' | 'serial';
+  serialPath?: string;
+  // Report a stall when nothing arrives for this long (the headset sends ~1 message per second)
+  stallTimeoutMs?: number;
+  // ...or when messages keep coming but none carries eSense values
+  eSenseStallTimeoutMs?: number;
+  // Tear the connection down and reconnect with the usual backoff when it stalls
+  recoverOnStall?: boolean;
 }
 
-export class NeuroSkyService extends EventEmitter {
+export class NeuroSkyService extends EventEmitter implements EegSource {
+  readonly kind = 'neurosky';
   private socket: Socket | null = null;
-  private isConnected = false;
+  private serialStream: fs.ReadStream | null = null;
+  private packetParser = new ThinkGearPacketParser();
+  private jsonDecoder = new ThinkGearJsonDecoder();
+  private serialPaceTimeout: NodeJS.Timeout | null = null;
+  private interpreter = new ThinkGearInterpreter();
+  private connected = false;
   private reconnectInterval: NodeJS.Timeout | null = null;
-  private currentData: BrainwaveData | null = null;
-  private demoInterval: NodeJS.Timeout | null = null;
-  private isDemoMode = false;
+  private recorder: EegRecorder | null = null;
   private isAuthenticated = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private watchdogInterval: NodeJS.Timeout | null = null;
+  private lastMessageAt: number | null = null;
+  private lastESenseAt: number | null = null;
+  private stall: StreamStall | null = null;
+  private stallCount = 0;
+  // Set while a stalled connection is being re-established, even without autoConnect
+  private recoveringFromStall = false;
 
   constructor(private config: NeuroSkyConfig = {}) {
     super();
@@ -31,35 +63,54 @@ export class NeuroSkyService extends EventEmitter {
       appName: 'MandalaMind',
       appKey: '0fc2141b1b45c573cc2d3a763b8d71c5bde2391b', // Default public key from NeuroSky
       autoConnect: false,
-      demoMode: false,
       enableRawOutput: false,
+      transport: 'connector',
+      stallTimeoutMs: 5000,
+      eSenseStallTimeoutMs: 15000,
+      recoverOnStall: false,
       ...config
     };
-    this.isDemoMode = this.config.demoMode || false;
+
+    this.interpreter.pipeTo(this);
+
+    this.packetParser.on('message', (message) => {
+      this.handleThinkGearMessage(message);
+    });
+    this.packetParser.on('checksumError', () => {
+      console.warn('Dropped ThinkGear packet with invalid checksum');
+    });
+
+    this.jsonDecoder.on('message', (message) => {
+      this.handleThinkGearMessage(message);
+    });
+    this.jsonDecoder.on('malformed', ({ frame, error }) => {
+      console.error('Error parsing ThinkGear message line:', frame, error);
+    });
   }
 
   async connect(): Promise<void> {
     try {
-      // If in demo mode, start simulation instead of real connection
-      if (this.isDemoMode) {
-        this.startDemoMode();
+      if (this.config.transport === 'serial') {
+        await this.connectSerial();
         return;
       }
 
       // Check if ThinkGear Connector is available first
-      const isAvailable = await NeuroSkyService.checkThinkGearConnector();
+      const isAvailable = await NeuroSkyService.checkThinkGearConnector(this.config.host, this.config.port);
       if (!isAvailable) {
         throw new Error('ThinkGear Connector is not running. Please start the ThinkGear Connector application and ensure your NeuroSky device is connected.');
       }
 
       // Connect to ThinkGear Connector using TCP Socket
+      this.jsonDecoder.reset();
+      this.jsonDecoder.resetStats();
       this.socket = new Socket();
-      this.isConnected = false;
+      this.connected = false;
       this.isAuthenticated = false;
       
       this.socket.on('connect', () => {
         console.log('Connected to NeuroSky ThinkGear Connector');
-        this.isConnected = true;
+        this.connected = true;
         
         // Send authentication message as required by ThinkGear Connector
         const authMessage = {
@@ -75,18 +126,8 @@ export class NeuroSkyService extends EventEmitter {
 
       this.socket.on('data', (data: Buffer) => {
         try {
-          const dataStr = data.toString().trim();
-          // Handle multiple JSON messages in one data packet
-          const lines = dataStr.split('\n').filter(line => line.trim());
-          
-          for (const line of lines) {
-            try {
-              const message = JSON.parse(line);
-              this.handleThinkGearMessage(message);
-            } catch (parseError) {
-              console.error('Error parsing ThinkGear message line:', line, parseError);
-            }
-          }
+          // Frames may span several TCP chunks, so let the decoder buffer them
+          this.jsonDecoder.push(data);
         } catch (error) {
           console.error('Error processing ThinkGear data:', error);
         }
@@ -94,18 +135,20 @@ export class NeuroSkyService extends EventEmitter {
 
       this.socket.on('close', () => {
         console.log('NeuroSky connection closed');
-        this.isConnected = false;
+        this.jsonDecoder.reset();
+        this.stopWatchdog();
+        this.connected = false;
         this.isAuthenticated = false;
         this.emit('disconnected');
         
-        if (this.config.autoConnect && this.reconnectAttempts < this.maxReconnectAttempts) {
+        if (this.shouldReconnect()) {
           this.scheduleReconnect();
         }
       });
 
       this.socket.on('error', (error: any) => {
         console.error('NeuroSky connection error:', error);
-        this.isConnected = false;
+        this.connected = false;
         this.isAuthenticated = false;
         
         let errorMessage = error.message || 'Connection error';
@@ -128,13 +171,113 @@ export class NeuroSkyService extends EventEmitter {
     }
   }
 
+  // Read the binary ThinkGear packet stream straight from the headset (or a capture of it)
+  private connectSerial(): Promise<void> {
+    const serialPath = this.config.serialPath;
+    if (!serialPath) {
+      return Promise.reject(new Error('No serial device configured. Set serialPath to the headset device, named pipe or recorded byte file.'));
+    }
+
+    // Recorded byte files are paced at the headset's baud rate instead of being dumped at once
+    let isRecordedFile = false;
+    try {
+      isRecordedFile = fs.statSync(serialPath).isFile();
+    } catch (error) {
+      return Promise.reject(new Error(`Serial device not found: ${serialPath}`));
+    }
+
+    this.packetParser.reset();
+    this.connected = false;
+    this.isAuthenticated = false;
+
+    return new Promise((resolve, reject) => {
+      const stream = fs.createReadStream(serialPath, {
+        highWaterMark: isRecordedFile ? Math.round(SERIAL_BYTES_PER_SECOND / 10) : 64 * 1024
+      });
+      this.serialStream = stream;
+      let isOpen = false;
+
+      stream.on('open', () => {
+        isOpen = true;
+        console.log(`Reading ThinkGear packets from ${serialPath}`);
+        this.connected = true;
+        // There is no handshake on the raw packet stream
+        this.isAuthenticated = true;
+        this.reconnectAttempts = 0;
+        this.recoveringFromStall = false;
+        this.startWatchdog();
+        this.emit('connected');
+        resolve();
+      });
+
+      stream.on('data', (chunk: Buffer | string) => {
+        const bytes = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        this.packetParser.push(bytes);
+
+        if (isRecordedFile) {
+          stream.pause();
+          this.serialPaceTimeout = setTimeout(() => {
+            this.serialPaceTimeout = null;
+            stream.resume();
+          }, (bytes.length / SERIAL_BYTES_PER_SECOND) * 1000);
+        }
+      });
+
+      stream.on('error', (error: any) => {
+        console.error('NeuroSky serial error:', error);
+        if (!isOpen) {
+          this.serialStream = null;
+          reject(new Error(`Cannot open serial device ${serialPath}: ${error.message}`));
+          return;
+        }
+        this.emit('error', new Error(`Serial device error: ${error.message}`));
+      });
+
+      stream.on('close', () => {
+        if (this.serialStream !== stream) return;
+        this.serialStream = null;
+        if (!isOpen) return;
+
+        console.log('NeuroSky serial stream closed');
+        this.stopWatchdog();
+        this.connected = false;
+        this.isAuthenticated = false;
+        this.emit('disconnected');
+
+        if (this.shouldReconnect()) {
+          this.scheduleReconnect();
+        }
+      });
+    });
+  }
+
+  private closeSerialStream(): void {
+    if (this.serialPaceTimeout) {
+      clearTimeout(this.serialPaceTimeout);
+      this.serialPaceTimeout = null;
+    }
+
+    if (this.serialStream) {
+      const stream = this.serialStream;
+      this.serialStream = null;
+      stream.destroy();
+    }
+  }
+
   private handleThinkGearMessage(message: any): void {
+    // Record what the device sent
+    if (this.recorder) {
+      this.recorder.write(message);
+    }
+
     // Handle authentication response first
     if (!this.isAuthenticated) {
       if (message.status && message.status === 'success') {
         this.isAuthenticated = true;
         this.reconnectAttempts = 0; // Reset on successful connection
+        this.recoveringFromStall = false;
         console.log('ThinkGear Connector authentication successful');
+        this.startWatchdog();
         this.emit('connected');
         return;
       } else if (message.status && message.status === 'error') {
@@ -149,60 +292,12 @@ export class NeuroSkyService extends EventEmitter {
       return;
     }
 
-    // ThinkGear JSON format includes eSense values and signal quality
-    const data: Partial<BrainwaveData> = {};
-    let hasValidData = false;
-
-    // Extract eSense data (attention and meditation)
+    this.lastMessageAt = Date.now();
     if (message.eSense && typeof message.eSense === 'object') {
-      if (typeof message.eSense.attention === 'number' && message.eSense.attention >= 0) {
-        data.attention = Math.min(100, Math.max(0, message.eSense.attention));
-        hasValidData = true;
-      }
-      if (typeof message.eSense.meditation === 'number' && message.eSense.meditation >= 0) {
-        data.meditation = Math.min(100, Math.max(0, message.eSense.meditation));
-        hasValidData = true;
-      }
-    }
-
-    // Extract signal quality from poorSignalLevel
-    if (typeof message.poorSignalLevel === 'number') {
-      // Convert poor signal level (0-200) to signal quality (100-0)
-      // 0 = perfect signal, 200 = no signal
-      const signalQuality = Math.max(0, Math.min(100, 100 - (message.poorSignalLevel / 200) * 100));
-      data.signalQuality = Math.round(signalQuality);
-      hasValidData = true;
-    }
-
-    // Only emit data if we have valid measurements
-    if (hasValidData) {
-      this.currentData = {
-        attention: data.attention ?? this.currentData?.attention ?? 0,
-        meditation: data.meditation ?? this.currentData?.meditation ?? 0,
-        signalQuality: data.signalQuality ?? this.currentData?.signalQuality ?? 0,
-        timestamp: Date.now()
-      };
-
-      this.emit('data', this.currentData);
-    }
-
-    // Handle blink detection
-    if (typeof message.blinkStrength === 'number' && message.blinkStrength > 0) {
-      this.emit('blink', { strength: message.blinkStrength, timestamp: Date.now() });
-    }
-
-    // Handle raw EEG data if enabled
-    if (typeof message.rawEeg === 'number') {
-      this.emit('rawEeg', { value: message.rawEeg, timestamp: Date.now() });
-    }
-
-    // Handle EEG power bands if available
-    if (message.eegPower && typeof message.eegPower === 'object') {
-      this.emit('eegPower', { 
-        ...message.eegPower, 
-        timestamp: Date.now() 
-      });
+      this.lastESenseAt = this.lastMessageAt;
     }
+    this.interpreter.interpret(message);
+    this.checkStall();
   }
 
   private scheduleReconnect(): void {
@@ -210,8 +305,8 @@ export class NeuroSkyService extends EventEmitter {
       clearTimeout(this.reconnectInterval);
     }
 
-    // Only attempt reconnection if auto-connect is enabled and haven't exceeded max attempts
-    if (this.config.autoConnect && this.reconnectAttempts < this.maxReconnectAttempts) {
+    // Only attempt reconnection if auto-connect (or stall recovery) is on and haven't exceeded max attempts
+    if (this.shouldReconnect()) {
       const delay = Math.min(30000, 5000 * Math.pow(2, this.reconnectAttempts)); // Exponential backoff, max 30s
       
       this.reconnectInterval = setTimeout(() => {
@@ -221,6 +316,7 @@ export class NeuroSkyService extends EventEmitter {
           console.error('Reconnection failed:', error);
           if (this.reconnectAttempts >= this.maxReconnectAttempts) {
             console.log('Max reconnection attempts reached. Stopping automatic reconnection.');
+            this.recoveringFromStall = false;
             this.emit('error', new Error('Could not reconnect to ThinkGear Connector after multiple attempts.'));
           }
         });
@@ -228,173 +324,132 @@ export class NeuroSkyService extends EventEmitter {
     }
   }
 
-  disconnect(): void {
-    if (this.reconnectInterval) {
-      clearTimeout(this.reconnectInterval);
-      this.reconnectInterval = null;
-    }
+  private shouldReconnect(): boolean {
+    return (this.config.autoConnect || this.recoveringFromStall) && this.reconnectAttempts < this.maxReconnectAttempts;
+  }
 
-    if (this.demoInterval) {
-      clearInterval(this.demoInterval);
-      this.demoInterval = null;
+  private startWatchdog(): void {
+    this.stopWatchdog();
+    // Count from the moment the stream came up, not from the previous connection
+    this.lastMessageAt = Date.now();
+    this.lastESenseAt = this.lastMessageAt;
+    this.watchdogInterval = setInterval(() => this.checkStall(), WATCHDOG_INTERVAL_MS);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogInterval) {
+      clearInterval(this.watchdogInterval);
+      this.watchdogInterval = null;
     }
+    this.stall = null;
+  }
 
-    if (this.socket) {
-      this.socket.destroy();
-      this.socket = null;
+  // Runs on every message (to notice recovery) and every second (to notice silence)
+  private checkStall(): void {
+    if (!this.watchdogInterval || this.lastMessageAt === null) return;
+
+    const now = Date.now();
+    const lastDataAgeMs = now - this.lastMessageAt;
+    const lastESenseAgeMs = this.lastESenseAt === null ? null : now - this.lastESenseAt;
+    const reason: StreamStall['reason'] | null =
+      lastDataAgeMs > this.config.stallTimeoutMs! ? 'no_data'
+        : lastESenseAgeMs !== null && lastESenseAgeMs > this.config.eSenseStallTimeoutMs! ? 'no_esense'
+        : null;
+
+    if (!reason) {
+      if (this.stall) {
+        const stalledFor = this.stall;
+        this.stall = null;
+        console.log('NeuroSky data stream recovered');
+        this.emit('recovered', { ...stalledFor, lastDataAgeMs, lastESenseAgeMs });
+      }
+      return;
     }
+    if (this.stall?.reason === reason) return;
 
-    this.isConnected = false;
-    this.isAuthenticated = false;
-    this.isDemoMode = false;
-    this.reconnectAttempts = 0;
-    this.emit('disconnected');
-  }
+    this.stallCount++;
+    const recovering = this.config.recoverOnStall === true && this.reconnectAttempts < this.maxReconnectAttempts;
+    this.stall = { reason, lastDataAgeMs, lastESenseAgeMs, stallCount: this.stallCount, recovering };
+    console.warn(`NeuroSky data stream stalled (${reason}, last data ${lastDataAgeMs}ms ago)`);
+    this.emit('stalled', this.stall);
 
-  getConnectionStatus(): boolean {
-    return this.isConnected;
+    if (recovering) {
+      this.recoverFromStall();
+    }
   }
 
-  getCurrentData(): BrainwaveData | null {
-    return this.currentData;
-  }
+  // The connector (or serial link) looks alive but isn't delivering: drop it and go through
+  // the normal reconnect backoff
+  private recoverFromStall(): void {
+    this.recoveringFromStall = true;
+    this.stopWatchdog();
 
-  enableDemoMode(): void {
-    this.isDemoMode = true;
-    this.config.demoMode = true;
-    
-    // Disconnect any real connection first
     if (this.socket) {
+      // The close handler emits 'disconnected' and schedules the reconnect
       this.socket.destroy();
-      this.socket = null;
+      return;
     }
-    
-    // Clear any existing intervals
+
+    this.closeSerialStream();
+    this.connected = false;
+    this.isAuthenticated = false;
+    this.emit('disconnected');
+    this.scheduleReconnect();
+  }
+
+  disconnect(): void {
     if (this.reconnectInterval) {
       clearTimeout(this.reconnectInterval);
       this.reconnectInterval = null;
     }
-    
-    // Start demo mode immediately
-    this.startDemoMode();
-  }
+    this.stopWatchdog();
+    this.recoveringFromStall = false;
 
-  disableDemoMode(): void {
-    this.isDemoMode = false;
-    this.config.demoMode = false;
-    if (this.demoInterval) {
-      clearInterval(this.demoInterval);
-      this.demoInterval = null;
-    }
-    this.isConnected = false;
-    this.emit('disconnected');
-    
-    // Clear any socket connection if exists
     if (this.socket) {
       this.socket.destroy();
       this.socket = null;
     }
+
+    this.closeSerialStream();
+
+    this.connected = false;
+    this.isAuthenticated = false;
+    this.reconnectAttempts = 0;
+    this.emit('disconnected');
   }
 
-  private startDemoMode(): void {
-    console.log('Starting NeuroSky demo mode');
-    this.isConnected = true;
-    this.emit('connected');
+  isConnected(): boolean {
+    return this.connected;
+  }
 
-    // Generate realistic demo data every 250ms (4Hz)
-    this.demoInterval = setInterval(() => {
-      this.generateDemoData();
-    }, 250);
+  getCurrentData(): BrainwaveData | null {
+    return this.interpreter.getCurrentData();
   }
 
-  private generateDemoData(): void {
-    // Generate more sophisticated demo data that simulates different mental states
-    const time = Date.now() / 1000;
-    
-    // Create different phases of meditation/concentration
-    const phase = Math.floor(time / 30) % 4; // 30-second phases
-    
-    let baseAttention: number;
-    let baseMeditation: number;
-    let signalVariation: number;
-    
-    switch (phase) {
-      case 0: // Settling in phase
-        baseAttention = 20 + 15 * Math.sin(time * 0.02);
-        baseMeditation = 15 + 20 * Math.sin(time * 0.015);
-        signalVariation = 15;
-        break;
-      case 1: // Building focus
-        baseAttention = 45 + 25 * Math.sin(time * 0.01);
-        baseMeditation = 30 + 25 * Math.cos(time * 0.012);
-        signalVariation = 10;
-        break;
-      case 2: // Deep meditation
-        baseAttention = 25 + 15 * Math.sin(time * 0.008);
-        baseMeditation = 60 + 20 * Math.cos(time * 0.01);
-        signalVariation = 8;
-        break;
-      default: // Mixed state
-        baseAttention = 40 + 20 * Math.sin(time * 0.015);
-        baseMeditation = 45 + 15 * Math.cos(time * 0.018);
-        signalVariation = 12;
-    }
-    
-    // Add realistic noise and micro-fluctuations
-    const attention = Math.max(0, Math.min(100, Math.round(
-      baseAttention + 
-      signalVariation * (Math.random() - 0.5) + 
-      3 * Math.sin(time * 0.5) + // Breathing influence
-      2 * Math.sin(time * 2) // Micro-movements
-    )));
-    
-    const meditation = Math.max(0, Math.min(100, Math.round(
-      baseMeditation + 
-      (signalVariation * 0.8) * (Math.random() - 0.5) + 
-      4 * Math.cos(time * 0.3) + // Relaxation waves
-      1.5 * Math.cos(time * 1.5) // Natural variance
-    )));
-    
-    // Signal quality with occasional drops (headset movement simulation)
-    let baseSignalQuality = 88 + 8 * Math.sin(time * 0.003);
-    if (Math.random() < 0.05) { // 5% chance of signal drop
-      baseSignalQuality -= 20 + 15 * Math.random();
+  startRecording(name?: string) {
+    if (this.recorder) {
+      throw new Error(`Already recording to ${this.recorder.name}`);
     }
-    
-    const signalQuality = Math.max(30, Math.min(100, Math.round(
-      baseSignalQuality + 6 * (Math.random() - 0.5)
-    )));
-
-    this.currentData = {
-      attention,
-      meditation,
-      signalQuality,
-      timestamp: Date.now()
-    };
 
-    this.emit('data', this.currentData);
+    const recordingName = name || `session-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const source = this.config.transport === 'serial'
+      ? `serial:${this.config.serialPath}`
+      : `connector:${this.config.host}:${this.config.port}`;
+    this.recorder = new EegRecorder(recordingName, source);
+    console.log(`Recording ThinkGear messages to ${this.recorder.name}`);
+    return this.recorder.getStatus();
+  }
 
-    // More realistic blink patterns
-    const blinkChance = 0.015 + 0.01 * Math.sin(time * 0.1); // Variable blink rate
-    if (Math.random() < blinkChance) {
-      const strength = Math.round(25 + 40 * Math.random());
-      this.emit('blink', { strength, timestamp: Date.now() });
-    }
-    
-    // Simulate EEG power bands occasionally
-    if (Math.random() < 0.1) { // 10% chance
-      this.emit('eegPower', {
-        delta: Math.round(200000 + 100000 * Math.random()),
-        theta: Math.round(15000 + 10000 * Math.random()),
-        lowAlpha: Math.round(2000 + 3000 * Math.random()),
-        highAlpha: Math.round(1500 + 2000 * Math.random()),
-        lowBeta: Math.round(800 + 1200 * Math.random()),
-        highBeta: Math.round(600 + 800 * Math.random()),
-        lowGamma: Math.round(400 + 600 * Math.random()),
-        highGamma: Math.round(200 + 400 * Math.random()),
-        timestamp: Date.now()
-      });
+  async stopRecording() {
+    if (!this.recorder) {
+      throw new Error('No recording in progress');
     }
+
+    const recorder = this.recorder;
+    this.recorder = null;
+    const result = await recorder.stop();
+    console.log(`Saved recording ${result.name} (${result.messageCount} messages)`);
+    return result;
   }
 
   // Static method to check if ThinkGear Connector is available
@@ -422,24 +477,47 @@ export class NeuroSkyService extends EventEmitter {
     });
   }
 
-  // Get detailed connection information
-  getConnectionInfo() {
+  getStatus() {
     return {
-      isConnected: this.isConnected,
       isAuthenticated: this.isAuthenticated,
-      isDemoMode: this.isDemoMode,
+      recording: this.recorder ? this.recorder.getStatus() : null,
       reconnectAttempts: this.reconnectAttempts,
       maxReconnectAttempts: this.maxReconnectAttempts,
+      stalled: this.stall,
+      stallCount: this.stallCount,
+      lastDataAgeMs: this.watchdogInterval && this.lastMessageAt !== null ? Date.now() - this.lastMessageAt : null,
       config: {
         host: this.config.host,
         port: this.config.port,
-        appName: this.config.appName
-      }
+        appName: this.config.appName,
+        transport: this.config.transport,
+        serialPath: this.config.serialPath,
+        stallTimeoutMs: this.config.stallTimeoutMs,
+        eSenseStallTimeoutMs: this.config.eSenseStallTimeoutMs,
+        recoverOnStall: this.config.recoverOnStall
+      },
+      ...(this.config.transport === 'serial'
+        ? { packetStats: this.packetParser.getStats() }
+        : { framing: this.jsonDecoder.getStats() })
     };
   }
 
+  getConfig(): Readonly<NeuroSkyConfig> {
+    return this.config;
+  }
+
   // Reset reconnection attempts
   resetReconnectionAttempts(): void {
     this.reconnectAttempts = 0;
   }
+
+  // ThinkGear Connector only reads this during the auth handshake, so a live connection
+  // has to be re-established for it to take effect
+  setRawOutput(enabled: boolean): void {
+    this.config.enableRawOutput = enabled;
+  }
+
+  isRawOutputEnabled(): boolean {
+    return this.config.enableRawOutput === true;
+  }
 }
@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import { BrainwaveData } from "@shared/schema";
+import { downloadImage } from "./image-download";
 
 const openai = new OpenAI({ 
   apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR
@@ -13,7 +14,9 @@ export interface MandalaGenerationOptions {
 }
 
 export interface GeneratedMandala {
-  imageUrl: string;
+  image: { data: Buffer; contentType: string };
+  // DALL-E's link the image was downloaded from; it expires, so it is only kept for reference
+  sourceUrl?: string;
   prompt: string;
   revisedPrompt?: string;
 }
@@ -135,15 +138,24 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
           style: "vivid"
         });
 
-        if (!response.data?.[0]?.url) {
+        const imageUrl = response.data?.[0]?.url;
+        if (!imageUrl) {
           throw new Error('No image URL received from OpenAI');
         }
 
-        return {
-          imageUrl: response.data[0].url,
-          prompt: enhancedPrompt,
-          revisedPrompt: response.data[0].revised_prompt
-        };
+        // The link expires within hours, so the image is kept rather than the link. Generating
+        // again wouldn't help when the download fails, so that goes straight to the fallback.
+        try {
+          return {
+            image: await downloadImage(imageUrl),
+            sourceUrl: imageUrl,
+            prompt: enhancedPrompt,
+            revisedPrompt: response.data?.[0]?.revised_prompt
+          };
+        } catch (error) {
+          console.error('Error downloading DALL-E image, using fallback image generation:', error);
+          return this.generateFallbackMandala(prompt, brainwaveData);
+        }
 
       } catch (error: any) {
         console.error(`Error generating mandala image (attempt ${attempt}):`, error);
@@ -168,12 +180,11 @@ Respond with JSON: { "prompt": "detailed traditional dot painting mandala genera
   }
 
   private generateFallbackMandala(prompt: string, brainwaveData?: { attention: number, meditation: number, signalQuality: number }): GeneratedMandala {
-    // Create a data URL for a unique SVG mandala as fallback (no cache-buster for data URLs)
+    // Create a unique SVG mandala as fallback
     const svgMandala = this.createSVGMandala(prompt, brainwaveData);
-    const dataUrl = `data:image/svg+xml;base64,${Buffer.from(svgMandala).toString('base64')}`;
     
     return {
-      imageUrl: dataUrl,
+      image: { data: Buffer.from(svgMandala), contentType: 'image/svg+xml' },
       prompt: prompt,
       revisedPrompt: `Fallback mandala generated locally with unique variations: ${prompt}`
     };
@@ -0,0 +1,216 @@
+import { EventEmitter } from 'events';
+import { createSocket, type Socket } from 'dgram';
+import { BrainwaveData, SpectralBand } from '@shared/schema';
+import { decodeOscPacket, type OscMessage } from './osc';
+import { toSpectralBandPower } from './eeg-spectral';
+import type { EegSource } from './eeg-source';
+
+export interface OscEegSourceOptions {
+  host?: string;
+  // Mind Monitor streams to port 5000 by default
+  port?: number;
+}
+
+// Muse absolute band powers are log10 of the summed PSD (Bels), per channel or averaged
+const MUSE_BAND_ADDRESSES: Record<string, SpectralBand> = {
+  '/muse/elements/delta_absolute': 'delta',
+  '/muse/elements/theta_absolute': 'theta',
+  '/muse/elements/alpha_absolute': 'alpha',
+  '/muse/elements/beta_absolute': 'beta',
+  '/muse/elements/gamma_absolute': 'gamma',
+};
+
+// Band messages arrive at ~10 Hz; BrainwaveData goes out at the eSense rate the rest of the app expects
+const DATA_INTERVAL_MS = 1000;
+// Muse SDK concentration/mellow scores older than this are ignored in favour of band ratios
+const SCORE_MAX_AGE_MS = 5000;
+// Muse reports blinks as a flag without strength
+const MUSE_BLINK_STRENGTH = 60;
+
+// Horseshoe fit per electrode: 1 = good, 2 = ok, 4 = bad
+function horseshoeQuality(values: number[]): number {
+  const scores = values.map((value): number => value <= 1 ? 100 : value <= 2 ? 50 : 0);
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+function averageFinite(args: unknown[]): number | null {
+  const values = args.filter((arg): arg is number => typeof arg === 'number' && Number.isFinite(arg));
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Receives OSC over UDP from Muse-style headbands (Mind Monitor, muse-io). Raw /muse/eeg
+// is ignored: the raw pipeline assumes ThinkGear's 512 Hz single channel.
+export class OscEegSource extends EventEmitter implements EegSource {
+  readonly kind = 'osc';
+  private socket: Socket | null = null;
+  private options: Required<OscEegSourceOptions>;
+  private bands: Partial<Record<SpectralBand, number>> = {};
+  private signalQuality: number | null = null;
+  private touchingForehead = true;
+  private concentration: { value: number; at: number } | null = null;
+  private mellow: { value: number; at: number } | null = null;
+  private lastDataAt = 0;
+  private currentData: BrainwaveData | null = null;
+  private stats = { packets: 0, messages: 0, malformedPackets: 0, lastPacketAt: null as number | null };
+
+  constructor(options: OscEegSourceOptions = {}) {
+    super();
+    this.options = {
+      host: options.host ?? '0.0.0.0',
+      port: options.port ?? 5000,
+    };
+  }
+
+  connect(): Promise<void> {
+    if (this.socket) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const socket = createSocket('udp4');
+
+      socket.once('error', (error) => {
+        this.socket = null;
+        socket.close();
+        reject(new Error(`Cannot listen for OSC on ${this.options.host}:${this.options.port}: ${error.message}`));
+      });
+
+      socket.on('message', (packet) => this.handlePacket(packet));
+
+      socket.bind(this.options.port, this.options.host, () => {
+        socket.removeAllListeners('error');
+        socket.on('error', (error) => {
+          this.emit('error', new Error(`OSC socket error: ${error.message}`));
+        });
+
+        this.socket = socket;
+        console.log(`Listening for Muse OSC on ${this.options.host}:${this.options.port}`);
+        this.emit('connected');
+        resolve();
+      });
+    });
+  }
+
+  disconnect(): void {
+    if (!this.socket) return;
+
+    this.socket.close();
+    this.socket = null;
+    this.bands = {};
+    this.emit('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.socket !== null;
+  }
+
+  getCurrentData(): BrainwaveData | null {
+    return this.currentData;
+  }
+
+  getStatus() {
+    return {
+      config: { host: this.options.host, port: this.options.port },
+      touchingForehead: this.touchingForehead,
+      osc: { ...this.stats },
+    };
+  }
+
+  private handlePacket(packet: Buffer): void {
+    this.stats.packets++;
+    this.stats.lastPacketAt = Date.now();
+
+    let messages: OscMessage[];
+    try {
+      messages = decodeOscPacket(packet);
+    } catch (error) {
+      this.stats.malformedPackets++;
+      return;
+    }
+
+    for (const message of messages) {
+      this.stats.messages++;
+      this.handleMessage(message);
+    }
+  }
+
+  private handleMessage({ address, args }: OscMessage): void {
+    const band = MUSE_BAND_ADDRESSES[address];
+    if (band) {
+      const value = averageFinite(args);
+      if (value !== null) {
+        this.bands[band] = value;
+        this.maybeEmitData();
+      }
+      return;
+    }
+
+    switch (address) {
+      case '/muse/elements/horseshoe': {
+        const values = args.filter((arg): arg is number => typeof arg === 'number');
+        if (values.length > 0) this.signalQuality = horseshoeQuality(values);
+        break;
+      }
+      case '/muse/elements/touching_forehead':
+        this.touchingForehead = args[0] === 1 || args[0] === true;
+        break;
+      case '/muse/elements/blink':
+        if (args[0] === 1 || args[0] === true) {
+          this.emit('blink', { strength: MUSE_BLINK_STRENGTH, timestamp: Date.now() });
+        }
+        break;
+      case '/muse/elements/experimental/concentration':
+      case '/muse/elements/experimental/mellow': {
+        const value = averageFinite(args);
+        if (value === null) break;
+        const score = { value: Math.max(0, Math.min(1, value)), at: Date.now() };
+        if (address.endsWith('concentration')) {
+          this.concentration = score;
+        } else {
+          this.mellow = score;
+        }
+        break;
+      }
+    }
+  }
+
+  private maybeEmitData(): void {
+    const now = Date.now();
+    const { delta, theta, alpha, beta, gamma } = this.bands;
+    if (delta === undefined || theta === undefined || alpha === undefined || beta === undefined || gamma === undefined) {
+      return;
+    }
+    if (now - this.lastDataAt < DATA_INTERVAL_MS) return;
+    this.lastDataAt = now;
+
+    const powers = {
+      delta: Math.pow(10, delta),
+      theta: Math.pow(10, theta),
+      alpha: Math.pow(10, alpha),
+      beta: Math.pow(10, beta),
+      gamma: Math.pow(10, gamma),
+    };
+    this.emit('bands', toSpectralBandPower(powers, 'muse', 1, now));
+
+    // Not every sender forwards horseshoe; assume good contact until told otherwise
+    const signalQuality = this.touchingForehead ? this.signalQuality ?? 100 : 0;
+
+    this.currentData = {
+      attention: this.scoreOrRatio(this.concentration, powers.beta / (powers.alpha + powers.theta)),
+      meditation: this.scoreOrRatio(this.mellow, powers.alpha / powers.beta),
+      signalQuality,
+      poorSignalLevel: (100 - signalQuality) * 2,
+      timestamp: now,
+    };
+    this.emit('data', this.currentData);
+  }
+
+  // Muse doesn't compute eSense. Use the SDK's concentration/mellow scores when the sender
+  // forwards them; otherwise map an index (engagement beta/(alpha+theta), relaxation alpha/beta)
+  // onto 0-100 so that an index of 1 lands at 50.
+  private scoreOrRatio(score: { value: number; at: number } | null, index: number): number {
+    if (score && Date.now() - score.at < SCORE_MAX_AGE_MS) {
+      return Math.round(score.value * 100);
+    }
+    if (!Number.isFinite(index) || index <= 0) return 0;
+    return Math.round((100 * index) / (1 + index));
+  }
+}
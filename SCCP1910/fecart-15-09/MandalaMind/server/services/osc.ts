@@ -0,0 +1,142 @@
+// Minimal OSC 1.0 codec: enough for the float/int/string messages (and bundles) that
+// Mind Monitor and the Muse SDK send over UDP
+
+export type OscArgument = number | string | boolean | Buffer;
+
+export interface OscMessage {
+  address: string;
+  args: OscArgument[];
+}
+
+function padded(length: number): number {
+  return (length + 4) & ~3;
+}
+
+function readString(buffer: Buffer, offset: number): { value: string; next: number } {
+  const end = buffer.indexOf(0, offset);
+  if (end === -1) {
+    throw new Error('Unterminated OSC string');
+  }
+  return { value: buffer.toString('ascii', offset, end), next: offset + padded(end - offset) };
+}
+
+function decodeMessage(buffer: Buffer): OscMessage {
+  const address = readString(buffer, 0);
+  if (!address.value.startsWith('/')) {
+    throw new Error(`Invalid OSC address: ${address.value}`);
+  }
+
+  // Very old senders omit the type tag string entirely
+  if (address.next >= buffer.length) {
+    return { address: address.value, args: [] };
+  }
+
+  const typeTags = readString(buffer, address.next);
+  if (!typeTags.value.startsWith(',')) {
+    throw new Error('Missing OSC type tag string');
+  }
+
+  const args: OscArgument[] = [];
+  let offset = typeTags.next;
+
+  for (const tag of typeTags.value.slice(1)) {
+    switch (tag) {
+      case 'i':
+        args.push(buffer.readInt32BE(offset));
+        offset += 4;
+        break;
+      case 'f':
+        args.push(buffer.readFloatBE(offset));
+        offset += 4;
+        break;
+      case 'd':
+        args.push(buffer.readDoubleBE(offset));
+        offset += 8;
+        break;
+      case 'h':
+        args.push(Number(buffer.readBigInt64BE(offset)));
+        offset += 8;
+        break;
+      case 's': {
+        const value = readString(buffer, offset);
+        args.push(value.value);
+        offset = value.next;
+        break;
+      }
+      case 'b': {
+        const size = buffer.readInt32BE(offset);
+        args.push(buffer.subarray(offset + 4, offset + 4 + size));
+        offset += 4 + ((size + 3) & ~3);
+        break;
+      }
+      case 'T':
+        args.push(true);
+        break;
+      case 'F':
+        args.push(false);
+        break;
+      case 'N':
+      case 'I':
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag: ${tag}`);
+    }
+  }
+
+  return { address: address.value, args };
+}
+
+// Decodes a UDP datagram, flattening bundles into their messages
+export function decodeOscPacket(buffer: Buffer): OscMessage[] {
+  if (buffer.length >= 8 && buffer.toString('ascii', 0, 8) === '#bundle\0') {
+    const messages: OscMessage[] = [];
+    // Skip the 8-byte time tag; we act on messages as they arrive
+    let offset = 16;
+    while (offset + 4 <= buffer.length) {
+      const size = buffer.readInt32BE(offset);
+      messages.push(...decodeOscPacket(buffer.subarray(offset + 4, offset + 4 + size)));
+      offset += 4 + size;
+    }
+    return messages;
+  }
+
+  return [decodeMessage(buffer)];
+}
+
+function encodeString(value: string): Buffer {
+  const bytes = Buffer.alloc(padded(Buffer.byteLength(value, 'ascii')));
+  bytes.write(value, 'ascii');
+  return bytes;
+}
+
+// Integers are sent as 'i', everything else numeric as 'f'
+export function encodeOscMessage(address: string, args: OscArgument[]): Buffer {
+  let typeTags = ',';
+  const parts: Buffer[] = [];
+
+  for (const arg of args) {
+    if (typeof arg === 'number') {
+      const bytes = Buffer.alloc(4);
+      if (Number.isInteger(arg)) {
+        typeTags += 'i';
+        bytes.writeInt32BE(arg);
+      } else {
+        typeTags += 'f';
+        bytes.writeFloatBE(arg);
+      }
+      parts.push(bytes);
+    } else if (typeof arg === 'string') {
+      typeTags += 's';
+      parts.push(encodeString(arg));
+    } else if (typeof arg === 'boolean') {
+      typeTags += arg ? 'T' : 'F';
+    } else {
+      typeTags += 'b';
+      const size = Buffer.alloc(4);
+      size.writeInt32BE(arg.length);
+      parts.push(size, arg, Buffer.alloc(((arg.length + 3) & ~3) - arg.length));
+    }
+  }
+
+  return Buffer.concat([encodeString(address), encodeString(typeTags), ...parts]);
+}
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RawEegBuffer } from './raw-eeg-buffer';
+import type { RawEegBatch } from '@shared/schema';
+
+describe('RawEegBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('averages groups and stamps batches with the arrival of their first and last sample', () => {
+    const buffer = new RawEegBuffer({ sampleRate: 512, decimation: 4, batchIntervalMs: 100 });
+    const batches: RawEegBatch[] = [];
+    buffer.on('batch', (batch: RawEegBatch) => batches.push(batch));
+
+    // 10 samples 2 ms apart; the last 2 don't make a whole group and wait for the next batch
+    for (let i = 0; i < 10; i++) {
+      buffer.push(i * 10, 1000 + i * 2);
+    }
+    vi.advanceTimersByTime(100);
+    expect(batches).toEqual([{ samples: [15, 55], sampleRate: 128, startTimestamp: 1000, timestamp: 1014 }]);
+
+    // Delivered late and in a burst, the remainder still leads the next batch
+    for (let i = 10; i < 12; i++) {
+      buffer.push(i * 10, 1300 + i);
+    }
+    vi.advanceTimersByTime(100);
+    expect(batches[1]).toEqual({ samples: [95], sampleRate: 128, startTimestamp: 1016, timestamp: 1311 });
+
+    buffer.stop();
+  });
+});
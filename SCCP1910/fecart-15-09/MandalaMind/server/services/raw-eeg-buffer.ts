@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { RawEegBatch } from '@shared/schema';
+
+export interface RawEegBufferOptions {
+  sampleRate?: number;
+  // Keep every Nth (averaged) sample for delivery, e.g. 4 turns 512 Hz into 128 Hz
+  decimation?: number;
+  batchIntervalMs?: number;
+  bufferSeconds?: number;
+}
+
+// Collects the 512 Hz rawEeg stream in a fixed-size ring buffer and periodically emits
+// decimated batches, so WebSocket clients get ~10 messages per second instead of 512
+export class RawEegBuffer extends EventEmitter {
+  private readonly samples: Float32Array;
+  // Arrival time of each sample in the ring, so batches know when their samples came in
+  private readonly timestamps: Float64Array;
+  private readonly sampleRate: number;
+  private readonly decimation: number;
+  private readonly batchIntervalMs: number;
+  private writeIndex = 0;
+  private totalSamples = 0;
+  private sentSamples = 0;
+  private batchTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: RawEegBufferOptions = {}) {
+    super();
+    this.sampleRate = options.sampleRate ?? 512;
+    this.decimation = Math.max(1, options.decimation ?? 4);
+    this.batchIntervalMs = options.batchIntervalMs ?? 100;
+    this.samples = new Float32Array(this.sampleRate * (options.bufferSeconds ?? 10));
+    this.timestamps = new Float64Array(this.samples.length);
+  }
+
+  push(value: number, timestamp: number = Date.now()): void {
+    this.samples[this.writeIndex] = value;
+    this.timestamps[this.writeIndex] = timestamp;
+    this.writeIndex = (this.writeIndex + 1) % this.samples.length;
+    this.totalSamples++;
+
+    if (!this.batchTimer) {
+      this.batchTimer = setInterval(() => this.flush(), this.batchIntervalMs);
+    }
+  }
+
+  // Most recent samples at full rate, oldest first
+  getRecent(count: number): number[] {
+    const available = Math.min(count, this.totalSamples, this.samples.length);
+    return this.read(this.totalSamples - available, available);
+  }
+
+  reset(): void {
+    this.stop();
+    this.writeIndex = 0;
+    this.totalSamples = 0;
+    this.sentSamples = 0;
+  }
+
+  stop(): void {
+    if (this.batchTimer) {
+      clearInterval(this.batchTimer);
+      this.batchTimer = null;
+    }
+  }
+
+  private flush(): void {
+    // If delivery fell behind by more than the ring holds, skip what was overwritten
+    const oldestAvailable = Math.max(0, this.totalSamples - this.samples.length);
+    this.sentSamples = Math.max(this.sentSamples, oldestAvailable);
+
+    // Only send whole decimation groups; the remainder waits for the next flush
+    const pending = this.totalSamples - this.sentSamples;
+    const groups = Math.floor(pending / this.decimation);
+
+    if (groups === 0) {
+      // Stream went quiet; stop ticking until samples arrive again
+      if (pending === 0) this.stop();
+      return;
+    }
+
+    const sendCount = groups * this.decimation;
+    const raw = this.read(this.sentSamples, sendCount);
+    const capacity = this.samples.length;
+    const startTimestamp = this.timestamps[this.sentSamples % capacity];
+    const timestamp = this.timestamps[(this.sentSamples + sendCount - 1) % capacity];
+    this.sentSamples += sendCount;
+
+    // Average each group as a cheap low-pass before downsampling
+    const decimated: number[] = [];
+    for (let group = 0; group < groups; group++) {
+      let sum = 0;
+      for (let i = 0; i < this.decimation; i++) {
+        sum += raw[group * this.decimation + i];
+      }
+      decimated.push(Math.round(sum / this.decimation));
+    }
+
+    const batch: RawEegBatch = {
+      samples: decimated,
+      sampleRate: this.sampleRate / this.decimation,
+      startTimestamp,
+      timestamp,
+    };
+    this.emit('batch', batch);
+  }
+
+  private read(fromSample: number, count: number): number[] {
+    const result: number[] = new Array(count);
+    const capacity = this.samples.length;
+    for (let i = 0; i < count; i++) {
+      result[i] = this.samples[(fromSample + i) % capacity];
+    }
+    return result;
+  }
+}
@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import { BrainwaveData } from '@shared/schema';
+import { EegReplayer } from './eeg-recording';
+import { ThinkGearInterpreter } from './thinkgear-interpreter';
+import type { EegSource } from './eeg-source';
+
+// Plays a ThinkGear recording back through the same interpreter as a live headset.
+// Emits 'replayEnded' with the final status when the recording runs out.
+export class ReplayEegSource extends EventEmitter implements EegSource {
+  readonly kind = 'replay';
+  private interpreter = new ThinkGearInterpreter();
+  private playing = false;
+
+  private constructor(private replayer: EegReplayer, private speed: number) {
+    super();
+    this.interpreter.pipeTo(this);
+  }
+
+  // Loads (and validates) the recording up front so a bad name doesn't interrupt the current source
+  static async load(recordingName: string, speed: number = 1): Promise<ReplayEegSource> {
+    const replayer = await EegReplayer.load(recordingName);
+    replayer.setSpeed(speed);
+    return new ReplayEegSource(replayer, speed);
+  }
+
+  async connect(): Promise<void> {
+    if (this.playing) return;
+
+    const replayer = this.replayer;
+    replayer.on('message', (message) => this.interpreter.interpret(message));
+    replayer.on('end', () => {
+      console.log(`Replay of ${replayer.name} finished`);
+      this.emit('replayEnded', replayer.getStatus());
+      this.disconnect();
+    });
+
+    console.log(`Replaying ${replayer.name} at ${this.speed}x`);
+    this.playing = true;
+    this.emit('connected');
+    replayer.play(this.speed);
+  }
+
+  disconnect(): void {
+    if (!this.playing) return;
+
+    this.replayer.removeAllListeners();
+    this.replayer.stop();
+    this.playing = false;
+    this.emit('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.playing;
+  }
+
+  getCurrentData(): BrainwaveData | null {
+    return this.interpreter.getCurrentData();
+  }
+
+  getStatus() {
+    return { replay: this.getReplayStatus() };
+  }
+
+  getReplayStatus() {
+    return this.playing ? this.replayer.getStatus() : null;
+  }
+
+  pause(): void {
+    this.requireReplayer().pause();
+  }
+
+  resume(): void {
+    this.requireReplayer().resume();
+  }
+
+  setSpeed(speed: number): void {
+    this.requireReplayer().setSpeed(speed);
+    this.speed = speed;
+  }
+
+  private requireReplayer(): EegReplayer {
+    if (!this.playing) {
+      throw new Error('Replay mode is not active');
+    }
+    return this.replayer;
+  }
+}
@@ -0,0 +1,113 @@
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { assetKeyFor, isAssetKey, type AssetMetadata, type AssetStore, type StoredAsset } from './asset-store';
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3AssetStoreOptions {
+  // e.g. http://localhost:9000 for MinIO; buckets are addressed path-style (endpoint/bucket/key)
+  endpoint: string;
+  bucket: string;
+  region: string;
+  // Prepended to every key, e.g. "mandalas/"
+  prefix: string;
+  credentials: S3Credentials;
+}
+
+export interface SignableRequest {
+  method: string;
+  // Already URI-encoded
+  path: string;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// AWS Signature Version 4 for a request without a query string. Returns the Authorization header;
+// every header passed in (host and x-amz-date included) is signed.
+export function signS3Request(request: SignableRequest, credentials: S3Credentials, region: string): string {
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+  );
+  const amzDate = headers['x-amz-date'];
+  const dateStamp = amzDate.slice(0, 8);
+  const signedHeaders = Object.keys(headers).sort();
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    '',
+    signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`;
+}
+
+// Keeps assets in an S3-compatible bucket (AWS S3, MinIO, ...), talking to it over plain signed HTTP
+export class S3AssetStore implements AssetStore {
+  constructor(private options: S3AssetStoreOptions) {}
+
+  async put(data: Buffer, contentType: string): Promise<AssetMetadata> {
+    const key = assetKeyFor(data, contentType);
+    const response = await this.request('PUT', key, { body: data, contentType });
+    if (!response.ok) {
+      throw new Error(`Storing ${key} in S3 failed: ${response.status} ${await response.text()}`);
+    }
+    return { key, contentType, size: data.length };
+  }
+
+  async get(key: string): Promise<StoredAsset | undefined> {
+    if (!isAssetKey(key)) return undefined;
+
+    const response = await this.request('GET', key);
+    if (response.status === 404) return undefined;
+    if (!response.ok || !response.body) {
+      throw new Error(`Reading ${key} from S3 failed: ${response.status}`);
+    }
+    return {
+      key,
+      contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+      size: parseInt(response.headers.get('content-length') ?? '0', 10),
+      stream: Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+    };
+  }
+
+  private request(method: 'GET' | 'PUT', key: string, options: { body?: Buffer; contentType?: string } = {}): Promise<Response> {
+    const { endpoint, bucket, region, prefix, credentials } = this.options;
+    const objectPath = [bucket, ...`${prefix}${key}`.split('/')].map(encodeURIComponent).join('/');
+    const url = new URL(`${endpoint.replace(/\/$/, '')}/${objectPath}`);
+
+    const payloadHash = sha256Hex(options.body ?? '');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-date': new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''),
+      'x-amz-content-sha256': payloadHash,
+    };
+    if (options.contentType) {
+      headers['content-type'] = options.contentType;
+    }
+    const authorization = signS3Request({ method, path: url.pathname, headers, payloadHash }, credentials, region);
+
+    // fetch sets Host itself
+    const { host: _host, ...sentHeaders } = headers;
+    return fetch(url, { method, headers: { ...sentHeaders, authorization }, body: options.body });
+  }
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buffer } from 'stream/consumers';
+import { gunzipSync, gzipSync } from 'zlib';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemStorage } from '../storage';
+import { FileAssetStore } from './asset-store';
+import { exportSessionBundle, importSessionBundle, SESSION_BUNDLE_SCHEMA_VERSION } from './session-bundle';
+import { createTar, readTar } from './tar';
+
+const assetsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-bundle-'));
+const START = Date.UTC(2026, 0, 2, 10, 0, 0);
+const IMAGE = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+afterAll(() => fs.rmSync(assetsDir, { recursive: true, force: true }));
+
+// Drops ids so records from both servers compare
+const withoutIds = <T extends { id: string; sessionId: string | null }>(records: T[]) =>
+  records.map(({ id: _id, sessionId: _sessionId, ...fields }) => fields);
+
+describe('session bundles', () => {
+  let source: MemStorage;
+  let assets: FileAssetStore;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    source = new MemStorage();
+    assets = new FileAssetStore(assetsDir);
+    const session = await source.createSession({ voiceTranscript: 'a "quoted", multi\nline transcript' });
+    sessionId = session.id;
+    await source.addEegDataBatch(Array.from({ length: 3 }, (_, i) => ({
+      sessionId,
+      attention: 40 + i,
+      meditation: 60 - i,
+      signalQuality: 100,
+      isReliable: i !== 1,
+      artifacts: i === 1 ? ['blink'] : null,
+      timestamp: new Date(START + i * 1000),
+    })));
+    await source.addRawEegSegments([{ sessionId, sampleRate: 128, samples: [1, -2, 3], timestamp: new Date(START) }]);
+    const image = await assets.put(IMAGE, 'image/png');
+    const mandala = await source.createMandala({
+      sessionId,
+      imageUrl: '',
+      imageKey: image.key,
+      prompt: 'spirals',
+      brainwaveData: { attention: 41 },
+      createdAt: new Date(START + 2500),
+    });
+    const mandalaUrl = `/api/mandalas/${mandala.id}/image`;
+    await source.updateMandala(mandala.id, { imageUrl: mandalaUrl });
+    await source.updateSession(sessionId, { status: 'closed', isActive: false, closedAt: new Date(START + 3000), mandalaUrl });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('imports what it exports as a new closed session', async () => {
+    const bundle = (await exportSessionBundle(source, assets, sessionId))!;
+    expect(bundle.manifest.schemaVersion).toBe(SESSION_BUNDLE_SCHEMA_VERSION);
+
+    const target = new MemStorage();
+    const createSession = vi.spyOn(target, 'createSession');
+    const result = await importSessionBundle(target, assets, bundle.data);
+
+    expect(result.sessionId).not.toBe(sessionId);
+    expect(result.counts).toMatchObject({ samples: 3, rawSegments: 1, mandalas: 1 });
+    // Never active, not even before its data is in
+    expect(await createSession.mock.results[0].value).toMatchObject({ status: 'closed', isActive: false });
+
+    const [mandala] = await target.getMandalasForSession(result.sessionId);
+    expect(mandala).toMatchObject({ prompt: 'spirals', brainwaveData: { attention: 41 }, imageUrl: `/api/mandalas/${mandala.id}/image` });
+    expect(await target.getSession(result.sessionId)).toMatchObject({ status: 'closed', isActive: false, mandalaUrl: mandala.imageUrl });
+    expect(await buffer((await assets.get(mandala.imageKey!))!.stream)).toEqual(IMAGE);
+    expect(withoutIds(await target.getEegDataForSession(result.sessionId))).toEqual(withoutIds(await source.getEegDataForSession(sessionId)));
+    expect(withoutIds(await target.getRawEegSegmentsForSession(result.sessionId))).toEqual(withoutIds(await source.getRawEegSegmentsForSession(sessionId)));
+  });
+
+  it('imports version 1 bundles, which have no raw-eeg.csv', async () => {
+    const bundle = (await exportSessionBundle(source, assets, sessionId))!;
+    const entries = readTar(gunzipSync(bundle.data)).filter(entry => entry.name !== 'raw-eeg.csv');
+    const manifestEntry = entries.find(entry => entry.name === 'manifest.json')!;
+    const { rawSegments: _rawSegments, ...counts } = bundle.manifest.counts;
+    const manifest = {
+      ...bundle.manifest,
+      counts,
+      files: bundle.manifest.files.filter(file => file.path !== 'raw-eeg.csv'),
+    };
+
+    manifestEntry.data = Buffer.from(JSON.stringify({ ...manifest, schemaVersion: 1 }));
+    const target = new MemStorage();
+    const result = await importSessionBundle(target, assets, gzipSync(createTar(entries)));
+    expect(result.counts).toMatchObject({ samples: 3, rawSegments: 0 });
+    expect(await target.getRawEegSegmentsForSession(result.sessionId)).toEqual([]);
+
+    // From version 2 on the file is required
+    manifestEntry.data = Buffer.from(JSON.stringify({ ...manifest, schemaVersion: 2 }));
+    await expect(importSessionBundle(new MemStorage(), assets, gzipSync(createTar(entries)))).rejects.toThrow('Bundle has no raw-eeg.csv');
+  });
+
+  it('removes the session again when a write fails part way through', async () => {
+    const bundle = (await exportSessionBundle(source, assets, sessionId))!;
+    const target = new MemStorage();
+    const createSession = vi.spyOn(target, 'createSession');
+    vi.spyOn(target, 'addEegDataBatch').mockRejectedValue(new Error('disk full'));
+
+    await expect(importSessionBundle(target, assets, bundle.data)).rejects.toThrow('disk full');
+    const { id } = await createSession.mock.results[0].value;
+    expect(await target.getSession(id)).toBeUndefined();
+    // Mandalas are written before the samples
+    expect(await target.getRecentMandalas(10)).toEqual([]);
+  });
+
+  it('rejects bundles from a newer schema', async () => {
+    const bundle = (await exportSessionBundle(source, assets, sessionId))!;
+    const entries = readTar(gunzipSync(bundle.data));
+    entries.find(entry => entry.name === 'manifest.json')!.data = Buffer.from(JSON.stringify({ ...bundle.manifest, schemaVersion: SESSION_BUNDLE_SCHEMA_VERSION + 1 }));
+    await expect(importSessionBundle(new MemStorage(), assets, gzipSync(createTar(entries)))).rejects.toThrow('is newer than the supported');
+  });
+
+  it('rejects damaged files', async () => {
+    const bundle = (await exportSessionBundle(source, assets, sessionId))!;
+    const entries = readTar(gunzipSync(bundle.data));
+    entries.find(entry => entry.name === 'eeg.csv')!.data = Buffer.from('timestamp\r\n');
+    await expect(importSessionBundle(new MemStorage(), assets, gzipSync(createTar(entries)))).rejects.toThrow('Bundle file eeg.csv is missing or damaged');
+  });
+});
@@ -0,0 +1,400 @@
+import { createHash } from 'crypto';
+import { buffer } from 'stream/consumers';
+import { gunzipSync, gzipSync } from 'zlib';
+import { z } from 'zod';
+import type { IStorage } from '../storage';
+import { contentTypeForKey, extensionForContentType, type AssetStore } from './asset-store';
+import { parseCsv, toCsv, type CsvValue } from './csv';
+import { createTar, readTar, type TarEntry } from './tar';
+import {
+  insertSessionSchema,
+  insertMandalaSchema,
+  insertSessionMarkerSchema,
+  EEG_ROLLUP_RESOLUTIONS,
+  type InsertEegData,
+  type InsertRawEegSegment,
+  type InsertEegRollup,
+  type InsertEegPower,
+  type InsertBlinkEvent,
+  type Mandala,
+  type SessionBundleCounts,
+  type SessionBundleManifest,
+  type SessionSummary,
+} from '@shared/schema';
+
+// A session bundle is a gzipped tar holding everything recorded for one session:
+//   manifest.json         SessionBundleManifest
+//   session.json          the session record, baseline and summary included
+//   eeg.csv               raw samples
+//   raw-eeg.csv           raw waveform segments, for headsets with raw output on (since version 2)
+//   eeg-power.csv         band powers
+//   blinks.csv            blink events
+//   eeg-rollups.csv       1s and 10s aggregates, which outlive the raw samples
+//   markers.json          timeline markers
+//   mandalas/<id>.json    each mandala's prompt, transcript and the brainwave data it was generated from
+//   mandalas/<id>.<ext>   its image, for images this server holds the bytes of
+export const SESSION_BUNDLE_FORMAT = 'mandalamind-session';
+export const SESSION_BUNDLE_SCHEMA_VERSION = 2;
+
+const IMPORT_BATCH_SIZE = 500;
+// Guards against archives that unpack to far more than they weigh
+const MAX_UNPACKED_BUNDLE_BYTES = 512 * 1024 * 1024;
+
+const POWER_BANDS = ['delta', 'theta', 'lowAlpha', 'highAlpha', 'lowBeta', 'highBeta', 'lowGamma', 'highGamma'] as const;
+const ROLLUP_FIELDS = [
+  'sampleCount',
+  'reliableCount',
+  'attentionMean',
+  'attentionMin',
+  'attentionMax',
+  'meditationMean',
+  'meditationMin',
+  'meditationMax',
+  'signalQualityMean',
+  'signalQualityMin',
+  'signalQualityMax',
+] as const;
+
+const SAMPLE_COLUMNS = ['timestamp', 'attention', 'meditation', 'signal_quality', 'is_reliable', 'artifacts', 'raw_data'];
+const RAW_SEGMENT_COLUMNS = ['timestamp', 'sample_rate', 'samples'];
+const POWER_COLUMNS = ['timestamp', ...POWER_BANDS.map(toSnakeCase)];
+const BLINK_COLUMNS = ['timestamp', 'strength'];
+const ROLLUP_COLUMNS = ['resolution', 'bucket_start', ...ROLLUP_FIELDS.map(toSnakeCase)];
+
+const manifestSchema = z.object({
+  format: z.literal(SESSION_BUNDLE_FORMAT),
+  schemaVersion: z.number().int().positive(),
+  sessionId: z.string(),
+  files: z.array(z.object({ path: z.string(), size: z.number(), sha256: z.string() })),
+});
+
+// JSON turns dates into ISO strings, so they are read back with coercion
+const sessionRecordSchema = insertSessionSchema.extend({
+  createdAt: z.coerce.date(),
+  lastActivityAt: z.coerce.date(),
+  closedAt: z.coerce.date().nullable(),
+});
+
+const mandalaRecordSchema = insertMandalaSchema.omit({ sessionId: true, imageKey: true }).extend({
+  id: z.string(),
+  createdAt: z.coerce.date(),
+  // Path of the image inside the bundle; null when only imageUrl is known
+  image: z.string().nullable(),
+});
+
+const markerRecordSchema = insertSessionMarkerSchema.omit({ sessionId: true }).extend({
+  timestamp: z.coerce.date(),
+});
+
+export interface SessionBundle {
+  fileName: string;
+  data: Buffer;
+  manifest: SessionBundleManifest;
+}
+
+export interface SessionBundleImport {
+  sessionId: string;
+  counts: SessionBundleCounts;
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+function sha256Hex(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function jsonEntry(name: string, value: unknown): TarEntry {
+  return { name, data: Buffer.from(JSON.stringify(value, null, 2)) };
+}
+
+function csvEntry(name: string, header: string[], rows: CsvValue[][]): TarEntry {
+  return { name, data: Buffer.from(toCsv(header, rows)) };
+}
+
+function jsonCell(value: unknown): string | null {
+  return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+// Resolves to undefined for images that only exist behind an external link
+async function readMandalaImage(assets: AssetStore, mandala: Mandala): Promise<{ data: Buffer; extension: string } | undefined> {
+  if (mandala.imageKey) {
+    const asset = await assets.get(mandala.imageKey);
+    if (!asset) {
+      console.warn(`Image ${mandala.imageKey} of mandala ${mandala.id} is missing from the asset store, exporting without it`);
+      return undefined;
+    }
+    return { data: await buffer(asset.stream), extension: mandala.imageKey.split('.').pop()! };
+  }
+
+  // Mandalas from before the asset store keep their image in imageUrl
+  const dataUrl = mandala.imageUrl.match(/^data:([^;,]+)[^,]*,(.*)$/);
+  const extension = dataUrl && extensionForContentType(dataUrl[1]);
+  if (!dataUrl || !extension) return undefined;
+  return { data: Buffer.from(dataUrl[2], 'base64'), extension };
+}
+
+// Resolves to undefined for unknown sessions. Callers should flush buffered samples first.
+export async function exportSessionBundle(storage: IStorage, assets: AssetStore, sessionId: string): Promise<SessionBundle | undefined> {
+  const session = await storage.getSession(sessionId);
+  if (!session) return undefined;
+
+  const [samples, rawSegments, rollupTiers, eegPower, blinks, markers, mandalas] = await Promise.all([
+    storage.getEegDataForSession(sessionId),
+    storage.getRawEegSegmentsForSession(sessionId),
+    Promise.all(EEG_ROLLUP_RESOLUTIONS.map(resolution => storage.getEegRollupsForSession(sessionId, resolution))),
+    storage.getEegPowerForSession(sessionId),
+    storage.getBlinkEventsForSession(sessionId),
+    storage.getMarkersForSession(sessionId),
+    storage.getMandalasForSession(sessionId),
+  ]);
+  const rollups = rollupTiers.flat();
+
+  const files: TarEntry[] = [
+    jsonEntry('session.json', session),
+    csvEntry('eeg.csv', SAMPLE_COLUMNS, samples.map(sample => [
+      sample.timestamp.toISOString(),
+      sample.attention,
+      sample.meditation,
+      sample.signalQuality,
+      sample.isReliable,
+      jsonCell(sample.artifacts),
+      jsonCell(sample.rawData),
+    ])),
+    csvEntry('raw-eeg.csv', RAW_SEGMENT_COLUMNS, rawSegments.map(segment => [
+      segment.timestamp.toISOString(),
+      segment.sampleRate,
+      jsonCell(segment.samples),
+    ])),
+    csvEntry('eeg-power.csv', POWER_COLUMNS, eegPower.map(power => [
+      power.timestamp.toISOString(),
+      ...POWER_BANDS.map(band => power[band]),
+    ])),
+    csvEntry('blinks.csv', BLINK_COLUMNS, blinks.map(blink => [blink.timestamp.toISOString(), blink.strength])),
+    csvEntry('eeg-rollups.csv', ROLLUP_COLUMNS, rollups.map(rollup => [
+      rollup.resolution,
+      rollup.bucketStart.toISOString(),
+      ...ROLLUP_FIELDS.map(field => rollup[field]),
+    ])),
+    jsonEntry('markers.json', markers),
+  ];
+
+  for (const mandala of mandalas) {
+    const image = await readMandalaImage(assets, mandala);
+    const imagePath = image ? `mandalas/${mandala.id}.${image.extension}` : null;
+    files.push(jsonEntry(`mandalas/${mandala.id}.json`, { ...mandala, image: imagePath }));
+    if (image && imagePath) {
+      files.push({ name: imagePath, data: image.data });
+    }
+  }
+
+  const manifest: SessionBundleManifest = {
+    format: SESSION_BUNDLE_FORMAT,
+    schemaVersion: SESSION_BUNDLE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    sessionId,
+    counts: {
+      samples: samples.length,
+      rawSegments: rawSegments.length,
+      rollups: rollups.length,
+      eegPower: eegPower.length,
+      blinks: blinks.length,
+      markers: markers.length,
+      mandalas: mandalas.length,
+    },
+    files: files.map(file => ({ path: file.name, size: file.data.length, sha256: sha256Hex(file.data) })),
+  };
+
+  return {
+    fileName: `mandalamind-session-${sessionId}.tar.gz`,
+    data: gzipSync(createTar([jsonEntry('manifest.json', manifest), ...files])),
+    manifest,
+  };
+}
+
+function readFile(files: Map<string, Buffer>, name: string): string {
+  const data = files.get(name);
+  if (!data) {
+    throw new Error(`Bundle has no ${name}`);
+  }
+  return data.toString('utf8');
+}
+
+function readJson(files: Map<string, Buffer>, name: string): unknown {
+  const text = readFile(files, name);
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Maps every CSV row through toRecord, naming the file and line of the first bad value
+function readCsv<T>(files: Map<string, Buffer>, name: string, toRecord: (row: Record<string, string>) => T): T[] {
+  return parseCsv(readFile(files, name)).map((row, index) => {
+    try {
+      return toRecord(row);
+    } catch (error) {
+      throw new Error(`${name} line ${index + 2}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+function numberCell(row: Record<string, string>, column: string): number {
+  const value = Number(row[column]);
+  if (row[column] === '' || Number.isNaN(value)) {
+    throw new Error(`${column} is not a number: "${row[column]}"`);
+  }
+  return value;
+}
+
+function dateCell(row: Record<string, string>, column: string): Date {
+  const date = new Date(row[column]);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${column} is not a date: "${row[column]}"`);
+  }
+  return date;
+}
+
+function jsonCellValue(row: Record<string, string>, column: string): InsertEegData['rawData'] {
+  return row[column] === '' ? null : JSON.parse(row[column]);
+}
+
+async function inBatches<T>(items: T[], write: (batch: T[]) => Promise<void>): Promise<void> {
+  for (let i = 0; i < items.length; i += IMPORT_BATCH_SIZE) {
+    await write(items.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+}
+
+// Recreates an exported session under a new id, closed, since its recording is over. The whole
+// bundle is checked before anything is written, so a damaged archive leaves nothing behind, and
+// the session is created closed, so it never shows up as active while its data is still arriving.
+export async function importSessionBundle(storage: IStorage, assets: AssetStore, archive: Buffer): Promise<SessionBundleImport> {
+  let entries: TarEntry[];
+  try {
+    entries = readTar(gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BUNDLE_BYTES }));
+  } catch (error) {
+    throw new Error(`Not a session bundle: ${error instanceof Error ? error.message : error}`);
+  }
+  const files = new Map(entries.map(entry => [entry.name, entry.data]));
+
+  const manifest = manifestSchema.parse(readJson(files, 'manifest.json'));
+  if (manifest.schemaVersion > SESSION_BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`Bundle schema version ${manifest.schemaVersion} is newer than the supported ${SESSION_BUNDLE_SCHEMA_VERSION}`);
+  }
+  for (const file of manifest.files) {
+    const data = files.get(file.path);
+    if (!data || data.length !== file.size || sha256Hex(data) !== file.sha256) {
+      throw new Error(`Bundle file ${file.path} is missing or damaged`);
+    }
+  }
+
+  const sessionRecord = sessionRecordSchema.parse(readJson(files, 'session.json'));
+  const samples = readCsv(files, 'eeg.csv', (row): Omit<InsertEegData, 'sessionId'> => ({
+    timestamp: dateCell(row, 'timestamp'),
+    attention: numberCell(row, 'attention'),
+    meditation: numberCell(row, 'meditation'),
+    signalQuality: numberCell(row, 'signal_quality'),
+    isReliable: row.is_reliable === '' ? null : row.is_reliable === 'true',
+    artifacts: jsonCellValue(row, 'artifacts'),
+    rawData: jsonCellValue(row, 'raw_data'),
+  }));
+  // Version 1 bundles predate stored raw waveforms
+  const rawSegments = manifest.schemaVersion < 2 ? [] : readCsv(files, 'raw-eeg.csv', (row): Omit<InsertRawEegSegment, 'sessionId'> => {
+    const segmentSamples = jsonCellValue(row, 'samples');
+    if (!Array.isArray(segmentSamples) || !segmentSamples.every(value => typeof value === 'number')) {
+      throw new Error('samples is not a list of numbers');
+    }
+    return { timestamp: dateCell(row, 'timestamp'), sampleRate: numberCell(row, 'sample_rate'), samples: segmentSamples };
+  });
+  const eegPower = readCsv(files, 'eeg-power.csv', (row): Omit<InsertEegPower, 'sessionId'> => ({
+    timestamp: dateCell(row, 'timestamp'),
+    ...Object.fromEntries(POWER_BANDS.map(band => [band, numberCell(row, toSnakeCase(band))])) as Record<typeof POWER_BANDS[number], number>,
+  }));
+  const blinks = readCsv(files, 'blinks.csv', (row): Omit<InsertBlinkEvent, 'sessionId'> => ({
+    timestamp: dateCell(row, 'timestamp'),
+    strength: numberCell(row, 'strength'),
+  }));
+  const rollups = readCsv(files, 'eeg-rollups.csv', (row): Omit<InsertEegRollup, 'sessionId'> => {
+    if (!(EEG_ROLLUP_RESOLUTIONS as readonly string[]).includes(row.resolution)) {
+      throw new Error(`unknown resolution "${row.resolution}"`);
+    }
+    return {
+      resolution: row.resolution,
+      bucketStart: dateCell(row, 'bucket_start'),
+      ...Object.fromEntries(ROLLUP_FIELDS.map(field => [field, numberCell(row, toSnakeCase(field))])) as Record<typeof ROLLUP_FIELDS[number], number>,
+    };
+  });
+  const markers = z.array(markerRecordSchema).parse(readJson(files, 'markers.json'));
+  const mandalaRecords = Array.from(files.keys())
+    .filter(name => /^mandalas\/[^/]+\.json$/.test(name))
+    .map(name => mandalaRecordSchema.parse(readJson(files, name)));
+  for (const record of mandalaRecords) {
+    if (record.image && !files.has(record.image)) {
+      throw new Error(`Bundle has no ${record.image}`);
+    }
+  }
+
+  const session = await storage.createSession({ ...sessionRecord, status: 'closed', isActive: false, closedAt: sessionRecord.closedAt ?? new Date() });
+
+  // Storage calls don't share a transaction, so a failed write deletes the session again. Images
+  // already put stay in the asset store, where other mandalas may share them.
+  try {
+    // Mandalas get new ids, so references to the old ones are rewritten below
+    const mandalaIds = new Map<string, string>();
+    const imageUrls = new Map<string, string>();
+    for (const { id: originalId, image, ...record } of mandalaRecords.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())) {
+      if (image) {
+        const asset = await assets.put(files.get(image)!, contentTypeForKey(image));
+        const created = await storage.createMandala({ ...record, sessionId: session.id, imageKey: asset.key, imageUrl: '' });
+        await storage.updateMandala(created.id, { imageUrl: `/api/mandalas/${created.id}/image` });
+        imageUrls.set(record.imageUrl, `/api/mandalas/${created.id}/image`);
+        mandalaIds.set(originalId, created.id);
+      } else {
+        // Images the exporting server only linked to stay links
+        const created = await storage.createMandala({ ...record, sessionId: session.id });
+        mandalaIds.set(originalId, created.id);
+      }
+    }
+
+    await inBatches(samples, batch => storage.addEegDataBatch(batch.map(sample => ({ ...sample, sessionId: session.id }))));
+    await inBatches(rawSegments, batch => storage.addRawEegSegments(batch.map(segment => ({ ...segment, sessionId: session.id }))));
+    await inBatches(rollups, batch => storage.addEegRollups(batch.map(rollup => ({ ...rollup, sessionId: session.id }))));
+    for (const power of eegPower) {
+      await storage.addEegPower({ ...power, sessionId: session.id });
+    }
+    for (const blink of blinks) {
+      await storage.addBlinkEvent({ ...blink, sessionId: session.id });
+    }
+    for (const marker of markers) {
+      const data = marker.data as Record<string, unknown> | null | undefined;
+      const mandalaId = typeof data?.mandalaId === 'string' ? mandalaIds.get(data.mandalaId) : undefined;
+      await storage.addSessionMarker({ ...marker, sessionId: session.id, data: mandalaId ? { ...data, mandalaId } : data });
+    }
+
+    const summary = sessionRecord.summary as SessionSummary | null | undefined;
+    await storage.updateSession(session.id, {
+      mandalaUrl: sessionRecord.mandalaUrl ? imageUrls.get(sessionRecord.mandalaUrl) ?? sessionRecord.mandalaUrl : null,
+      summary: summary ? { ...summary, mandalaIds: summary.mandalaIds.flatMap(id => mandalaIds.get(id) ?? []) } : null,
+    });
+  } catch (error) {
+    await storage.deleteSession(session.id).catch(cleanupError => {
+      console.error('Error removing partly imported session:', cleanupError);
+    });
+    throw error;
+  }
+
+  return {
+    sessionId: session.id,
+    counts: {
+      samples: samples.length,
+      rawSegments: rawSegments.length,
+      rollups: rollups.length,
+      eegPower: eegPower.length,
+      blinks: blinks.length,
+      markers: markers.length,
+      mandalas: mandalaRecords.length,
+    },
+  };
+}
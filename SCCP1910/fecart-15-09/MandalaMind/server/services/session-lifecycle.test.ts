@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { MemStorage } from '../storage';
+import { SessionLifecycle } from './session-lifecycle';
+
+const MINUTE = 60 * 1000;
+
+describe('SessionLifecycle idle expiry', () => {
+  it('keeps a capturing session open while its samples keep arriving', async () => {
+    const storage = new MemStorage();
+    const lifecycle = new SessionLifecycle(storage, { idleTimeoutMs: 30 * MINUTE });
+    const { id } = await storage.createSession({});
+    await lifecycle.transition(id, 'start');
+    const startedAt = Date.now();
+
+    // No requests for 40 minutes, but samples streaming the whole time
+    for (let minute = 1; minute <= 40; minute++) {
+      await lifecycle.recordSampleActivity([id], startedAt + minute * MINUTE);
+    }
+
+    expect(await lifecycle.expireIdleSessions(startedAt + 40 * MINUTE)).toEqual([]);
+    expect((await storage.getSession(id))?.status).toBe('capturing');
+  });
+
+  it('writes sample activity at most once a minute', async () => {
+    const storage = new MemStorage();
+    const lifecycle = new SessionLifecycle(storage);
+    const { id } = await storage.createSession({});
+    await lifecycle.transition(id, 'start');
+    const startedAt = Date.now() + MINUTE;
+
+    await lifecycle.recordSampleActivity([id], startedAt);
+    await lifecycle.recordSampleActivity([id], startedAt + 30 * 1000);
+    expect((await storage.getSession(id))?.lastActivityAt.getTime()).toBe(startedAt);
+  });
+
+  it('expires a capturing session once its samples stop', async () => {
+    const storage = new MemStorage();
+    const lifecycle = new SessionLifecycle(storage, { idleTimeoutMs: 30 * MINUTE });
+    const { id } = await storage.createSession({});
+    await lifecycle.transition(id, 'start');
+    const lastSample = Date.now() + 10 * MINUTE;
+    await lifecycle.recordSampleActivity([id], lastSample);
+
+    expect(await lifecycle.expireIdleSessions(lastSample + 29 * MINUTE)).toEqual([]);
+    const [expired] = await lifecycle.expireIdleSessions(lastSample + 30 * MINUTE);
+    expect(expired).toMatchObject({ id, status: 'closed' });
+  });
+
+  it('ignores samples for sessions that are not capturing', async () => {
+    const storage = new MemStorage();
+    const lifecycle = new SessionLifecycle(storage);
+    const { id, lastActivityAt } = await storage.createSession({});
+
+    await lifecycle.recordSampleActivity([id], Date.now() + 10 * MINUTE);
+    expect((await storage.getSession(id))?.lastActivityAt).toEqual(lastActivityAt);
+  });
+});
@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import type { IStorage } from '../storage';
+import { computeDataConfidence } from './artifact-detector';
+import { summarizeEegWindow } from './eeg-summary';
+import type { BrainwaveBaseline, Session, SessionStatus, SessionSummary } from '@shared/schema';
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+// Streamed samples move lastActivityAt forward at most this often per session
+const SAMPLE_ACTIVITY_INTERVAL_MS = 60 * 1000;
+
+// The states each capture action may be taken from, and where it leads
+const TRANSITIONS = {
+  start: { from: ['idle', 'paused', 'stopped'], to: 'capturing' },
+  pause: { from: ['capturing'], to: 'paused' },
+  stop: { from: ['capturing', 'paused'], to: 'stopped' },
+} satisfies Record<string, { from: SessionStatus[]; to: SessionStatus }>;
+
+export type CaptureAction = keyof typeof TRANSITIONS;
+
+export interface SessionLifecycleOptions {
+  // Sessions with no request on their behalf and no streamed samples for this long are closed
+  idleTimeoutMs?: number;
+  // Writes out samples still buffered in memory, so a closing session's summary includes them
+  flushSamples?: () => Promise<void>;
+}
+
+// Moves sessions through their capture states and closes them, by request or once they sit idle.
+// Emits 'status' (session) after every change and 'closed' (session) when a session is closed.
+export class SessionLifecycle extends EventEmitter {
+  // Checked for every incoming sample, so kept in memory rather than read from storage
+  private capturing = new Set<string>();
+  // When samples last moved each capturing session's lastActivityAt
+  private sampleActivityAt = new Map<string, number>();
+  private expiryInterval: NodeJS.Timeout | null = null;
+  private idleTimeoutMs: number;
+  private flushSamples: () => Promise<void>;
+
+  constructor(private storage: IStorage, options: SessionLifecycleOptions = {}) {
+    super();
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    this.flushSamples = options.flushSamples ?? (async () => {});
+  }
+
+  isCapturing(sessionId: string): boolean {
+    return this.capturing.has(sessionId);
+  }
+
+  // Resolves to undefined for unknown sessions; throws when the session's state doesn't allow the action
+  async transition(sessionId: string, action: CaptureAction): Promise<Session | undefined> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) return undefined;
+
+    const { from, to } = TRANSITIONS[action];
+    if (!(from as string[]).includes(session.status)) {
+      throw new Error(`Cannot ${action} capture while the session is ${session.status}`);
+    }
+
+    const updated = await this.storage.updateSession(sessionId, { status: to, lastActivityAt: new Date() });
+    if (!updated) return undefined;
+
+    if (to === 'capturing') {
+      this.capturing.add(sessionId);
+    } else {
+      this.capturing.delete(sessionId);
+    }
+    this.emit('status', updated);
+    return updated;
+  }
+
+  // Closing twice is harmless: the page closes its session on unload and again on reset
+  async close(sessionId: string, reason: SessionSummary['reason'] = 'closed'): Promise<Session | undefined> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session || session.status === 'closed') return session;
+
+    this.capturing.delete(sessionId);
+    this.sampleActivityAt.delete(sessionId);
+    const closedAt = new Date();
+    const summary = await this.summarize(session, closedAt, reason);
+    const updated = await this.storage.updateSession(sessionId, {
+      status: 'closed',
+      isActive: false,
+      closedAt,
+      summary,
+    });
+    if (!updated) return undefined;
+
+    console.log(`Session ${sessionId} ${reason === 'expired' ? 'expired' : 'closed'}`);
+    this.emit('status', updated);
+    this.emit('closed', updated);
+    return updated;
+  }
+
+  // Any request made on the visitor's behalf keeps the session from expiring
+  async touch(sessionId: string): Promise<void> {
+    const session = await this.storage.getSession(sessionId);
+    if (session && session.status !== 'closed') {
+      await this.storage.updateSession(sessionId, { lastActivityAt: new Date() });
+    }
+  }
+
+  // Samples streaming in count as activity too, so a visitor who keeps wearing the headset without
+  // touching the page isn't closed mid-capture; a session whose headset went quiet still expires
+  async recordSampleActivity(sessionIds: string[], now = Date.now()): Promise<void> {
+    for (const sessionId of sessionIds) {
+      if (!this.capturing.has(sessionId)) continue;
+      if (now - (this.sampleActivityAt.get(sessionId) ?? 0) < SAMPLE_ACTIVITY_INTERVAL_MS) continue;
+
+      this.sampleActivityAt.set(sessionId, now);
+      await this.storage.updateSession(sessionId, { lastActivityAt: new Date(now) });
+    }
+  }
+
+  // Picks up sessions left capturing in storage and starts closing idle ones
+  async startExpiry(): Promise<void> {
+    if (this.expiryInterval) return;
+
+    (await this.storage.getActiveSessions())
+      .filter(session => session.status === 'capturing')
+      .forEach(session => this.capturing.add(session.id));
+
+    this.expiryInterval = setInterval(() => {
+      this.expireIdleSessions().catch(error => console.error('Error expiring idle sessions:', error));
+    }, EXPIRY_CHECK_INTERVAL_MS);
+  }
+
+  stopExpiry(): void {
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval);
+      this.expiryInterval = null;
+    }
+  }
+
+  async expireIdleSessions(now = Date.now()): Promise<Session[]> {
+    const idle = (await this.storage.getActiveSessions())
+      .filter(session => session.status !== 'closed' && now - session.lastActivityAt.getTime() >= this.idleTimeoutMs);
+
+    const expired: Session[] = [];
+    for (const session of idle) {
+      const closed = await this.close(session.id, 'expired');
+      if (closed) expired.push(closed);
+    }
+    return expired;
+  }
+
+  private async summarize(session: Session, closedAt: Date, reason: SessionSummary['reason']): Promise<SessionSummary> {
+    await this.flushSamples();
+    const [samples, blinks, mandalas] = await Promise.all([
+      this.storage.getEegDataForSession(session.id),
+      this.storage.getBlinkEventsForSession(session.id),
+      this.storage.getMandalasForSession(session.id),
+    ]);
+
+    return {
+      reason,
+      closedAt: closedAt.getTime(),
+      durationSeconds: Math.round((closedAt.getTime() - session.createdAt.getTime()) / 1000),
+      sampleCount: samples.length,
+      dataConfidence: computeDataConfidence(samples),
+      eeg: summarizeEegWindow(
+        samples,
+        session.createdAt.getTime(),
+        closedAt.getTime(),
+        session.baseline as BrainwaveBaseline | null
+      ),
+      blinkCount: blinks.length,
+      mandalaIds: mandalas.map(mandala => mandala.id),
+    };
+  }
+}
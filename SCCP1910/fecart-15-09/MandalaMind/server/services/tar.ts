@@ -0,0 +1,93 @@
+// Minimal ustar codec: enough to write and read back the flat archives of regular files that
+// session bundles are made of. Anything else found in an archive (directories, links) is skipped.
+
+const BLOCK_SIZE = 512;
+// ustar keeps names up to 100 bytes, or 255 with the prefix field; bundle paths are far shorter
+const MAX_NAME_LENGTH = 100;
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function createHeader(entry: TarEntry, mtime: number): Buffer {
+  if (Buffer.byteLength(entry.name) > MAX_NAME_LENGTH) {
+    throw new Error(`Archive path is too long: ${entry.name}`);
+  }
+
+  const header = Buffer.alloc(BLOCK_SIZE);
+  header.write(entry.name, 0, MAX_NAME_LENGTH, 'utf8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, entry.data.length, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(checksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+export function createTar(entries: TarEntry[], mtime = Date.now()): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    blocks.push(createHeader(entry, mtime), entry.data);
+    const remainder = entry.data.length % BLOCK_SIZE;
+    if (remainder > 0) {
+      blocks.push(Buffer.alloc(BLOCK_SIZE - remainder));
+    }
+  }
+  // Two empty blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+  return Buffer.concat(blocks);
+}
+
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const storedChecksum = parseInt(readString(header, 148, 8).trim(), 8);
+    if (storedChecksum !== checksum(header)) {
+      throw new Error('Archive is corrupt: header checksum mismatch');
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = readString(header, 156, 1);
+    const prefix = readString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100);
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > archive.length) {
+      throw new Error(`Archive is truncated in ${name}`);
+    }
+
+    if (type === '0' || type === '') {
+      entries.push({ name, data: archive.subarray(dataStart, dataStart + size) });
+    }
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+  return entries;
+}
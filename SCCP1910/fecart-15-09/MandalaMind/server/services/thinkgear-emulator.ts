@@ -0,0 +1,285 @@
+import { EventEmitter } from 'events';
+import { createServer, type Server, type Socket } from 'net';
+
+export type EmulatorScenarioName = 'normal' | 'signal-loss' | 'drop-mid-stream' | 'stall' | 'auth-rejection';
+
+interface ScenarioPhase {
+  durationMs: number;
+  attention: number;
+  meditation: number;
+  poorSignalLevel: number;
+  blinksPerMinute: number;
+}
+
+interface EmulatorScenario {
+  description: string;
+  rejectAuth?: boolean;
+  // Destroy the client socket this long after authentication
+  dropAfterMs?: number;
+  // Stop sending this long after authentication but keep the socket open
+  stallAfterMs?: number;
+  phases: ScenarioPhase[];
+}
+
+export const EMULATOR_SCENARIOS: Record<EmulatorScenarioName, EmulatorScenario> = {
+  'normal': {
+    description: 'Good contact, attention and meditation drifting through calm and focused states',
+    phases: [
+      { durationMs: 20000, attention: 40, meditation: 55, poorSignalLevel: 0, blinksPerMinute: 12 },
+      { durationMs: 20000, attention: 70, meditation: 35, poorSignalLevel: 0, blinksPerMinute: 8 },
+      { durationMs: 20000, attention: 30, meditation: 75, poorSignalLevel: 0, blinksPerMinute: 6 },
+    ],
+  },
+  'signal-loss': {
+    description: 'Streams normally, loses electrode contact for 10 seconds, then recovers',
+    phases: [
+      { durationMs: 8000, attention: 50, meditation: 50, poorSignalLevel: 0, blinksPerMinute: 10 },
+      { durationMs: 4000, attention: 45, meditation: 40, poorSignalLevel: 80, blinksPerMinute: 0 },
+      { durationMs: 10000, attention: 0, meditation: 0, poorSignalLevel: 200, blinksPerMinute: 0 },
+      { durationMs: 8000, attention: 55, meditation: 60, poorSignalLevel: 0, blinksPerMinute: 10 },
+    ],
+  },
+  'drop-mid-stream': {
+    description: 'Streams for 8 seconds and then closes the socket without warning',
+    dropAfterMs: 8000,
+    phases: [
+      { durationMs: 60000, attention: 55, meditation: 45, poorSignalLevel: 0, blinksPerMinute: 10 },
+    ],
+  },
+  'stall': {
+    description: 'Streams for 8 seconds and then goes silent with the socket still open',
+    stallAfterMs: 8000,
+    phases: [
+      { durationMs: 60000, attention: 55, meditation: 45, poorSignalLevel: 0, blinksPerMinute: 10 },
+    ],
+  },
+  'auth-rejection': {
+    description: 'Rejects the appName/appKey handshake',
+    rejectAuth: true,
+    phases: [],
+  },
+};
+
+export interface ThinkGearEmulatorOptions {
+  host?: string;
+  port?: number;
+  scenario?: EmulatorScenarioName;
+  // eSense, poorSignalLevel and eegPower are sent once per second, as the real connector does
+  eSenseIntervalMs?: number;
+}
+
+const RAW_SAMPLE_RATE = 512;
+const RAW_BATCH_INTERVAL_MS = 50;
+
+interface ClientState {
+  socket: Socket;
+  authenticated: boolean;
+  enableRawOutput: boolean;
+  pendingInput: string;
+  startedAt: number;
+  timers: NodeJS.Timeout[];
+  rawSampleIndex: number;
+}
+
+// Behaves like ThinkGear Connector on 127.0.0.1:13854 so the real connect() path can
+// be exercised without a headset
+export class ThinkGearEmulator extends EventEmitter {
+  private server: Server | null = null;
+  private clients = new Set<ClientState>();
+  private options: Required<ThinkGearEmulatorOptions>;
+
+  constructor(options: ThinkGearEmulatorOptions = {}) {
+    super();
+    this.options = {
+      host: options.host ?? '127.0.0.1',
+      port: options.port ?? 13854,
+      scenario: options.scenario ?? 'normal',
+      eSenseIntervalMs: options.eSenseIntervalMs ?? 1000,
+    };
+
+    if (!EMULATOR_SCENARIOS[this.options.scenario]) {
+      throw new Error(`Unknown emulator scenario: ${this.options.scenario}`);
+    }
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((socket) => this.handleClient(socket));
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => {
+        server.off('error', reject);
+        this.server = server;
+        console.log(`ThinkGear emulator listening on ${this.options.host}:${this.options.port} (scenario: ${this.options.scenario})`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    this.clients.forEach(client => this.closeClient(client, true));
+    this.clients.clear();
+
+    return new Promise((resolve) => {
+      if (!this.server) return resolve();
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  private get scenario(): EmulatorScenario {
+    return EMULATOR_SCENARIOS[this.options.scenario];
+  }
+
+  private handleClient(socket: Socket): void {
+    const client: ClientState = {
+      socket,
+      authenticated: false,
+      enableRawOutput: false,
+      pendingInput: '',
+      startedAt: 0,
+      timers: [],
+      rawSampleIndex: 0,
+    };
+    this.clients.add(client);
+    this.emit('client', socket.remoteAddress);
+
+    socket.on('data', (data) => {
+      if (client.authenticated) return;
+
+      // The app sends its auth object without a delimiter, so parse whatever has arrived
+      client.pendingInput += data.toString();
+      let request: any;
+      try {
+        request = JSON.parse(client.pendingInput);
+      } catch {
+        return; // Incomplete, wait for more
+      }
+      client.pendingInput = '';
+      this.handleAuth(client, request);
+    });
+
+    socket.on('close', () => {
+      this.closeClient(client, false);
+      this.clients.delete(client);
+    });
+
+    // Availability checks connect and immediately disconnect; that's not an error
+    socket.on('error', () => {});
+  }
+
+  private handleAuth(client: ClientState, request: any): void {
+    if (this.scenario.rejectAuth || typeof request.appName !== 'string' || typeof request.appKey !== 'string') {
+      this.send(client, { status: 'error', message: 'Invalid appKey' });
+      this.emit('authRejected', request.appName);
+      client.socket.end();
+      return;
+    }
+
+    this.send(client, { status: 'success' });
+    client.authenticated = true;
+    client.enableRawOutput = request.enableRawOutput === true;
+    client.startedAt = Date.now();
+    this.emit('authenticated', request.appName);
+
+    client.timers.push(setInterval(() => this.sendESense(client), this.options.eSenseIntervalMs));
+
+    if (client.enableRawOutput) {
+      client.timers.push(setInterval(() => this.sendRawBatch(client), RAW_BATCH_INTERVAL_MS));
+    }
+
+    if (this.scenario.dropAfterMs !== undefined) {
+      client.timers.push(setTimeout(() => {
+        console.log('ThinkGear emulator: dropping client socket mid-stream');
+        client.socket.destroy();
+      }, this.scenario.dropAfterMs));
+    }
+
+    if (this.scenario.stallAfterMs !== undefined) {
+      client.timers.push(setTimeout(() => {
+        console.log('ThinkGear emulator: going silent with the socket still open');
+        client.timers.forEach(timer => clearInterval(timer));
+        client.timers = [];
+      }, this.scenario.stallAfterMs));
+    }
+  }
+
+  private currentPhase(client: ClientState): ScenarioPhase {
+    const phases = this.scenario.phases;
+    const totalMs = phases.reduce((sum, phase) => sum + phase.durationMs, 0);
+    let elapsed = (Date.now() - client.startedAt) % Math.max(1, totalMs);
+
+    for (const phase of phases) {
+      if (elapsed < phase.durationMs) return phase;
+      elapsed -= phase.durationMs;
+    }
+    return phases[phases.length - 1];
+  }
+
+  private sendESense(client: ClientState): void {
+    const phase = this.currentPhase(client);
+    const time = (Date.now() - client.startedAt) / 1000;
+    const hasContact = phase.poorSignalLevel < 200;
+
+    const wobble = (base: number, speed: number) =>
+      Math.max(0, Math.min(100, Math.round(base + 8 * Math.sin(time * speed) + 6 * (Math.random() - 0.5))));
+
+    this.send(client, {
+      eSense: {
+        attention: hasContact ? wobble(phase.attention, 0.3) : 0,
+        meditation: hasContact ? wobble(phase.meditation, 0.2) : 0,
+      },
+      eegPower: hasContact ? {
+        delta: Math.round(200000 + 100000 * Math.random()),
+        theta: Math.round(15000 + 10000 * Math.random()),
+        lowAlpha: Math.round((2000 + 3000 * Math.random()) * (0.5 + phase.meditation / 100)),
+        highAlpha: Math.round((1500 + 2000 * Math.random()) * (0.5 + phase.meditation / 100)),
+        lowBeta: Math.round((800 + 1200 * Math.random()) * (0.5 + phase.attention / 100)),
+        highBeta: Math.round((600 + 800 * Math.random()) * (0.5 + phase.attention / 100)),
+        lowGamma: Math.round(400 + 600 * Math.random()),
+        highGamma: Math.round(200 + 400 * Math.random()),
+      } : undefined,
+      poorSignalLevel: phase.poorSignalLevel,
+    });
+
+    const blinkChance = (phase.blinksPerMinute / 60) * (this.options.eSenseIntervalMs / 1000);
+    if (hasContact && Math.random() < blinkChance) {
+      this.send(client, { blinkStrength: Math.round(40 + 60 * Math.random()) });
+    }
+  }
+
+  private sendRawBatch(client: ClientState): void {
+    const phase = this.currentPhase(client);
+    const samplesPerBatch = Math.round(RAW_SAMPLE_RATE * RAW_BATCH_INTERVAL_MS / 1000);
+    const frames: string[] = [];
+
+    for (let i = 0; i < samplesPerBatch; i++) {
+      const t = client.rawSampleIndex++ / RAW_SAMPLE_RATE;
+      // Alpha-dominant trace when relaxed, faster beta when focused; rails when contact is lost
+      const value = phase.poorSignalLevel >= 200
+        ? 2047
+        : 120 * (phase.meditation / 100) * Math.sin(2 * Math.PI * 10 * t) +
+          60 * (phase.attention / 100) * Math.sin(2 * Math.PI * 20 * t) +
+          40 * Math.sin(2 * Math.PI * 2 * t) +
+          30 * (Math.random() - 0.5);
+      frames.push(JSON.stringify({ rawEeg: Math.round(value) }));
+    }
+
+    if (!client.socket.destroyed) {
+      client.socket.write(frames.join('\r') + '\r');
+    }
+  }
+
+  private send(client: ClientState, message: object): void {
+    if (!client.socket.destroyed) {
+      client.socket.write(JSON.stringify(message) + '\r');
+    }
+  }
+
+  private closeClient(client: ClientState, destroySocket: boolean): void {
+    client.timers.forEach(timer => clearTimeout(timer));
+    client.timers = [];
+    if (destroySocket) {
+      client.socket.destroy();
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import { BrainwaveData } from '@shared/schema';
+
+// Turns decoded ThinkGear messages (JSON from the connector, serial packets or a recording)
+// into EegSource events. Authentication replies are left to the caller.
+export class ThinkGearInterpreter extends EventEmitter {
+  private currentData: BrainwaveData | null = null;
+
+  interpret(message: any): void {
+    // ThinkGear JSON format includes eSense values and signal quality
+    const data: Partial<BrainwaveData> = {};
+    let hasValidData = false;
+
+    // Extract eSense data (attention and meditation)
+    if (message.eSense && typeof message.eSense === 'object') {
+      if (typeof message.eSense.attention === 'number' && message.eSense.attention >= 0) {
+        data.attention = Math.min(100, Math.max(0, message.eSense.attention));
+        hasValidData = true;
+      }
+      if (typeof message.eSense.meditation === 'number' && message.eSense.meditation >= 0) {
+        data.meditation = Math.min(100, Math.max(0, message.eSense.meditation));
+        hasValidData = true;
+      }
+    }
+
+    // Extract signal quality from poorSignalLevel
+    if (typeof message.poorSignalLevel === 'number') {
+      // Convert poor signal level (0-200) to signal quality (100-0)
+      // 0 = perfect signal, 200 = no signal
+      const signalQuality = Math.max(0, Math.min(100, 100 - (message.poorSignalLevel / 200) * 100));
+      data.signalQuality = Math.round(signalQuality);
+      data.poorSignalLevel = message.poorSignalLevel;
+      hasValidData = true;
+    }
+
+    // Only emit data if we have valid measurements
+    if (hasValidData) {
+      this.currentData = {
+        attention: data.attention ?? this.currentData?.attention ?? 0,
+        meditation: data.meditation ?? this.currentData?.meditation ?? 0,
+        signalQuality: data.signalQuality ?? this.currentData?.signalQuality ?? 0,
+        poorSignalLevel: data.poorSignalLevel ?? this.currentData?.poorSignalLevel,
+        timestamp: Date.now()
+      };
+
+      this.emit('data', this.currentData);
+    }
+
+    // Handle blink detection
+    if (typeof message.blinkStrength === 'number' && message.blinkStrength > 0) {
+      this.emit('blink', { strength: message.blinkStrength, timestamp: Date.now() });
+    }
+
+    // Handle raw EEG data if enabled
+    if (typeof message.rawEeg === 'number') {
+      this.emit('rawEeg', { value: message.rawEeg, timestamp: Date.now() });
+    }
+
+    // Handle EEG power bands if available
+    if (message.eegPower && typeof message.eegPower === 'object') {
+      this.emit('eegPower', {
+        ...message.eegPower,
+        timestamp: Date.now()
+      });
+    }
+  }
+
+  getCurrentData(): BrainwaveData | null {
+    return this.currentData;
+  }
+
+  // Forward everything this interpreter emits through another emitter
+  pipeTo(target: EventEmitter): void {
+    for (const event of ['data', 'blink', 'rawEeg', 'eegPower']) {
+      this.on(event, (payload) => target.emit(event, payload));
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+
+// ThinkGear Connector terminates each JSON object with '\r', but some builds send '\n'
+const FRAME_DELIMITER = /[\r\n]/;
+const DEFAULT_MAX_BUFFER_BYTES = 64 * 1024;
+
+export interface ThinkGearJsonDecoderStats {
+  decodedFrames: number;
+  droppedFrames: number;
+  malformedFrames: number;
+  bufferedBytes: number;
+  lastMalformedAt: number | null;
+}
+
+export class ThinkGearJsonDecoder extends EventEmitter {
+  private buffer = '';
+  private textDecoder = new StringDecoder('utf8');
+  private decodedFrames = 0;
+  private droppedFrames = 0;
+  private malformedFrames = 0;
+  private lastMalformedAt: number | null = null;
+
+  constructor(private maxBufferBytes: number = DEFAULT_MAX_BUFFER_BYTES) {
+    super();
+  }
+
+  // Feed one TCP chunk; frames split across chunks are held until their delimiter arrives
+  push(chunk: Buffer): void {
+    this.buffer += this.textDecoder.write(chunk);
+
+    let delimiterIndex = this.buffer.search(FRAME_DELIMITER);
+    while (delimiterIndex !== -1) {
+      const frame = this.buffer.slice(0, delimiterIndex);
+      this.buffer = this.buffer.slice(delimiterIndex + 1);
+      this.decodeFrame(frame);
+      delimiterIndex = this.buffer.search(FRAME_DELIMITER);
+    }
+
+    // A connector that never sends a delimiter must not grow the buffer forever
+    if (Buffer.byteLength(this.buffer) > this.maxBufferBytes) {
+      console.warn(`Dropping ${Buffer.byteLength(this.buffer)} bytes of unterminated ThinkGear data`);
+      this.buffer = '';
+      this.droppedFrames++;
+    }
+  }
+
+  // Called when the connection ends; a trailing partial frame can never complete
+  reset(): void {
+    if (this.buffer.trim()) {
+      this.droppedFrames++;
+    }
+    this.buffer = '';
+    this.textDecoder = new StringDecoder('utf8');
+  }
+
+  resetStats(): void {
+    this.decodedFrames = 0;
+    this.droppedFrames = 0;
+    this.malformedFrames = 0;
+    this.lastMalformedAt = null;
+  }
+
+  getStats(): ThinkGearJsonDecoderStats {
+    return {
+      decodedFrames: this.decodedFrames,
+      droppedFrames: this.droppedFrames,
+      malformedFrames: this.malformedFrames,
+      bufferedBytes: Buffer.byteLength(this.buffer),
+      lastMalformedAt: this.lastMalformedAt,
+    };
+  }
+
+  private decodeFrame(frame: string): void {
+    const text = frame.trim();
+    if (!text) return; // '\r\n' pairs produce empty frames
+
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+      if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        throw new Error('ThinkGear frame is not a JSON object');
+      }
+    } catch (error) {
+      this.malformedFrames++;
+      this.lastMalformedAt = Date.now();
+      this.emit('malformed', { frame: text, error });
+      return;
+    }
+
+    // Outside the try, so a throwing listener isn't counted as a malformed frame
+    this.decodedFrames++;
+    this.emit('message', message);
+  }
+}
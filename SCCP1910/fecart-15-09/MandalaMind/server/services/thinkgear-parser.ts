@@ -0,0 +1,208 @@
+import { EventEmitter } from 'events';
+
+// ThinkGear serial protocol, as documented in NeuroSky's
+// "ThinkGear Communications Protocol": [SYNC][SYNC][PLENGTH][PAYLOAD...][CHKSUM]
+const SYNC = 0xaa;
+const EXCODE = 0x55;
+const MAX_PAYLOAD_LENGTH = 169;
+
+export const ThinkGearCode = {
+  POOR_SIGNAL: 0x02,
+  ATTENTION: 0x04,
+  MEDITATION: 0x05,
+  BLINK: 0x16,
+  RAW_WAVE: 0x80,
+  ASIC_EEG_POWER: 0x83,
+} as const;
+
+// Order of the 3-byte big-endian values inside an ASIC_EEG_POWER row
+const EEG_POWER_BANDS = [
+  'delta',
+  'theta',
+  'lowAlpha',
+  'highAlpha',
+  'lowBeta',
+  'highBeta',
+  'lowGamma',
+  'highGamma',
+] as const;
+
+export type EegPowerBand = typeof EEG_POWER_BANDS[number];
+
+// Decoded packets use the same shape as ThinkGear Connector's JSON messages,
+// so both transports can share NeuroSkyService.handleThinkGearMessage
+export interface ThinkGearMessage {
+  poorSignalLevel?: number;
+  eSense?: { attention?: number; meditation?: number };
+  blinkStrength?: number;
+  rawEeg?: number;
+  eegPower?: Record<EegPowerBand, number>;
+}
+
+export interface ThinkGearParserStats {
+  packets: number;
+  checksumErrors: number;
+  malformedPackets: number;
+  skippedBytes: number;
+}
+
+export class ThinkGearPacketParser extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private stats: ThinkGearParserStats = {
+    packets: 0,
+    checksumErrors: 0,
+    malformedPackets: 0,
+    skippedBytes: 0,
+  };
+
+  push(chunk: Buffer): void {
+    const buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+
+    while (buffer.length - offset >= 3) {
+      // Hunt for the two sync bytes that start every packet
+      if (buffer[offset] !== SYNC || buffer[offset + 1] !== SYNC) {
+        offset++;
+        this.stats.skippedBytes++;
+        continue;
+      }
+
+      const payloadLength = buffer[offset + 2];
+
+      // A third SYNC byte means we are not aligned yet; slide by one
+      if (payloadLength === SYNC) {
+        offset++;
+        this.stats.skippedBytes++;
+        continue;
+      }
+
+      if (payloadLength > MAX_PAYLOAD_LENGTH) {
+        this.stats.malformedPackets++;
+        this.stats.skippedBytes += 2;
+        offset += 2;
+        continue;
+      }
+
+      const packetEnd = offset + 3 + payloadLength + 1;
+      if (buffer.length < packetEnd) {
+        break; // Wait for the rest of the packet
+      }
+
+      const payload = buffer.subarray(offset + 3, offset + 3 + payloadLength);
+      const checksum = buffer[offset + 3 + payloadLength];
+
+      if (ThinkGearPacketParser.computeChecksum(payload) !== checksum) {
+        this.stats.checksumErrors++;
+        this.stats.skippedBytes += 2;
+        this.emit('checksumError', { expected: checksum, payloadLength });
+        // Resync from just after the bogus sync pair
+        offset += 2;
+        continue;
+      }
+
+      offset = packetEnd;
+      this.stats.packets++;
+
+      const message = this.parsePayload(payload);
+      if (message) {
+        this.emit('message', message);
+      }
+    }
+
+    // Copy the remainder so we don't pin large chunks in memory
+    this.buffer = Buffer.from(buffer.subarray(offset));
+  }
+
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  getStats(): ThinkGearParserStats {
+    return { ...this.stats };
+  }
+
+  static computeChecksum(payload: Buffer): number {
+    let sum = 0;
+    for (let i = 0; i < payload.length; i++) {
+      sum += payload[i];
+    }
+    return ~sum & 0xff;
+  }
+
+  private parsePayload(payload: Buffer): ThinkGearMessage | null {
+    const message: ThinkGearMessage = {};
+    let hasValues = false;
+    let i = 0;
+
+    while (i < payload.length) {
+      let extendedCodeLevel = 0;
+      while (i < payload.length && payload[i] === EXCODE) {
+        extendedCodeLevel++;
+        i++;
+      }
+      if (i >= payload.length) break;
+
+      const code = payload[i++];
+      // Codes 0x00-0x7F carry a single value byte; 0x80+ are prefixed with their length
+      let valueLength = 1;
+      if (code >= 0x80) {
+        if (i >= payload.length) {
+          this.stats.malformedPackets++;
+          break;
+        }
+        valueLength = payload[i++];
+      }
+
+      if (i + valueLength > payload.length) {
+        this.stats.malformedPackets++;
+        break;
+      }
+
+      const value = payload.subarray(i, i + valueLength);
+      i += valueLength;
+
+      // No extended codes are defined by the protocol yet
+      if (extendedCodeLevel > 0) continue;
+
+      switch (code) {
+        case ThinkGearCode.POOR_SIGNAL:
+          message.poorSignalLevel = value[0];
+          hasValues = true;
+          break;
+        case ThinkGearCode.ATTENTION:
+          message.eSense = { ...message.eSense, attention: value[0] };
+          hasValues = true;
+          break;
+        case ThinkGearCode.MEDITATION:
+          message.eSense = { ...message.eSense, meditation: value[0] };
+          hasValues = true;
+          break;
+        case ThinkGearCode.BLINK:
+          message.blinkStrength = value[0];
+          hasValues = true;
+          break;
+        case ThinkGearCode.RAW_WAVE:
+          if (valueLength === 2) {
+            message.rawEeg = value.readInt16BE(0);
+            hasValues = true;
+          }
+          break;
+        case ThinkGearCode.ASIC_EEG_POWER:
+          if (valueLength === EEG_POWER_BANDS.length * 3) {
+            const eegPower = {} as Record<EegPowerBand, number>;
+            EEG_POWER_BANDS.forEach((band, index) => {
+              eegPower[band] = value.readUIntBE(index * 3, 3);
+            });
+            message.eegPower = eegPower;
+            hasValues = true;
+          }
+          break;
+        default:
+          // Heart rate, 8-bit raw, RRINTERVAL etc. are not used by the app
+          break;
+      }
+    }
+
+    return hasValues ? message : null;
+  }
+}
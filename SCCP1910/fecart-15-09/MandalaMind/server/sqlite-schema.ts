@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto";
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+
+// The tables of shared/schema.ts for the embedded SQLite backend. Column names and row types
+// match the PostgreSQL tables so both backends return the same Session, EegData, ... objects:
+// timestamps are stored as epoch milliseconds, jsonb as JSON text and booleans as 0/1.
+// Keep the two in step; run `npm run db:generate:sqlite` after changing this file.
+
+const id = () => text("id").primaryKey().$defaultFn(() => randomUUID());
+const timestampDefaultNow = (name: string) => integer(name, { mode: "timestamp_ms" }).$defaultFn(() => new Date()).notNull();
+
+export const sessions = sqliteTable("sessions", {
+  id: id(),
+  createdAt: timestampDefaultNow("created_at"),
+  attentionLevel: integer("attention_level").default(0),
+  meditationLevel: integer("meditation_level").default(0),
+  signalQuality: integer("signal_quality").default(0),
+  voiceTranscript: text("voice_transcript"),
+  aiPrompt: text("ai_prompt"),
+  mandalaUrl: text("mandala_url"),
+  isActive: integer("is_active", { mode: "boolean" }).default(true),
+  baseline: text("baseline", { mode: "json" }),
+  status: text("status").default('idle').notNull(),
+  lastActivityAt: timestampDefaultNow("last_activity_at"),
+  closedAt: integer("closed_at", { mode: "timestamp_ms" }),
+  summary: text("summary", { mode: "json" }),
+}, (table) => [
+  index("sessions_created_at_idx").on(table.createdAt),
+  index("sessions_is_active_idx").on(table.isActive),
+]);
+
+export const mandalas = sqliteTable("mandalas", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  imageUrl: text("image_url").notNull(),
+  imageKey: text("image_key"),
+  sourceImageUrl: text("source_image_url"),
+  prompt: text("prompt").notNull(),
+  brainwaveData: text("brainwave_data", { mode: "json" }).notNull(),
+  voiceTranscript: text("voice_transcript"),
+  dataConfidence: real("data_confidence"),
+  createdAt: timestampDefaultNow("created_at"),
+}, (table) => [
+  index("mandalas_session_id_idx").on(table.sessionId),
+  index("mandalas_created_at_idx").on(table.createdAt),
+]);
+
+export const eegData = sqliteTable("eeg_data", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  attention: integer("attention").notNull(),
+  meditation: integer("meditation").notNull(),
+  signalQuality: integer("signal_quality").notNull(),
+  rawData: text("raw_data", { mode: "json" }),
+  isReliable: integer("is_reliable", { mode: "boolean" }).default(true),
+  artifacts: text("artifacts", { mode: "json" }),
+  timestamp: timestampDefaultNow("timestamp"),
+}, (table) => [
+  index("eeg_data_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const rawEegSegments = sqliteTable("raw_eeg_segments", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  sampleRate: integer("sample_rate").notNull(),
+  samples: text("samples", { mode: "json" }).notNull(),
+  timestamp: timestampDefaultNow("timestamp"),
+}, (table) => [
+  index("raw_eeg_segments_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const eegRollups = sqliteTable("eeg_rollups", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  resolution: text("resolution").notNull(),
+  bucketStart: integer("bucket_start", { mode: "timestamp_ms" }).notNull(),
+  sampleCount: integer("sample_count").notNull(),
+  reliableCount: integer("reliable_count").notNull(),
+  attentionMean: real("attention_mean").notNull(),
+  attentionMin: integer("attention_min").notNull(),
+  attentionMax: integer("attention_max").notNull(),
+  meditationMean: real("meditation_mean").notNull(),
+  meditationMin: integer("meditation_min").notNull(),
+  meditationMax: integer("meditation_max").notNull(),
+  signalQualityMean: real("signal_quality_mean").notNull(),
+  signalQualityMin: integer("signal_quality_min").notNull(),
+  signalQualityMax: integer("signal_quality_max").notNull(),
+}, (table) => [
+  index("eeg_rollups_session_id_resolution_bucket_start_idx").on(table.sessionId, table.resolution, table.bucketStart),
+  index("eeg_rollups_resolution_bucket_start_idx").on(table.resolution, table.bucketStart),
+]);
+
+export const eegPowerData = sqliteTable("eeg_power", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  delta: integer("delta").notNull(),
+  theta: integer("theta").notNull(),
+  lowAlpha: integer("low_alpha").notNull(),
+  highAlpha: integer("high_alpha").notNull(),
+  lowBeta: integer("low_beta").notNull(),
+  highBeta: integer("high_beta").notNull(),
+  lowGamma: integer("low_gamma").notNull(),
+  highGamma: integer("high_gamma").notNull(),
+  timestamp: timestampDefaultNow("timestamp"),
+}, (table) => [
+  index("eeg_power_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const blinkEvents = sqliteTable("blink_events", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  strength: integer("strength").notNull(),
+  timestamp: timestampDefaultNow("timestamp"),
+}, (table) => [
+  index("blink_events_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const sessionMarkers = sqliteTable("session_markers", {
+  id: id(),
+  sessionId: text("session_id").references(() => sessions.id),
+  type: text("type").notNull(),
+  label: text("label"),
+  source: text("source").notNull(),
+  data: text("data", { mode: "json" }),
+  timestamp: timestampDefaultNow("timestamp"),
+}, (table) => [
+  index("session_markers_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const fittingAttempts = sqliteTable("fitting_attempts", {
+  id: id(),
+  deviceId: text("device_id").notNull(),
+  sessionId: text("session_id").references(() => sessions.id),
+  startedAt: integer("started_at", { mode: "timestamp_ms" }).notNull(),
+  endedAt: integer("ended_at", { mode: "timestamp_ms" }).notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  outcome: text("outcome").notNull(),
+  requiredStableSeconds: integer("required_stable_seconds").notNull(),
+  issueSeconds: text("issue_seconds", { mode: "json" }).notNull(),
+}, (table) => [
+  index("fitting_attempts_device_id_started_at_idx").on(table.deviceId, table.startedAt),
+]);
@@ -0,0 +1,206 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { and, asc, desc, eq, gte, lt } from "drizzle-orm";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import * as schema from "./sqlite-schema";
+import { sessions, mandalas, eegData, rawEegSegments, eegRollups, eegPowerData, blinkEvents, sessionMarkers, fittingAttempts } from "./sqlite-schema";
+import { type Session, type InsertSession, type Mandala, type InsertMandala, type EegData, type InsertEegData, type RawEegSegment, type InsertRawEegSegment, type EegRollup, type InsertEegRollup, type EegRollupResolution, type EegPower, type InsertEegPower, type BlinkEvent, type InsertBlinkEvent, type SessionMarker, type InsertSessionMarker, type FittingAttempt, type InsertFittingAttempt } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+export const DEFAULT_SQLITE_PATH = "data/mandalamind.db";
+export const SQLITE_MIGRATIONS_DIR = path.resolve("migrations/sqlite");
+
+// Wait this long for another connection (e.g. a running backup) to release its lock
+const BUSY_TIMEOUT_MS = 5000;
+
+function openDatabase(filename: string, options?: Database.Options): Database.Database {
+  const sqlite = new Database(filename, options);
+  sqlite.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  return sqlite;
+}
+
+// Copies a live database page by page while the server keeps writing to it
+export async function backupSqliteDatabase(filename: string, destination: string): Promise<void> {
+  const sqlite = openDatabase(filename, { fileMustExist: true });
+  try {
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    await sqlite.backup(destination);
+  } finally {
+    sqlite.close();
+  }
+}
+
+// Keeps everything in a single SQLite file for laptops without a network. Opening the file
+// applies any pending migrations from migrations/sqlite.
+export class SqliteStorage implements IStorage {
+  private sqlite: Database.Database;
+  private db: BetterSQLite3Database<typeof schema>;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    this.sqlite = openDatabase(filename);
+    // WAL lets readers carry on while EEG samples stream in; with it, NORMAL sync survives a process crash
+    this.sqlite.pragma("journal_mode = WAL");
+    this.sqlite.pragma("synchronous = NORMAL");
+    this.sqlite.pragma("foreign_keys = ON");
+    this.db = drizzle(this.sqlite, { schema });
+    migrate(this.db, { migrationsFolder: SQLITE_MIGRATIONS_DIR });
+  }
+
+  close(): void {
+    this.sqlite.close();
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    return this.db.insert(sessions).values({ ...insertSession, isActive: insertSession.isActive ?? true }).returning().get();
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.db.select().from(sessions).where(eq(sessions.id, id)).get();
+  }
+
+  async updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined> {
+    // Drizzle rejects an UPDATE with nothing to set
+    if (Object.keys(updates).length === 0) return this.getSession(id);
+
+    return this.db.update(sessions).set(updates).where(eq(sessions.id, id)).returning().get();
+  }
+
+  async getActiveSessions(): Promise<Session[]> {
+    return this.db.select().from(sessions).where(eq(sessions.isActive, true)).orderBy(asc(sessions.createdAt)).all();
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    this.db.transaction(tx => {
+      for (const table of [mandalas, eegData, rawEegSegments, eegRollups, eegPowerData, blinkEvents, sessionMarkers]) {
+        tx.delete(table).where(eq(table.sessionId, id)).run();
+      }
+      tx.update(fittingAttempts).set({ sessionId: null }).where(eq(fittingAttempts.sessionId, id)).run();
+      tx.delete(sessions).where(eq(sessions.id, id)).run();
+    });
+  }
+
+  async createMandala(insertMandala: InsertMandala): Promise<Mandala> {
+    return this.db.insert(mandalas).values(insertMandala).returning().get();
+  }
+
+  async getMandala(id: string): Promise<Mandala | undefined> {
+    return this.db.select().from(mandalas).where(eq(mandalas.id, id)).get();
+  }
+
+  async updateMandala(id: string, updates: Partial<InsertMandala>): Promise<Mandala | undefined> {
+    if (Object.keys(updates).length === 0) return this.getMandala(id);
+
+    return this.db.update(mandalas).set(updates).where(eq(mandalas.id, id)).returning().get();
+  }
+
+  async getMandalasForSession(sessionId: string): Promise<Mandala[]> {
+    return this.db.select().from(mandalas).where(eq(mandalas.sessionId, sessionId)).orderBy(asc(mandalas.createdAt)).all();
+  }
+
+  async getRecentMandalas(limit: number): Promise<Mandala[]> {
+    return this.db.select().from(mandalas).orderBy(desc(mandalas.createdAt)).limit(limit).all();
+  }
+
+  async addEegData(insertData: InsertEegData): Promise<EegData> {
+    return this.db.insert(eegData).values(insertData).returning().get();
+  }
+
+  async addEegDataBatch(insertData: InsertEegData[]): Promise<void> {
+    if (insertData.length === 0) return;
+    this.db.insert(eegData).values(insertData).run();
+  }
+
+  async getEegDataForSession(sessionId: string, since?: Date): Promise<EegData[]> {
+    return this.db.select().from(eegData)
+      .where(and(eq(eegData.sessionId, sessionId), since ? gte(eegData.timestamp, since) : undefined))
+      .orderBy(asc(eegData.timestamp))
+      .all();
+  }
+
+  async getLatestEegData(sessionId: string): Promise<EegData | undefined> {
+    return this.db.select().from(eegData)
+      .where(eq(eegData.sessionId, sessionId))
+      .orderBy(desc(eegData.timestamp))
+      .limit(1)
+      .get();
+  }
+
+  async deleteEegDataBefore(cutoff: Date): Promise<number> {
+    return this.db.delete(eegData).where(lt(eegData.timestamp, cutoff)).run().changes;
+  }
+
+  async addRawEegSegments(insertSegments: InsertRawEegSegment[]): Promise<void> {
+    if (insertSegments.length === 0) return;
+    this.db.insert(rawEegSegments).values(insertSegments).run();
+  }
+
+  async getRawEegSegmentsForSession(sessionId: string): Promise<RawEegSegment[]> {
+    return this.db.select().from(rawEegSegments)
+      .where(eq(rawEegSegments.sessionId, sessionId))
+      .orderBy(asc(rawEegSegments.timestamp))
+      .all();
+  }
+
+  async deleteRawEegSegmentsBefore(cutoff: Date): Promise<number> {
+    return this.db.delete(rawEegSegments).where(lt(rawEegSegments.timestamp, cutoff)).run().changes;
+  }
+
+  async addEegRollups(insertRollups: InsertEegRollup[]): Promise<void> {
+    if (insertRollups.length === 0) return;
+    this.db.insert(eegRollups).values(insertRollups).run();
+  }
+
+  async getEegRollupsForSession(sessionId: string, resolution: EegRollupResolution): Promise<EegRollup[]> {
+    return this.db.select().from(eegRollups)
+      .where(and(eq(eegRollups.sessionId, sessionId), eq(eegRollups.resolution, resolution)))
+      .orderBy(asc(eegRollups.bucketStart))
+      .all();
+  }
+
+  async deleteEegRollupsBefore(resolution: EegRollupResolution, cutoff: Date): Promise<number> {
+    return this.db.delete(eegRollups)
+      .where(and(eq(eegRollups.resolution, resolution), lt(eegRollups.bucketStart, cutoff)))
+      .run().changes;
+  }
+
+  async addEegPower(insertData: InsertEegPower): Promise<EegPower> {
+    return this.db.insert(eegPowerData).values(insertData).returning().get();
+  }
+
+  async getEegPowerForSession(sessionId: string): Promise<EegPower[]> {
+    return this.db.select().from(eegPowerData).where(eq(eegPowerData.sessionId, sessionId)).orderBy(asc(eegPowerData.timestamp)).all();
+  }
+
+  async addBlinkEvent(insertEvent: InsertBlinkEvent): Promise<BlinkEvent> {
+    return this.db.insert(blinkEvents).values(insertEvent).returning().get();
+  }
+
+  async getBlinkEventsForSession(sessionId: string): Promise<BlinkEvent[]> {
+    return this.db.select().from(blinkEvents).where(eq(blinkEvents.sessionId, sessionId)).orderBy(asc(blinkEvents.timestamp)).all();
+  }
+
+  async addSessionMarker(insertMarker: InsertSessionMarker): Promise<SessionMarker> {
+    return this.db.insert(sessionMarkers).values(insertMarker).returning().get();
+  }
+
+  async getMarkersForSession(sessionId: string): Promise<SessionMarker[]> {
+    return this.db.select().from(sessionMarkers)
+      .where(eq(sessionMarkers.sessionId, sessionId))
+      .orderBy(asc(sessionMarkers.timestamp))
+      .all();
+  }
+
+  async addFittingAttempt(insertAttempt: InsertFittingAttempt): Promise<FittingAttempt> {
+    return this.db.insert(fittingAttempts).values(insertAttempt).returning().get();
+  }
+
+  async getFittingAttempts(deviceId?: string): Promise<FittingAttempt[]> {
+    return this.db.select().from(fittingAttempts)
+      .where(deviceId ? eq(fittingAttempts.deviceId, deviceId) : undefined)
+      .orderBy(asc(fittingAttempts.startedAt))
+      .all();
+  }
+}
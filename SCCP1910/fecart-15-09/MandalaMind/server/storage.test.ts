@@ -0,0 +1,348 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import pg from 'pg';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { connectDatabase } from './db';
+import { DbStorage } from './db-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { MemStorage, type IStorage } from './storage';
+import type { InsertEegRollup } from '@shared/schema';
+
+interface StorageUnderTest {
+  storage: IStorage;
+  close: () => Promise<void>;
+}
+
+// Every backend runs the same checks. Postgres needs DATABASE_URL and gets the checked-in migrations
+// applied first; point it at a throwaway database, as the retention checks prune old rows everywhere.
+const backends: { name: string; skip: boolean; open: () => Promise<StorageUnderTest> }[] = [
+  {
+    name: 'MemStorage',
+    skip: false,
+    open: async () => ({ storage: new MemStorage(), close: async () => {} }),
+  },
+  {
+    name: 'SqliteStorage',
+    skip: false,
+    open: async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-storage-'));
+      const storage = new SqliteStorage(path.join(dir, 'test.db'));
+      return {
+        storage,
+        close: async () => {
+          storage.close();
+          fs.rmSync(dir, { recursive: true, force: true });
+        },
+      };
+    },
+  },
+  {
+    name: 'DbStorage',
+    skip: !process.env.DATABASE_URL,
+    open: async () => {
+      const url = process.env.DATABASE_URL!;
+      // Migrations run over node-postgres, which reaches hosted Neon databases as well
+      const pool = new pg.Pool({ connectionString: url });
+      try {
+        await migrate(drizzle({ client: pool }), { migrationsFolder: path.resolve('migrations') });
+      } finally {
+        await pool.end();
+      }
+      const connection = connectDatabase(url);
+      return { storage: new DbStorage(connection.db), close: connection.close };
+    },
+  },
+];
+
+// Old enough that nothing else in a shared database sits before it
+const ANCIENT = Date.UTC(2001, 0, 1);
+const MINUTE = 60 * 1000;
+
+function rollup(sessionId: string, resolution: InsertEegRollup['resolution'], bucketStart: number): InsertEegRollup {
+  return {
+    sessionId,
+    resolution,
+    bucketStart: new Date(bucketStart),
+    sampleCount: 4,
+    reliableCount: 3,
+    attentionMean: 42.5,
+    attentionMin: 30,
+    attentionMax: 55,
+    meditationMean: 61.2,
+    meditationMin: 50,
+    meditationMax: 70,
+    signalQualityMean: 99.5,
+    signalQualityMin: 99,
+    signalQualityMax: 100,
+  };
+}
+
+for (const backend of backends) {
+  describe.skipIf(backend.skip)(backend.name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+
+    beforeAll(async () => {
+      ({ storage, close } = await backend.open());
+    });
+
+    afterAll(async () => {
+      await close?.();
+    });
+
+    it('creates, reads and updates sessions', async () => {
+      const session = await storage.createSession({ voiceTranscript: 'calm water', baseline: { attention: { mean: 48 } } });
+      expect(session).toMatchObject({ voiceTranscript: 'calm water', baseline: { attention: { mean: 48 } }, status: 'idle', isActive: true, closedAt: null });
+      expect(session.createdAt).toBeInstanceOf(Date);
+      expect(session.lastActivityAt).toBeInstanceOf(Date);
+
+      expect(await storage.getSession(session.id)).toEqual(session);
+      expect(await storage.getSession(randomUUID())).toBeUndefined();
+      expect((await storage.getActiveSessions()).map(active => active.id)).toContain(session.id);
+
+      const closedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const updated = await storage.updateSession(session.id, { status: 'closed', isActive: false, closedAt, summary: { reason: 'closed' } });
+      expect(updated).toMatchObject({ id: session.id, status: 'closed', isActive: false, closedAt, summary: { reason: 'closed' }, voiceTranscript: 'calm water' });
+      expect(await storage.getSession(session.id)).toEqual(updated);
+      expect(await storage.updateSession(session.id, {})).toEqual(updated);
+      expect(await storage.updateSession(randomUUID(), { status: 'closed' })).toBeUndefined();
+      expect((await storage.getActiveSessions()).map(active => active.id)).not.toContain(session.id);
+    });
+
+    it('creates, reads and updates mandalas', async () => {
+      const session = await storage.createSession({});
+      // Dated ahead so they are the most recent, whatever else the database holds
+      const future = Date.now() + 24 * 60 * MINUTE;
+      const first = await storage.createMandala({
+        sessionId: session.id,
+        imageUrl: 'https://example.com/1.png',
+        prompt: 'spirals',
+        brainwaveData: { attention: 70 },
+        dataConfidence: 0.75,
+        createdAt: new Date(future),
+      });
+      const second = await storage.createMandala({
+        sessionId: session.id,
+        imageUrl: 'https://example.com/2.png',
+        prompt: 'waves',
+        brainwaveData: { meditation: 80 },
+        // Close together, so mandalas left by an earlier run sort below both
+        createdAt: new Date(future + 1000),
+      });
+      expect(first).toMatchObject({ sessionId: session.id, prompt: 'spirals', brainwaveData: { attention: 70 }, dataConfidence: 0.75, imageKey: null, sourceImageUrl: null });
+
+      expect(await storage.getMandala(first.id)).toEqual(first);
+      expect(await storage.getMandala(randomUUID())).toBeUndefined();
+      expect(await storage.getMandalasForSession(session.id)).toEqual([first, second]);
+      expect(await storage.getRecentMandalas(2)).toEqual([second, first]);
+
+      const updated = await storage.updateMandala(first.id, { imageUrl: `/api/mandalas/${first.id}/image`, imageKey: `${'a'.repeat(64)}.png` });
+      expect(updated).toEqual({ ...first, imageUrl: `/api/mandalas/${first.id}/image`, imageKey: `${'a'.repeat(64)}.png` });
+      expect(await storage.updateMandala(first.id, {})).toEqual(updated);
+      expect(await storage.updateMandala(randomUUID(), { prompt: 'x' })).toBeUndefined();
+    });
+
+    it('stores EEG samples in time order', async () => {
+      const session = await storage.createSession({});
+      const start = Date.now() - 10 * MINUTE;
+      const single = await storage.addEegData({
+        sessionId: session.id,
+        attention: 50,
+        meditation: 40,
+        signalQuality: 100,
+        artifacts: ['blink'],
+        rawData: { samples: [1, -2] },
+        timestamp: new Date(start + 2000),
+      });
+      expect(single).toMatchObject({ sessionId: session.id, attention: 50, isReliable: true, artifacts: ['blink'], rawData: { samples: [1, -2] } });
+
+      await storage.addEegDataBatch([]);
+      await storage.addEegDataBatch([0, 1, 3].map(second => ({
+        sessionId: session.id,
+        attention: 60 + second,
+        meditation: 30,
+        signalQuality: 90,
+        isReliable: second !== 1,
+        timestamp: new Date(start + second * 1000),
+      })));
+
+      const samples = await storage.getEegDataForSession(session.id);
+      expect(samples.map(sample => sample.timestamp.getTime() - start)).toEqual([0, 1000, 2000, 3000]);
+      expect(samples.map(sample => sample.isReliable)).toEqual([true, false, true, true]);
+      expect(samples[2]).toEqual(single);
+      expect((await storage.getEegDataForSession(session.id, new Date(start + 2000))).map(sample => sample.attention)).toEqual([50, 63]);
+      expect(await storage.getLatestEegData(session.id)).toMatchObject({ attention: 63 });
+      expect(await storage.getEegDataForSession(randomUUID())).toEqual([]);
+      expect(await storage.getLatestEegData(randomUUID())).toBeUndefined();
+    });
+
+    it('stores raw EEG segments, rollups, band powers, blinks and markers per session', async () => {
+      const session = await storage.createSession({});
+      const other = await storage.createSession({});
+      const start = Date.now() - 10 * MINUTE;
+
+      await storage.addRawEegSegments([
+        { sessionId: session.id, sampleRate: 128, samples: [4, 5, 6], timestamp: new Date(start + 125) },
+        { sessionId: session.id, sampleRate: 128, samples: [1, -2, 3], timestamp: new Date(start) },
+        { sessionId: other.id, sampleRate: 128, samples: [9], timestamp: new Date(start) },
+      ]);
+      const segments = await storage.getRawEegSegmentsForSession(session.id);
+      expect(segments.map(({ samples, timestamp, sampleRate }) => ({ samples, offset: timestamp.getTime() - start, sampleRate }))).toEqual([
+        { samples: [1, -2, 3], offset: 0, sampleRate: 128 },
+        { samples: [4, 5, 6], offset: 125, sampleRate: 128 },
+      ]);
+
+      await storage.addEegRollups([
+        rollup(session.id, '10s', start + 10_000),
+        rollup(session.id, '1s', start + 1000),
+        rollup(session.id, '1s', start),
+        rollup(other.id, '1s', start),
+      ]);
+      const rollups = await storage.getEegRollupsForSession(session.id, '1s');
+      expect(rollups.map(({ id: _id, ...fields }) => fields)).toEqual([rollup(session.id, '1s', start), rollup(session.id, '1s', start + 1000)]);
+      expect(await storage.getEegRollupsForSession(session.id, '10s')).toHaveLength(1);
+
+      const bandPower = (delta: number, time: number) => storage.addEegPower({
+        sessionId: session.id,
+        delta,
+        theta: 2,
+        lowAlpha: 3,
+        highAlpha: 4,
+        lowBeta: 5,
+        highBeta: 6,
+        lowGamma: 7,
+        highGamma: 8,
+        timestamp: new Date(time),
+      });
+      const power = await bandPower(16777215, start + 500);
+      const earlierPower = await bandPower(1, start);
+      expect(power).toMatchObject({ sessionId: session.id, delta: 16777215, highGamma: 8 });
+      expect(await storage.getEegPowerForSession(session.id)).toEqual([earlierPower, power]);
+
+      const blink = await storage.addBlinkEvent({ sessionId: session.id, strength: 120, timestamp: new Date(start + 700) });
+      const earlierBlink = await storage.addBlinkEvent({ sessionId: session.id, strength: 80, timestamp: new Date(start) });
+      expect(blink).toMatchObject({ sessionId: session.id, strength: 120 });
+      expect(await storage.getBlinkEventsForSession(session.id)).toEqual([earlierBlink, blink]);
+
+      const marker = await storage.addSessionMarker({ sessionId: session.id, type: 'custom', label: 'eyes closed', source: 'client', data: { note: 1 }, timestamp: new Date(start + 900) });
+      const earlierMarker = await storage.addSessionMarker({ sessionId: session.id, type: 'recording_started', source: 'server', timestamp: new Date(start) });
+      expect(marker).toMatchObject({ type: 'custom', label: 'eyes closed', source: 'client', data: { note: 1 } });
+      expect(earlierMarker).toMatchObject({ label: null, data: null });
+      expect(await storage.getMarkersForSession(session.id)).toEqual([earlierMarker, marker]);
+
+      // Nothing leaks into the other session
+      expect(await storage.getRawEegSegmentsForSession(other.id)).toHaveLength(1);
+      expect(await storage.getEegRollupsForSession(other.id, '1s')).toHaveLength(1);
+      expect(await storage.getEegPowerForSession(other.id)).toEqual([]);
+      expect(await storage.getBlinkEventsForSession(other.id)).toEqual([]);
+      expect(await storage.getMarkersForSession(other.id)).toEqual([]);
+    });
+
+    it('deletes a session with everything recorded for it', async () => {
+      const session = await storage.createSession({ status: 'closed', isActive: false });
+      const other = await storage.createSession({});
+      expect(session.isActive).toBe(false);
+      const now = Date.now();
+
+      for (const { id } of [session, other]) {
+        await storage.createMandala({ sessionId: id, imageUrl: 'https://example.com/m.png', prompt: 'p', brainwaveData: {} });
+        await storage.addEegDataBatch([{ sessionId: id, attention: 50, meditation: 50, signalQuality: 100, timestamp: new Date(now) }]);
+        await storage.addRawEegSegments([{ sessionId: id, sampleRate: 128, samples: [1], timestamp: new Date(now) }]);
+        await storage.addEegRollups([rollup(id, '1s', now)]);
+        await storage.addEegPower({ sessionId: id, delta: 1, theta: 2, lowAlpha: 3, highAlpha: 4, lowBeta: 5, highBeta: 6, lowGamma: 7, highGamma: 8 });
+        await storage.addBlinkEvent({ sessionId: id, strength: 100 });
+        await storage.addSessionMarker({ sessionId: id, type: 'custom', source: 'client' });
+      }
+      const attempt = await storage.addFittingAttempt({
+        deviceId: `headset-${randomUUID()}`,
+        sessionId: session.id,
+        startedAt: new Date(now),
+        endedAt: new Date(now),
+        durationMs: 0,
+        outcome: 'cancelled',
+        requiredStableSeconds: 10,
+        issueSeconds: {},
+      });
+
+      await storage.deleteSession(session.id);
+      expect(await storage.getSession(session.id)).toBeUndefined();
+      expect(await storage.getMandalasForSession(session.id)).toEqual([]);
+      expect(await storage.getEegDataForSession(session.id)).toEqual([]);
+      expect(await storage.getRawEegSegmentsForSession(session.id)).toEqual([]);
+      expect(await storage.getEegRollupsForSession(session.id, '1s')).toEqual([]);
+      expect(await storage.getEegPowerForSession(session.id)).toEqual([]);
+      expect(await storage.getBlinkEventsForSession(session.id)).toEqual([]);
+      expect(await storage.getMarkersForSession(session.id)).toEqual([]);
+      expect(await storage.getFittingAttempts(attempt.deviceId)).toEqual([{ ...attempt, sessionId: null }]);
+
+      expect(await storage.getMandalasForSession(other.id)).toHaveLength(1);
+      expect(await storage.getEegDataForSession(other.id)).toHaveLength(1);
+      expect(await storage.getMarkersForSession(other.id)).toHaveLength(1);
+    });
+
+    it('prunes samples, raw segments and rollups older than a cutoff', async () => {
+      const session = await storage.createSession({});
+      const cutoff = new Date(ANCIENT + MINUTE);
+      const recent = Date.now();
+
+      await storage.addEegDataBatch([ANCIENT, ANCIENT + 1000, recent].map(time => ({
+        sessionId: session.id,
+        attention: 50,
+        meditation: 50,
+        signalQuality: 100,
+        timestamp: new Date(time),
+      })));
+      await storage.addRawEegSegments([ANCIENT, recent].map(time => ({ sessionId: session.id, sampleRate: 128, samples: [1], timestamp: new Date(time) })));
+      await storage.addEegRollups([
+        rollup(session.id, '1s', ANCIENT),
+        rollup(session.id, '1s', ANCIENT + 1000),
+        rollup(session.id, '1s', recent),
+        rollup(session.id, '10s', ANCIENT),
+      ]);
+
+      expect(await storage.deleteEegDataBefore(cutoff)).toBe(2);
+      expect((await storage.getEegDataForSession(session.id)).map(sample => sample.timestamp.getTime())).toEqual([recent]);
+
+      expect(await storage.deleteRawEegSegmentsBefore(cutoff)).toBe(1);
+      expect(await storage.getRawEegSegmentsForSession(session.id)).toHaveLength(1);
+
+      // Only the tier asked for
+      expect(await storage.deleteEegRollupsBefore('1s', cutoff)).toBe(2);
+      expect(await storage.getEegRollupsForSession(session.id, '1s')).toHaveLength(1);
+      expect(await storage.getEegRollupsForSession(session.id, '10s')).toHaveLength(1);
+      expect(await storage.deleteEegRollupsBefore('10s', cutoff)).toBe(1);
+
+      expect(await storage.deleteEegDataBefore(cutoff)).toBe(0);
+    });
+
+    it('records fitting attempts per device', async () => {
+      const session = await storage.createSession({});
+      const deviceId = `headset-${randomUUID()}`;
+      const start = Date.now() - 10 * MINUTE;
+      const attempt = (startedAt: number) => ({
+        deviceId,
+        sessionId: session.id,
+        startedAt: new Date(startedAt),
+        endedAt: new Date(startedAt + 45_000),
+        durationMs: 45_000,
+        outcome: 'fitted',
+        requiredStableSeconds: 10,
+        issueSeconds: { no_contact: 12, movement: 3 },
+      });
+
+      const later = await storage.addFittingAttempt(attempt(start + MINUTE));
+      const earlier = await storage.addFittingAttempt({ ...attempt(start), sessionId: null });
+      expect(later).toMatchObject({ deviceId, sessionId: session.id, durationMs: 45_000, outcome: 'fitted', issueSeconds: { no_contact: 12, movement: 3 } });
+      expect(earlier.sessionId).toBeNull();
+
+      expect(await storage.getFittingAttempts(deviceId)).toEqual([earlier, later]);
+      expect(await storage.getFittingAttempts(`headset-${randomUUID()}`)).toEqual([]);
+      const all = await storage.getFittingAttempts();
+      expect(all.map(stored => stored.id)).toEqual(expect.arrayContaining([earlier.id, later.id]));
+    });
+  });
+}
@@ -1,5 +1,8 @@
-import { type Session, type InsertSession, type Mandala, type InsertMandala, type EegData, type InsertEegData } from "@shared/schema";
+import { EEG_ROLLUP_RESOLUTIONS, type Session, type InsertSession, type Mandala, type InsertMandala, type EegData, type InsertEegData, type RawEegSegment, type InsertRawEegSegment, type EegRollup, type InsertEegRollup, type EegRollupResolution, type EegPower, type InsertEegPower, type BlinkEvent, type InsertBlinkEvent, type SessionMarker, type InsertSessionMarker, type FittingAttempt, type InsertFittingAttempt } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { connectDatabase } from "./db";
+import { DbStorage } from "./db-storage";
+import { DEFAULT_SQLITE_PATH, SqliteStorage } from "./sqlite-storage";
 
 export interface IStorage {
   // Session management
@@ -7,28 +10,71 @@ export interface IStorage {
   getSession(id: string): Promise<Session | undefined>;
   updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined>;
   getActiveSessions(): Promise<Session[]>;
+  // Removes the session with its mandalas, EEG and markers; fitting attempts stay in the device log
+  deleteSession(id: string): Promise<void>;
 
   // Mandala management
   createMandala(mandala: InsertMandala): Promise<Mandala>;
   getMandala(id: string): Promise<Mandala | undefined>;
+  updateMandala(id: string, updates: Partial<InsertMandala>): Promise<Mandala | undefined>;
   getMandalasForSession(sessionId: string): Promise<Mandala[]>;
   getRecentMandalas(limit: number): Promise<Mandala[]>;
 
   // EEG data management
   addEegData(data: InsertEegData): Promise<EegData>;
-  getEegDataForSession(sessionId: string): Promise<EegData[]>;
+  addEegDataBatch(data: InsertEegData[]): Promise<void>;
+  // since limits the result to samples taken at or after that time
+  getEegDataForSession(sessionId: string, since?: Date): Promise<EegData[]>;
   getLatestEegData(sessionId: string): Promise<EegData | undefined>;
+  deleteEegDataBefore(cutoff: Date): Promise<number>;
+
+  // Raw EEG waveform
+  addRawEegSegments(segments: InsertRawEegSegment[]): Promise<void>;
+  getRawEegSegmentsForSession(sessionId: string): Promise<RawEegSegment[]>;
+  deleteRawEegSegmentsBefore(cutoff: Date): Promise<number>;
+
+  // EEG rollups
+  addEegRollups(rollups: InsertEegRollup[]): Promise<void>;
+  getEegRollupsForSession(sessionId: string, resolution: EegRollupResolution): Promise<EegRollup[]>;
+  deleteEegRollupsBefore(resolution: EegRollupResolution, cutoff: Date): Promise<number>;
+
+  // EEG band power and blink management
+  addEegPower(data: InsertEegPower): Promise<EegPower>;
+  getEegPowerForSession(sessionId: string): Promise<EegPower[]>;
+  addBlinkEvent(data: InsertBlinkEvent): Promise<BlinkEvent>;
+  getBlinkEventsForSession(sessionId: string): Promise<BlinkEvent[]>;
+
+  // Timeline markers
+  addSessionMarker(marker: InsertSessionMarker): Promise<SessionMarker>;
+  getMarkersForSession(sessionId: string): Promise<SessionMarker[]>;
+
+  // Headset fitting attempts
+  addFittingAttempt(attempt: InsertFittingAttempt): Promise<FittingAttempt>;
+  getFittingAttempts(deviceId?: string): Promise<FittingAttempt[]>;
 }
 
 export class MemStorage implements IStorage {
   private sessions: Map<string, Session>;
   private mandalas: Map<string, Mandala>;
-  private eegData: Map<string, EegData>;
+  // Per session, oldest first; samples arrive in order so reads never need to sort
+  private eegData: Map<string, EegData[]>;
+  private rawEegSegments: Map<string, RawEegSegment[]>;
+  private eegRollups: Map<string, EegRollup[]>;
+  private eegPower: Map<string, EegPower>;
+  private blinkEvents: Map<string, BlinkEvent>;
+  private markers: Map<string, SessionMarker>;
+  private fittingAttempts: Map<string, FittingAttempt>;
 
   constructor() {
     this.sessions = new Map();
     this.mandalas = new Map();
     this.eegData = new Map();
+    this.rawEegSegments = new Map();
+    this.eegRollups = new Map();
+    this.eegPower = new Map();
+    this.blinkEvents = new Map();
+    this.markers = new Map();
+    this.fittingAttempts = new Map();
   }
 
   async createSession(insertSession: InsertSession): Promise<Session> {
@@ -36,14 +82,19 @@ export class MemStorage implements IStorage {
     const session: Session = {
       ...insertSession,
       id,
-      createdAt: new Date(),
-      isActive: true,
+      createdAt: insertSession.createdAt ?? new Date(),
+      isActive: insertSession.isActive ?? true,
       attentionLevel: insertSession.attentionLevel ?? null,
       meditationLevel: insertSession.meditationLevel ?? null,
       signalQuality: insertSession.signalQuality ?? null,
       voiceTranscript: insertSession.voiceTranscript ?? null,
       aiPrompt: insertSession.aiPrompt ?? null,
       mandalaUrl: insertSession.mandalaUrl ?? null,
+      baseline: insertSession.baseline ?? null,
+      status: insertSession.status ?? 'idle',
+      lastActivityAt: insertSession.lastActivityAt ?? new Date(),
+      closedAt: insertSession.closedAt ?? null,
+      summary: insertSession.summary ?? null,
     };
     this.sessions.set(id, session);
     return session;
@@ -66,14 +117,38 @@ export class MemStorage implements IStorage {
     return Array.from(this.sessions.values()).filter(session => session.isActive);
   }
 
+  async deleteSession(id: string): Promise<void> {
+    const deleteForSession = <T extends { sessionId: string | null }>(records: Map<string, T>) => {
+      for (const [key, record] of Array.from(records.entries())) {
+        if (record.sessionId === id) records.delete(key);
+      }
+    };
+    deleteForSession(this.mandalas);
+    deleteForSession(this.eegPower);
+    deleteForSession(this.blinkEvents);
+    deleteForSession(this.markers);
+    this.eegData.delete(id);
+    this.rawEegSegments.delete(id);
+    for (const resolution of EEG_ROLLUP_RESOLUTIONS) {
+      this.eegRollups.delete(`${id}:${resolution}`);
+    }
+    for (const attempt of Array.from(this.fittingAttempts.values())) {
+      if (attempt.sessionId === id) this.fittingAttempts.set(attempt.id, { ...attempt, sessionId: null });
+    }
+    this.sessions.delete(id);
+  }
+
   async createMandala(insertMandala: InsertMandala): Promise<Mandala> {
     const id = randomUUID();
     const mandala: Mandala = {
       ...insertMandala,
       id,
-      createdAt: new Date(),
+      createdAt: insertMandala.createdAt ?? new Date(),
       sessionId: insertMandala.sessionId ?? null,
+      imageKey: insertMandala.imageKey ?? null,
+      sourceImageUrl: insertMandala.sourceImageUrl ?? null,
       voiceTranscript: insertMandala.voiceTranscript ?? null,
+      dataConfidence: insertMandala.dataConfidence ?? null,
     };
     this.mandalas.set(id, mandala);
     return mandala;
@@ -83,6 +158,15 @@ export class MemStorage implements IStorage {
     return this.mandalas.get(id);
   }
 
+  async updateMandala(id: string, updates: Partial<InsertMandala>): Promise<Mandala | undefined> {
+    const mandala = this.mandalas.get(id);
+    if (!mandala) return undefined;
+
+    const updatedMandala = { ...mandala, ...updates };
+    this.mandalas.set(id, updatedMandala);
+    return updatedMandala;
+  }
+
   async getMandalasForSession(sessionId: string): Promise<Mandala[]> {
     return Array.from(this.mandalas.values()).filter(mandala => mandala.sessionId === sessionId);
   }
@@ -98,24 +182,204 @@ export class MemStorage implements IStorage {
     const data: EegData = {
       ...insertData,
       id,
-      timestamp: new Date(),
+      timestamp: insertData.timestamp ?? new Date(),
       sessionId: insertData.sessionId ?? null,
       rawData: insertData.rawData ?? null,
+      isReliable: insertData.isReliable ?? true,
+      artifacts: insertData.artifacts ?? null,
     };
-    this.eegData.set(id, data);
+    const sessionData = this.eegData.get(data.sessionId ?? '') ?? [];
+    sessionData.push(data);
+    // Only samples written with an earlier timestamp (e.g. imported ones) need to be put in place
+    if (sessionData.length > 1 && sessionData[sessionData.length - 2].timestamp > data.timestamp) {
+      sessionData.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+    this.eegData.set(data.sessionId ?? '', sessionData);
     return data;
   }
 
-  async getEegDataForSession(sessionId: string): Promise<EegData[]> {
-    return Array.from(this.eegData.values())
-      .filter(data => data.sessionId === sessionId)
-      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  async addEegDataBatch(insertData: InsertEegData[]): Promise<void> {
+    for (const data of insertData) {
+      await this.addEegData(data);
+    }
+  }
+
+  async getEegDataForSession(sessionId: string, since?: Date): Promise<EegData[]> {
+    const sessionData = this.eegData.get(sessionId) ?? [];
+    return since ? sessionData.filter(data => data.timestamp >= since) : [...sessionData];
   }
 
   async getLatestEegData(sessionId: string): Promise<EegData | undefined> {
-    const sessionData = await this.getEegDataForSession(sessionId);
+    const sessionData = this.eegData.get(sessionId) ?? [];
     return sessionData[sessionData.length - 1];
   }
+
+  async deleteEegDataBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [sessionId, sessionData] of Array.from(this.eegData.entries())) {
+      const kept = sessionData.filter(data => data.timestamp >= cutoff);
+      deleted += sessionData.length - kept.length;
+      this.eegData.set(sessionId, kept);
+    }
+    return deleted;
+  }
+
+  async addRawEegSegments(insertSegments: InsertRawEegSegment[]): Promise<void> {
+    for (const insertSegment of insertSegments) {
+      const segment: RawEegSegment = {
+        ...insertSegment,
+        id: randomUUID(),
+        timestamp: insertSegment.timestamp ?? new Date(),
+        sessionId: insertSegment.sessionId ?? null,
+      };
+      const sessionSegments = this.rawEegSegments.get(segment.sessionId ?? '') ?? [];
+      sessionSegments.push(segment);
+      this.rawEegSegments.set(segment.sessionId ?? '', sessionSegments);
+    }
+  }
+
+  async getRawEegSegmentsForSession(sessionId: string): Promise<RawEegSegment[]> {
+    return (this.rawEegSegments.get(sessionId) ?? [])
+      .slice()
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async deleteRawEegSegmentsBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [sessionId, sessionSegments] of Array.from(this.rawEegSegments.entries())) {
+      const kept = sessionSegments.filter(segment => segment.timestamp >= cutoff);
+      deleted += sessionSegments.length - kept.length;
+      this.rawEegSegments.set(sessionId, kept);
+    }
+    return deleted;
+  }
+
+  async addEegRollups(insertRollups: InsertEegRollup[]): Promise<void> {
+    for (const insertRollup of insertRollups) {
+      const rollup: EegRollup = {
+        ...insertRollup,
+        id: randomUUID(),
+        sessionId: insertRollup.sessionId ?? null,
+      };
+      const key = `${rollup.sessionId}:${rollup.resolution}`;
+      const sessionRollups = this.eegRollups.get(key) ?? [];
+      sessionRollups.push(rollup);
+      this.eegRollups.set(key, sessionRollups);
+    }
+  }
+
+  async getEegRollupsForSession(sessionId: string, resolution: EegRollupResolution): Promise<EegRollup[]> {
+    return (this.eegRollups.get(`${sessionId}:${resolution}`) ?? [])
+      .slice()
+      .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async deleteEegRollupsBefore(resolution: EegRollupResolution, cutoff: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, sessionRollups] of Array.from(this.eegRollups.entries())) {
+      if (!key.endsWith(`:${resolution}`)) continue;
+      const kept = sessionRollups.filter(rollup => rollup.bucketStart >= cutoff);
+      deleted += sessionRollups.length - kept.length;
+      this.eegRollups.set(key, kept);
+    }
+    return deleted;
+  }
+
+  async addEegPower(insertData: InsertEegPower): Promise<EegPower> {
+    const id = randomUUID();
+    const data: EegPower = {
+      ...insertData,
+      id,
+      timestamp: insertData.timestamp ?? new Date(),
+      sessionId: insertData.sessionId ?? null,
+    };
+    this.eegPower.set(id, data);
+    return data;
+  }
+
+  async getEegPowerForSession(sessionId: string): Promise<EegPower[]> {
+    return Array.from(this.eegPower.values())
+      .filter(data => data.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async addBlinkEvent(insertEvent: InsertBlinkEvent): Promise<BlinkEvent> {
+    const id = randomUUID();
+    const event: BlinkEvent = {
+      ...insertEvent,
+      id,
+      timestamp: insertEvent.timestamp ?? new Date(),
+      sessionId: insertEvent.sessionId ?? null,
+    };
+    this.blinkEvents.set(id, event);
+    return event;
+  }
+
+  async getBlinkEventsForSession(sessionId: string): Promise<BlinkEvent[]> {
+    return Array.from(this.blinkEvents.values())
+      .filter(event => event.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async addSessionMarker(insertMarker: InsertSessionMarker): Promise<SessionMarker> {
+    const id = randomUUID();
+    const marker: SessionMarker = {
+      ...insertMarker,
+      id,
+      timestamp: insertMarker.timestamp ?? new Date(),
+      sessionId: insertMarker.sessionId ?? null,
+      label: insertMarker.label ?? null,
+      data: insertMarker.data ?? null,
+    };
+    this.markers.set(id, marker);
+    return marker;
+  }
+
+  async getMarkersForSession(sessionId: string): Promise<SessionMarker[]> {
+    return Array.from(this.markers.values())
+      .filter(marker => marker.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async addFittingAttempt(insertAttempt: InsertFittingAttempt): Promise<FittingAttempt> {
+    const id = randomUUID();
+    const attempt: FittingAttempt = {
+      ...insertAttempt,
+      id,
+      sessionId: insertAttempt.sessionId ?? null,
+    };
+    this.fittingAttempts.set(id, attempt);
+    return attempt;
+  }
+
+  async getFittingAttempts(deviceId?: string): Promise<FittingAttempt[]> {
+    return Array.from(this.fittingAttempts.values())
+      .filter(attempt => !deviceId || attempt.deviceId === deviceId)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+}
+
+export const STORAGE_BACKENDS = ["memory", "postgres", "sqlite"] as const;
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+// STORAGE_BACKEND picks where sessions live; postgres connects to DATABASE_URL and sqlite
+// keeps a local file at SQLITE_PATH
+export function createStorage(env: NodeJS.ProcessEnv = process.env): IStorage {
+  const backend = (env.STORAGE_BACKEND || "memory") as StorageBackend;
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected one of ${STORAGE_BACKENDS.join(", ")}`);
+  }
+
+  if (backend === "postgres") {
+    if (!env.DATABASE_URL) {
+      throw new Error("STORAGE_BACKEND=postgres needs DATABASE_URL");
+    }
+    return new DbStorage(connectDatabase(env.DATABASE_URL).db);
+  }
+  if (backend === "sqlite") {
+    return new SqliteStorage(env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+  }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
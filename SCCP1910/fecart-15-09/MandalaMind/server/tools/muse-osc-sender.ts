@@ -0,0 +1,55 @@
+import { createSocket } from "dgram";
+import { encodeOscMessage, type OscArgument } from "../services/osc";
+
+// Sends Mind Monitor-style OSC to EEG_SOURCE=osc without a headband.
+// Usage: npm run muse-sender -- [--state focused|relaxed] [--port 5000] [--host 127.0.0.1]
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+// log10 band powers (Bels) roughly as a Muse 2 reports them
+const STATES: Record<string, Record<string, number>> = {
+  focused: { delta: 0.6, theta: 0.4, alpha: 0.5, beta: 0.9, gamma: 0.3 },
+  relaxed: { delta: 0.6, theta: 0.6, alpha: 1.1, beta: 0.4, gamma: 0.1 },
+};
+
+const stateName = readArg('state') || 'focused';
+const state = STATES[stateName];
+if (!state) {
+  console.error(`Unknown state "${stateName}". Available states: ${Object.keys(STATES).join(', ')}`);
+  process.exit(1);
+}
+
+const host = readArg('host') || '127.0.0.1';
+const port = readArg('port') ? parseInt(readArg('port')!, 10) : 5000;
+const socket = createSocket('udp4');
+
+function send(address: string, args: OscArgument[]): void {
+  socket.send(encodeOscMessage(address, args), port, host);
+}
+
+let tick = 0;
+const interval = setInterval(() => {
+  tick++;
+  for (const [band, level] of Object.entries(state)) {
+    // Four channels (TP9, AF7, AF8, TP10) with a little wobble
+    const channels = [0, 1, 2, 3].map(() => level + (Math.random() - 0.5) * 0.1);
+    send(`/muse/elements/${band}_absolute`, channels);
+  }
+  if (tick % 10 === 0) {
+    send('/muse/elements/horseshoe', [1, 1, 2, 1]);
+    send('/muse/elements/touching_forehead', [1]);
+  }
+  if (Math.random() < 0.02) {
+    send('/muse/elements/blink', [1]);
+  }
+}, 100);
+
+console.log(`Sending ${stateName} Muse OSC to ${host}:${port}`);
+
+process.on('SIGINT', () => {
+  clearInterval(interval);
+  socket.close();
+  process.exit(0);
+});
@@ -0,0 +1,22 @@
+import path from "path";
+import { backupSqliteDatabase, DEFAULT_SQLITE_PATH } from "../sqlite-storage";
+
+// Takes a consistent copy of the SQLite database while the server keeps running.
+// Usage: npm run db:backup -- [--db data/mandalamind.db] [--out backups/mandalamind-<time>.db]
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const source = path.resolve(readArg('db') || process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+const destination = path.resolve(readArg('out') || path.join('backups', `mandalamind-${stamp}.db`));
+
+backupSqliteDatabase(source, destination)
+  .then(() => {
+    console.log(`Backed up ${source} to ${destination}`);
+  })
+  .catch(error => {
+    console.error(`Backup of ${source} failed:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
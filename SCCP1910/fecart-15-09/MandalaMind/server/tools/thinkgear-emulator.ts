@@ -0,0 +1,34 @@
+import { ThinkGearEmulator, EMULATOR_SCENARIOS, type EmulatorScenarioName } from "../services/thinkgear-emulator";
+
+// Usage: npm run emulator -- [--scenario normal|signal-loss|drop-mid-stream|stall|auth-rejection] [--port 13854] [--host 127.0.0.1]
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const scenario = (readArg('scenario') || 'normal') as EmulatorScenarioName;
+if (!EMULATOR_SCENARIOS[scenario]) {
+  console.error(`Unknown scenario "${scenario}". Available scenarios:`);
+  for (const [name, definition] of Object.entries(EMULATOR_SCENARIOS)) {
+    console.error(`  ${name.padEnd(16)} ${definition.description}`);
+  }
+  process.exit(1);
+}
+
+const emulator = new ThinkGearEmulator({
+  scenario,
+  host: readArg('host'),
+  port: readArg('port') ? parseInt(readArg('port')!, 10) : undefined,
+});
+
+emulator.on('authenticated', (appName) => console.log(`Client authenticated: ${appName}`));
+emulator.on('authRejected', (appName) => console.log(`Client rejected: ${appName}`));
+
+emulator.start().catch((error) => {
+  console.error('Failed to start ThinkGear emulator:', error.message);
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  emulator.stop().then(() => process.exit(0));
+});
@@ -1,8 +1,12 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, real, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// idle → capturing ⇄ paused → stopped → closed; only capturing sessions receive EEG samples
+export const SESSION_STATUSES = ['idle', 'capturing', 'paused', 'stopped', 'closed'] as const;
+export type SessionStatus = typeof SESSION_STATUSES[number];
+
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -13,17 +17,39 @@ export const sessions = pgTable("sessions", {
   aiPrompt: text("ai_prompt"),
   mandalaUrl: text("mandala_url"),
   isActive: boolean("is_active").default(true),
-});
+  // Per-visitor attention/meditation baseline from the calibration phase (BrainwaveBaseline)
+  baseline: jsonb("baseline"),
+  status: text("status").default('idle').notNull(),
+  // Last request made on the visitor's behalf, or samples streamed while capturing; idle sessions are closed automatically
+  lastActivityAt: timestamp("last_activity_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+  // Written when the session is closed (SessionSummary)
+  summary: jsonb("summary"),
+}, (table) => [
+  index("sessions_created_at_idx").on(table.createdAt),
+  // Idle expiry scans the sessions that are still open
+  index("sessions_is_active_idx").on(table.isActive),
+]);
 
 export const mandalas = pgTable("mandalas", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").references(() => sessions.id),
+  // Where clients load the image from; /api/mandalas/:id/image for images in the asset store
   imageUrl: text("image_url").notNull(),
+  // Content-addressed key in the asset store; null for older mandalas whose image lives only at imageUrl
+  imageKey: text("image_key"),
+  // The provider's original link for downloaded images; these expire, so it is kept for reference only
+  sourceImageUrl: text("source_image_url"),
   prompt: text("prompt").notNull(),
   brainwaveData: jsonb("brainwave_data").notNull(),
   voiceTranscript: text("voice_transcript"),
+  // Share of reliable EEG samples in the capture window (0-1)
+  dataConfidence: real("data_confidence"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("mandalas_session_id_idx").on(table.sessionId),
+  index("mandalas_created_at_idx").on(table.createdAt),
+]);
 
 export const eegData = pgTable("eeg_data", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -32,22 +58,177 @@ export const eegData = pgTable("eeg_data", {
   meditation: integer("meditation").notNull(),
   signalQuality: integer("signal_quality").notNull(),
   rawData: jsonb("raw_data"),
+  isReliable: boolean("is_reliable").default(true),
+  artifacts: jsonb("artifacts"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+}, (table) => [
+  index("eeg_data_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+// Stretches of the raw waveform, as delivered to the live view (ThinkGear's 512 Hz stream, decimated),
+// kept while a session is capturing. Only headsets with raw output turned on produce them.
+export const rawEegSegments = pgTable("raw_eeg_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  sampleRate: integer("sample_rate").notNull(),
+  // ADC counts, oldest first
+  samples: jsonb("samples").notNull(),
+  // Arrival time of the first sample
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+}, (table) => [
+  index("raw_eeg_segments_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
 
+// Aggregates written alongside the raw samples, so history survives once eeg_data is pruned
+export const EEG_ROLLUP_RESOLUTIONS = ['1s', '10s'] as const;
+export type EegRollupResolution = typeof EEG_ROLLUP_RESOLUTIONS[number];
+export const EEG_RESOLUTIONS = ['raw', ...EEG_ROLLUP_RESOLUTIONS] as const;
+export type EegResolution = typeof EEG_RESOLUTIONS[number];
+// What GET /api/sessions/:id/eeg returns, picked with ?format=
+export const EEG_EXPORT_FORMATS = ['json', 'csv', 'edf'] as const;
+export type EegExportFormat = typeof EEG_EXPORT_FORMATS[number];
+
+export const eegRollups = pgTable("eeg_rollups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  // EegRollupResolution
+  resolution: text("resolution").notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  sampleCount: integer("sample_count").notNull(),
+  reliableCount: integer("reliable_count").notNull(),
+  attentionMean: real("attention_mean").notNull(),
+  attentionMin: integer("attention_min").notNull(),
+  attentionMax: integer("attention_max").notNull(),
+  meditationMean: real("meditation_mean").notNull(),
+  meditationMin: integer("meditation_min").notNull(),
+  meditationMax: integer("meditation_max").notNull(),
+  signalQualityMean: real("signal_quality_mean").notNull(),
+  signalQualityMin: integer("signal_quality_min").notNull(),
+  signalQualityMax: integer("signal_quality_max").notNull(),
+}, (table) => [
+  index("eeg_rollups_session_id_resolution_bucket_start_idx").on(table.sessionId, table.resolution, table.bucketStart),
+  // Retention prunes each tier by age
+  index("eeg_rollups_resolution_bucket_start_idx").on(table.resolution, table.bucketStart),
+]);
+
+export const eegPowerData = pgTable("eeg_power", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  delta: integer("delta").notNull(),
+  theta: integer("theta").notNull(),
+  lowAlpha: integer("low_alpha").notNull(),
+  highAlpha: integer("high_alpha").notNull(),
+  lowBeta: integer("low_beta").notNull(),
+  highBeta: integer("high_beta").notNull(),
+  lowGamma: integer("low_gamma").notNull(),
+  highGamma: integer("high_gamma").notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+}, (table) => [
+  index("eeg_power_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+export const blinkEvents = pgTable("blink_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  strength: integer("strength").notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+}, (table) => [
+  index("blink_events_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+// Moments on a session's timeline, recorded by the browser (voice, reveal, operator notes) or the server
+export const MARKER_TYPES = [
+  'recording_started',
+  'recording_stopped',
+  'generation_requested',
+  'mandala_generated',
+  'mandala_revealed',
+  'calibration_started',
+  'calibration_complete',
+  'gesture',
+  'note',
+] as const;
+export type MarkerType = typeof MARKER_TYPES[number];
+
+export const sessionMarkers = pgTable("session_markers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  type: text("type").notNull(),
+  label: text("label"),
+  // 'client' or 'server', whichever recorded it
+  source: text("source").notNull(),
+  data: jsonb("data"),
+  // Server clock, like the EEG samples it is overlaid on
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+}, (table) => [
+  index("session_markers_session_id_timestamp_idx").on(table.sessionId, table.timestamp),
+]);
+
+// One run of the headset fitting wizard, kept to learn how long setup really takes
+export const fittingAttempts = pgTable("fitting_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull(),
+  sessionId: varchar("session_id").references(() => sessions.id),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at").notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  // FittingOutcome
+  outcome: text("outcome").notNull(),
+  requiredStableSeconds: integer("required_stable_seconds").notNull(),
+  // Seconds spent on each FittingIssue
+  issueSeconds: jsonb("issue_seconds").notNull(),
+}, (table) => [
+  index("fitting_attempts_device_id_started_at_idx").on(table.deviceId, table.startedAt),
+]);
+
+// createdAt (and the timestamps below) may be set when a session bundle is imported;
+// they default to the time of the insert
 export const insertSessionSchema = createInsertSchema(sessions).omit({
   id: true,
+});
+
+// What clients may set on a session; lifecycle fields only change through the
+// /start, /pause, /stop and /close endpoints
+export const sessionDetailsSchema = insertSessionSchema.omit({
   createdAt: true,
+  isActive: true,
+  status: true,
+  lastActivityAt: true,
+  closedAt: true,
+  summary: true,
 });
 
 export const insertMandalaSchema = createInsertSchema(mandalas).omit({
   id: true,
-  createdAt: true,
 });
 
+// timestamp may be set by writers that buffer samples; it defaults to the time of the insert
 export const insertEegDataSchema = createInsertSchema(eegData).omit({
   id: true,
-  timestamp: true,
+});
+
+export const insertRawEegSegmentSchema = createInsertSchema(rawEegSegments).omit({
+  id: true,
+});
+
+export const insertEegRollupSchema = createInsertSchema(eegRollups).omit({
+  id: true,
+});
+
+export const insertEegPowerSchema = createInsertSchema(eegPowerData).omit({
+  id: true,
+});
+
+export const insertBlinkEventSchema = createInsertSchema(blinkEvents).omit({
+  id: true,
+});
+
+export const insertSessionMarkerSchema = createInsertSchema(sessionMarkers).omit({
+  id: true,
+});
+
+export const insertFittingAttemptSchema = createInsertSchema(fittingAttempts).omit({
+  id: true,
 });
 
 export type InsertSession = z.infer<typeof insertSessionSchema>;
@@ -59,15 +240,290 @@ export type Mandala = typeof mandalas.$inferSelect;
 export type InsertEegData = z.infer<typeof insertEegDataSchema>;
 export type EegData = typeof eegData.$inferSelect;
 
+export type InsertRawEegSegment = z.infer<typeof insertRawEegSegmentSchema>;
+export type RawEegSegment = typeof rawEegSegments.$inferSelect;
+
+export type InsertEegRollup = z.infer<typeof insertEegRollupSchema>;
+export type EegRollup = typeof eegRollups.$inferSelect;
+
+export type InsertEegPower = z.infer<typeof insertEegPowerSchema>;
+export type EegPower = typeof eegPowerData.$inferSelect;
+
+export type InsertBlinkEvent = z.infer<typeof insertBlinkEventSchema>;
+export type BlinkEvent = typeof blinkEvents.$inferSelect;
+
+export type InsertSessionMarker = z.infer<typeof insertSessionMarkerSchema>;
+export type SessionMarker = typeof sessionMarkers.$inferSelect;
+
+export type InsertFittingAttempt = z.infer<typeof insertFittingAttemptSchema>;
+export type FittingAttempt = typeof fittingAttempts.$inferSelect;
+
 export interface BrainwaveData {
   attention: number;
   meditation: number;
   signalQuality: number;
+  // ThinkGear's 0-200 contact quality (0 is best), when the source reports it
+  poorSignalLevel?: number;
+  timestamp: number;
+  // Present when the session has a calibrated baseline
+  normalized?: NormalizedBrainwave;
+  // Present when the reading stands for a whole capture window rather than a single sample
+  summary?: BrainwaveWindowSummary;
+}
+
+export interface MetricSummary {
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  variance: number;
+  // Least-squares slope over the window, in points per minute
+  trendPerMinute: number;
+}
+
+// Server-side summary of the EEG stream between voice recording start and stop
+export interface BrainwaveWindowSummary {
+  startedAt: number;
+  endedAt: number;
+  sampleCount: number;
+  attention: MetricSummary;
+  meditation: MetricSummary;
+  // Mean signal quality (0-100)
+  signalQuality: number;
+  highAttentionSeconds: number;
+  highMeditationSeconds: number;
+}
+
+// Capture window bounds relative to when the generate request was sent, so client and
+// server clocks don't need to agree
+export interface CaptureWindow {
+  startedMsAgo: number;
+  endedMsAgo: number;
+}
+
+export interface MetricBaseline {
+  mean: number;
+  variance: number;
+}
+
+export interface BrainwaveBaseline {
+  attention: MetricBaseline;
+  meditation: MetricBaseline;
+  sampleCount: number;
+  durationSeconds: number;
+  calibratedAt: number;
+}
+
+// Readings relative to the visitor's own baseline
+export interface NormalizedBrainwave {
+  attentionZ: number;
+  meditationZ: number;
+  // 0-100, where the reading falls within the baseline distribution
+  attentionPercentile: number;
+  meditationPercentile: number;
+}
+
+export interface CalibrationStatus {
+  sessionId: string;
+  startedAt: number;
+  durationSeconds: number;
+  sampleCount: number;
+}
+
+export type ArtifactReason = 'poor_signal' | 'blink_burst' | 'saturation' | 'sudden_jump';
+
+export interface SampleQuality {
+  reliable: boolean;
+  reasons: ArtifactReason[];
+}
+
+// ASIC band powers reported by the headset (unitless, relative magnitudes)
+export interface EegPowerBands {
+  delta: number;
+  theta: number;
+  lowAlpha: number;
+  highAlpha: number;
+  lowBeta: number;
+  highBeta: number;
+  lowGamma: number;
+  highGamma: number;
+  timestamp: number;
+}
+
+export type SpectralBand = 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
+
+// Band powers computed from raw samples (or reported by the headset), alongside ThinkGear's own eegPower
+export interface SpectralBandPower extends Record<SpectralBand, number> {
+  // Share of total power in each band (0-1)
+  relative: Record<SpectralBand, number>;
+  ratios: {
+    alphaTheta: number;
+    betaAlpha: number;
+    thetaBeta: number;
+  };
+  // 'fft' is computed here from raw samples; 'muse' comes precomputed from the headband
+  source: 'fft' | 'muse';
+  windowSeconds: number;
+  timestamp: number;
+}
+
+export interface BlinkData {
+  strength: number;
+  timestamp: number;
+}
+
+// Decimated slice of the 512 Hz raw EEG stream, as delivered over the WebSocket
+export interface RawEegBatch {
+  samples: number[];
+  sampleRate: number;
+  // Arrival times of the first and last sample in the batch
+  startTimestamp: number;
   timestamp: number;
+  simulated?: boolean;
+}
+
+export interface SessionEegResponse {
+  resolution: EegResolution;
+  // Filled for raw resolution
+  samples: EegData[];
+  // Filled for the rollup resolutions
+  rollups: EegRollup[];
+  eegPower: EegPower[];
+  blinks: BlinkEvent[];
+  markers: SessionMarker[];
 }
 
 export interface GenerateMandalaRequest {
   voiceTranscript: string;
-  brainwaveData: BrainwaveData;
+  // Voice recording bounds; defaults to the last 30 seconds
+  captureWindow?: CaptureWindow;
+  // Snapshot used only when no samples were stored for the window
+  brainwaveData?: BrainwaveData;
   sessionId: string;
+  requireReliableData?: boolean;
+}
+
+// A headset registered on the server and the station/session it is bound to
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  stationId: string;
+  sessionId: string | null;
+  liveSource: 'neurosky' | 'demo' | 'replay' | 'osc';
+  // Source currently producing data, if any
+  source: 'neurosky' | 'demo' | 'replay' | 'osc' | null;
+  connected: boolean;
+}
+
+// A demo-mode scenario file, as listed to clients
+export interface DemoScenarioSummary {
+  name: string;
+  description: string;
+  seed: number;
+  loop: boolean;
+  durationSeconds: number;
+  phases: { label: string; durationSeconds: number }[];
+}
+
+// Which demo scenario is playing and the seed that makes it repeatable
+export interface DemoStatus {
+  scenario: string;
+  seed: number;
+  phase: string;
+  phaseIndex: number;
+}
+
+// Emitted when a connected headset stops delivering data (e.g. Bluetooth dropped behind ThinkGear Connector)
+export interface StreamStall {
+  // no_data: nothing at all arrived; no_esense: messages arrive but without attention/meditation
+  reason: 'no_data' | 'no_esense';
+  lastDataAgeMs: number;
+  lastESenseAgeMs: number | null;
+  stallCount: number;
+  // The connection is being torn down and re-established
+  recovering: boolean;
+}
+
+// Read-only record of a closed session
+export interface SessionSummary {
+  // 'expired' when the server closed the session after it sat idle
+  reason: 'closed' | 'expired';
+  closedAt: number;
+  durationSeconds: number;
+  sampleCount: number;
+  // Share of reliable samples over the whole session (0-1)
+  dataConfidence: number | null;
+  eeg: BrainwaveWindowSummary | null;
+  blinkCount: number;
+  mandalaIds: string[];
+}
+
+export type BlinkGestureName = 'double_blink' | 'triple_blink';
+
+// What the kiosk does when it sees a gesture
+export type GestureAction = 'toggle_recording' | 'generate_mandala' | 'reset_session' | 'none';
+
+// Deliberate blinks recognized as a hands-free command
+export interface BlinkGesture {
+  gesture: BlinkGestureName;
+  action: GestureAction;
+  // Strength of each blink in the gesture
+  strengths: number[];
+  timestamp: number;
+}
+
+// Fitting wizard checks, in the order staff work through them
+export type FittingStep = 'contact' | 'ear_clip' | 'stillness' | 'blink' | 'stable';
+
+// no_contact: forehead sensor off the skin; ear_clip_loose: noisy reference;
+// movement: the visitor or the cable is moving; no_blink: no blink seen yet
+export type FittingIssue = 'no_contact' | 'ear_clip_loose' | 'movement' | 'no_blink';
+
+export type FittingOutcome = 'fitted' | 'cancelled' | 'timed_out' | 'disconnected';
+
+export interface FittingStatus {
+  deviceId: string;
+  sessionId: string | null;
+  startedAt: number;
+  step: FittingStep;
+  issue: FittingIssue | null;
+  // How long every check has passed without interruption
+  stableSeconds: number;
+  requiredStableSeconds: number;
+  poorSignalLevel: number | null;
+  // Raw peak-to-peak over the last second, when raw samples arrive
+  rawPeakToPeak: number | null;
+  blinkDetected: boolean;
+  // Set once the attempt is over
+  outcome?: FittingOutcome;
+}
+
+export interface FittingAttemptsSummary {
+  count: number;
+  fitted: number;
+  // Median time to a successful fit
+  medianFittedSeconds: number | null;
+}
+
+// manifest.json of a session export bundle (GET /api/sessions/:id/export)
+export interface SessionBundleManifest {
+  format: 'mandalamind-session';
+  // Bumped whenever the bundle layout changes in a way older importers can't read
+  schemaVersion: number;
+  exportedAt: number;
+  // Id on the server it was exported from; imports get a new one
+  sessionId: string;
+  counts: SessionBundleCounts;
+  // Every other file in the bundle, so an import can tell a damaged archive from a valid one
+  files: { path: string; size: number; sha256: string }[];
+}
+
+export interface SessionBundleCounts {
+  samples: number;
+  rawSegments: number;
+  rollups: number;
+  eegPower: number;
+  blinks: number;
+  markers: number;
+  mandalas: number;
 }